@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { CredentialService } from '../services/credentialService';
+import { GitHubService } from '../services/githubService';
+import { SourceHost } from '../models/repository';
+
+/**
+ * Pick one of the given hosts. Resolves immediately when there is only one.
+ */
+async function pickHost(
+  credentials: CredentialService,
+  hosts: SourceHost[],
+  placeHolder: string
+): Promise<SourceHost | undefined> {
+  if (hosts.length <= 1) {
+    return hosts[0];
+  }
+
+  const items = await Promise.all(hosts.map(async source => ({
+    label: source.host,
+    description: `${source.type === 'gitea' ? 'Gitea' : 'GitHub'}${await credentials.hasCredentials(source.host) ? ' · signed in' : ''}`,
+    source
+  })));
+  return (await vscode.window.showQuickPick(items, { placeHolder }))?.source;
+}
+
+/**
+ * "Sign in to GitHub" command. Hosts with a VS Code authentication provider
+ * can use the signed-in account; any host can use a personal access token.
+ */
+export async function signInCommand(
+  credentials: CredentialService,
+  githubService: GitHubService
+): Promise<void> {
+  const source = await pickHost(credentials, githubService.getSourceHosts(), 'Sign in to which host?');
+  if (!source) {
+    return;
+  }
+
+  let method: 'account' | 'token' = 'token';
+  if (credentials.getAuthProviderId(source)) {
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: '$(account) Sign in with your GitHub account', method: 'account' as const },
+        { label: '$(key) Enter a personal access token', method: 'token' as const }
+      ],
+      { placeHolder: `How do you want to sign in to ${source.host}?` }
+    );
+    if (!selected) {
+      return;
+    }
+    method = selected.method;
+  }
+
+  try {
+    if (method === 'account') {
+      const account = await credentials.signInWithAccount(source);
+      vscode.window.showInformationMessage(`Signed in to ${source.host} as ${account}`);
+      return;
+    }
+
+    const token = await vscode.window.showInputBox({
+      prompt: `Access token for ${source.host}. It is kept in VS Code's secure storage.`,
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (!token?.trim()) {
+      return;
+    }
+    await credentials.setToken(source.host, token.trim());
+    vscode.window.showInformationMessage(`Saved access token for ${source.host}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * "Sign Out" command: forget the token or account used for a host
+ */
+export async function signOutCommand(
+  credentials: CredentialService,
+  githubService: GitHubService
+): Promise<void> {
+  const signedIn: SourceHost[] = [];
+  for (const source of githubService.getSourceHosts()) {
+    if (await credentials.hasCredentials(source.host)) {
+      signedIn.push(source);
+    }
+  }
+
+  if (signedIn.length === 0) {
+    vscode.window.showInformationMessage('Not signed in to any host.');
+    return;
+  }
+
+  const source = await pickHost(credentials, signedIn, 'Sign out of which host?');
+  if (!source) {
+    return;
+  }
+
+  await credentials.signOut(source.host);
+  vscode.window.showInformationMessage(`Signed out of ${source.host}`);
+}
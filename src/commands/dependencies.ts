@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { SkillInstaller } from '../services/skillInstaller';
+import { DependencyResolver, findDependents, findOrphanedDependencies } from '../services/dependencyResolver';
+import { InstallScope, InstalledSkill, Skill } from '../models/skill';
+import { InstallPlan, InstallPlanStep } from '../models/dependency';
+import { isAtLeast } from '../services/skillScanner';
+import { CONFIRM_SEVERITY, formatRiskReports, scanBeforeInstall } from './securityReview';
+
+/**
+ * One line of the install plan summary
+ */
+function formatStep(step: InstallPlanStep, index: number): string {
+  const version = step.skill.version ? ` ${step.skill.version}` : '';
+  const constraints = step.constraints.length > 0 ? ` (${step.constraints.join(', ')})` : '';
+  const requiredBy = step.requiredBy.length > 0 ? ` ← ${step.requiredBy.join(', ')}` : '';
+  return `${index + 1}. ${step.skill.name}${version}${constraints} from ${step.skill.repository}${requiredBy}`;
+}
+
+/**
+ * Resolve a skill's dependencies for an install into a scope and scan
+ * everything to be installed. Only skills in that scope or the global one
+ * satisfy dependencies. When
+ * there is more to install than the skill itself or the scan found risks,
+ * show the plan and the risk report for confirmation; findings at the
+ * blocking severity refuse the install. Resolves to the plan steps to
+ * install, or undefined if resolution failed, was blocked or cancelled.
+ */
+export async function resolveInstallPlan(
+  resolver: DependencyResolver,
+  skillInstaller: SkillInstaller,
+  skill: Skill,
+  scope: InstallScope,
+  getCatalog: () => Promise<Skill[]>
+): Promise<InstallPlanStep[] | undefined> {
+  let plan: InstallPlan;
+  try {
+    // Disabled copies satisfy dependencies once enabled; enabled copies are preferred
+    const globalScope = skillInstaller.getGlobalScope();
+    const installed = [
+      ...await skillInstaller.listInstalled(globalScope, true),
+      ...(scope.root === globalScope.root ? [] : await skillInstaller.listInstalled(scope, true))
+    ].sort((a, b) => Number(!!a.disabled) - Number(!!b.disabled));
+    plan = await resolver.resolve(skill, getCatalog, installed);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to resolve dependencies of ${skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+
+  const errors = plan.problems.filter(p => p.severity === 'error');
+  if (errors.length > 0) {
+    vscode.window.showErrorMessage(
+      `Cannot install ${skill.name}: dependency resolution failed`,
+      { modal: true, detail: errors.map(p => `• ${p.message}`).join('\n') }
+    );
+    return undefined;
+  }
+
+  const toInstall = plan.steps.filter(step => !step.alreadyInstalled);
+  const reports = await scanBeforeInstall(skillInstaller, toInstall.map(step => step.skill));
+  if (!reports) {
+    return undefined;
+  }
+
+  const threshold = skillInstaller.getBlockSeverity();
+  if (threshold && reports.some(r => isAtLeast(r.report.highestSeverity, threshold))) {
+    vscode.window.showErrorMessage(
+      `Cannot install ${skill.name}: the security scan found issues of ${threshold} severity or above`,
+      { modal: true, detail: [...formatRiskReports(reports, threshold), '', 'Installs are blocked by skillManager.security.blockSeverity.'].join('\n') }
+    );
+    return undefined;
+  }
+
+  const risky = reports.some(r => isAtLeast(r.report.highestSeverity, CONFIRM_SEVERITY));
+  const warnings = plan.problems.filter(p => p.severity === 'warning');
+  const toEnable = plan.steps
+    .filter(step => step.alreadyInstalled && (step.skill as InstalledSkill).disabled)
+    .map(step => step.skill as InstalledSkill);
+  if (toInstall.length <= 1 && warnings.length === 0 && !risky && toEnable.length === 0) {
+    return plan.steps;
+  }
+
+  const satisfied = plan.steps.filter(step => step.alreadyInstalled && !toEnable.includes(step.skill as InstalledSkill));
+  const detail = [
+    'Install order:',
+    ...toInstall.map(formatStep),
+    ...(toEnable.length > 0 ? ['', `Installed but disabled, will be enabled: ${toEnable.map(s => `${s.name} (${s.scope.label})`).join(', ')}`] : []),
+    ...(satisfied.length > 0 ? ['', `Already installed: ${satisfied.map(s => s.skill.name).join(', ')}`] : []),
+    ...(warnings.length > 0 ? ['', ...warnings.map(p => `⚠ ${p.message}`)] : []),
+    ...(risky ? ['', 'Security scan:', ...formatRiskReports(reports)] : [])
+  ].join('\n');
+
+  const question = toInstall.length > 1
+    ? `Install ${skill.name} and ${toInstall.length - 1} dependencies?`
+    : `Install ${skill.name}?`;
+  const confirm = risky
+    ? await vscode.window.showWarningMessage(`${question} The security scan found issues to review.`, { modal: true, detail }, 'Install')
+    : await vscode.window.showInformationMessage(question, { modal: true, detail }, 'Install');
+
+  if (confirm !== 'Install') {
+    return undefined;
+  }
+
+  for (const disabled of toEnable) {
+    try {
+      await skillInstaller.enable(disabled);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to enable ${disabled.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+  return plan.steps;
+}
+
+/**
+ * Uninstall a skill after warning about installed skills that depend on
+ * it, then offer to remove dependencies nothing needs anymore.
+ * Resolves to whether the skill was uninstalled.
+ */
+export async function uninstallWithDependencyCheck(
+  skillInstaller: SkillInstaller,
+  skill: InstalledSkill
+): Promise<boolean> {
+  const installed = await skillInstaller.listInstalled(undefined, true);
+  const dependents = findDependents(skill, installed);
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Are you sure you want to uninstall ${skill.name}?`,
+    {
+      modal: true,
+      detail: dependents.length > 0
+        ? `${dependents.map(d => d.name).join(', ')} depend${dependents.length === 1 ? 's' : ''} on ${skill.name} and may stop working.`
+        : undefined
+    },
+    'Uninstall'
+  );
+  if (confirm !== 'Uninstall') {
+    return false;
+  }
+
+  await skillInstaller.uninstall(skill);
+  vscode.window.showInformationMessage(`Uninstalled ${skill.name}`);
+
+  const remaining = installed.filter(s => s.localPath !== skill.localPath);
+  const orphans = findOrphanedDependencies(remaining);
+  if (orphans.length > 0) {
+    const remove = await vscode.window.showInformationMessage(
+      `${orphans.map(o => o.name).join(', ')} ${orphans.length === 1 ? 'was' : 'were'} installed as ${orphans.length === 1 ? 'a dependency' : 'dependencies'} and ${orphans.length === 1 ? 'is' : 'are'} no longer needed. Remove?`,
+      'Remove',
+      'Keep'
+    );
+    if (remove === 'Remove') {
+      for (const orphan of orphans) {
+        await skillInstaller.uninstall(orphan);
+      }
+    }
+  }
+
+  return true;
+}
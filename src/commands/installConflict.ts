@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConflictResolution, InstallConflict } from '../services/skillInstaller';
+
+/**
+ * Ask what to do when a skill's folder is already used by a different
+ * skill. Dismissing the prompt skips the skill.
+ */
+export async function askInstallConflict(conflict: InstallConflict): Promise<ConflictResolution> {
+  const { skill, occupant } = conflict;
+  const folder = path.basename(conflict.localPath);
+  const renamed = path.basename(conflict.renamedPath);
+  const usedBy = occupant ? `${occupant.name} from ${occupant.repository}` : 'another folder';
+
+  const choice = await vscode.window.showWarningMessage(
+    `The folder "${folder}" in ${conflict.scope.label} is already used by ${usedBy}.`,
+    {
+      modal: true,
+      detail: [
+        `Rename: install ${skill.name} from ${skill.repository} as "${renamed}".`,
+        `Replace: remove ${occupant?.name ?? folder} and install ${skill.name} in its place.`,
+        `Skip: do not install ${skill.name}.`
+      ].join('\n')
+    },
+    'Rename',
+    'Replace',
+    'Skip'
+  );
+
+  return choice === 'Rename' ? 'rename' : choice === 'Replace' ? 'replace' : 'skip';
+}
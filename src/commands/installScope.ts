@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { SkillInstaller } from '../services/skillInstaller';
+import { InstallScope } from '../models/skill';
+
+/**
+ * Ask which scope to use. Resolves immediately when there is only one
+ * candidate (e.g. no workspace is open) and to undefined if cancelled.
+ */
+export async function pickInstallScope(
+  skillInstaller: SkillInstaller,
+  placeHolder = 'Where should the skill be installed?',
+  exclude?: InstallScope
+): Promise<InstallScope | undefined> {
+  const scopes = skillInstaller.getScopes().filter(scope => scope.root !== exclude?.root);
+
+  if (scopes.length <= 1) {
+    return scopes[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    scopes.map(scope => ({
+      label: scope.type === 'global' ? `$(globe) ${scope.label}` : `$(root-folder) ${scope.label}`,
+      description: scope.root,
+      scope
+    })),
+    { placeHolder }
+  );
+
+  return selected?.scope;
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { LockfileService, LOCKFILE_NAME } from '../services/lockfileService';
+import { SkillInstaller } from '../services/skillInstaller';
+import { InvalidLockedSkill, LockfileDrift } from '../models/lockfile';
+
+/**
+ * Pick the workspace folder whose lockfile to use
+ */
+async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+
+  if (folders.length === 0) {
+    vscode.window.showErrorMessage(`Open a workspace folder to use ${LOCKFILE_NAME}.`);
+    return undefined;
+  }
+  if (folders.length === 1) {
+    return folders[0];
+  }
+  return vscode.window.showWorkspaceFolderPick({ placeHolder: `Select the folder containing ${LOCKFILE_NAME}` });
+}
+
+/**
+ * Human-readable summary of lockfile drift
+ */
+function formatDrift(drift: LockfileDrift): string {
+  const lines: string[] = [];
+
+  if (drift.missing.length > 0) {
+    lines.push(`Missing: ${drift.missing.map(s => s.name).join(', ')}`);
+  }
+  if (drift.modified.length > 0) {
+    lines.push(`Modified: ${drift.modified.map(m =>
+      `${m.installed.name} (${m.reason === 'commit' ? 'different commit' : 'local changes'})`
+    ).join(', ')}`);
+  }
+  if (drift.extra.length > 0) {
+    lines.push(`Not in lockfile: ${drift.extra.map(s => `${s.name} (${s.scope.label})`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * "Generate Skills Lockfile" command
+ */
+export async function generateLockfileCommand(
+  lockfileService: LockfileService,
+  skillInstaller: SkillInstaller
+): Promise<void> {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
+  }
+
+  try {
+    const { lockfile, skipped } = await lockfileService.generate(skillInstaller.getWorkspaceScope(folder));
+    const lockfilePath = await lockfileService.write(folder.uri.fsPath, lockfile);
+
+    await vscode.window.showTextDocument(vscode.Uri.file(lockfilePath));
+
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `Locked ${lockfile.skills.length} skill(s). Skipped ${skipped.map(s => s.name).join(', ')}: no source commit recorded (reinstall to include).`
+      );
+    } else {
+      vscode.window.showInformationMessage(`Locked ${lockfile.skills.length} skill(s) in ${LOCKFILE_NAME}`);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to generate ${LOCKFILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * "Restore Skills from Lockfile" command: report drift and offer to reconcile it
+ */
+export async function restoreLockfileCommand(
+  lockfileService: LockfileService,
+  skillInstaller: SkillInstaller
+): Promise<void> {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
+  }
+
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showErrorMessage(`Trust this workspace to restore skills from its ${LOCKFILE_NAME}.`);
+    return;
+  }
+
+  const workspaceScope = skillInstaller.getWorkspaceScope(folder);
+
+  let drift: LockfileDrift;
+  let invalid: InvalidLockedSkill[];
+  try {
+    const result = await lockfileService.read(folder.uri.fsPath);
+    if (!result) {
+      vscode.window.showErrorMessage(`No ${LOCKFILE_NAME} found in ${folder.name}. Run "Generate Skills Lockfile" first.`);
+      return;
+    }
+    invalid = result.invalid;
+    drift = await lockfileService.computeDrift(result.lockfile, workspaceScope);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to read ${LOCKFILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  const ignored = invalid.length > 0
+    ? `\n\nIgnored invalid entries:\n${invalid.map(entry => `• ${entry.id ?? `#${entry.index + 1}`}: ${entry.reason}`).join('\n')}`
+    : '';
+
+  if (drift.missing.length + drift.modified.length + drift.extra.length === 0) {
+    if (ignored) {
+      vscode.window.showWarningMessage(`Installed skills match the valid entries of ${LOCKFILE_NAME}`, { modal: true, detail: ignored.trim() });
+    } else {
+      vscode.window.showInformationMessage(`Installed skills match ${LOCKFILE_NAME}.`);
+    }
+    return;
+  }
+
+  // Only workspace skills are removed; global skills belong to every workspace
+  const actions = ['Restore'];
+  if (drift.extra.some(skill => skill.scope.root === workspaceScope.root)) {
+    actions.push('Restore and Remove Extras');
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Installed skills differ from ${LOCKFILE_NAME}`,
+    {
+      modal: true,
+      detail: `${formatDrift(drift)}\n\nRestoring reinstalls missing and modified skills at their locked commits. Local changes to modified skills are lost. Removing extras only removes skills from ${workspaceScope.label}.${ignored}`
+    },
+    ...actions
+  );
+
+  if (!choice) {
+    return;
+  }
+
+  const results = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Restoring Skills',
+      cancellable: false
+    },
+    (progress) => lockfileService.restore(
+      drift,
+      workspaceScope,
+      { removeExtra: choice === 'Restore and Remove Extras' },
+      (msg) => progress.report({ message: msg })
+    )
+  );
+
+  const failed = results.filter(r => !r.success);
+  if (failed.length === 0) {
+    vscode.window.showInformationMessage(`Restored skills from ${LOCKFILE_NAME}`);
+  } else {
+    vscode.window.showErrorMessage(
+      `Failed to restore ${failed.map(r => `${r.skill.name} (${r.error})`).join(', ')}`
+    );
+  }
+}
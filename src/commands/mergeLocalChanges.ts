@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SkillInstaller } from '../services/skillInstaller';
+import { FileResolution, MergeInputs, SkillUpdate } from '../models/skill';
+
+/**
+ * Whether content looks binary (has a NUL byte near the start)
+ */
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/** VS Code's internal command that opens the three-way merge editor */
+const MERGE_EDITOR_COMMAND = '_open.mergeEditor';
+
+/**
+ * Files shown by a tab, for the kinds of tabs a merge opens
+ */
+function getTabUris(tab: vscode.Tab): vscode.Uri[] {
+  if (tab.input instanceof vscode.TabInputText) {
+    return [tab.input.uri];
+  }
+  if (tab.input instanceof vscode.TabInputTextDiff) {
+    return [tab.input.original, tab.input.modified];
+  }
+  // The merge editor's tab input is not part of the typed API, but exposes its result file
+  const result = (tab.input as { result?: unknown } | undefined)?.result;
+  return result instanceof vscode.Uri ? [result] : [];
+}
+
+/**
+ * Close every editor showing a file in a directory, without prompting to
+ * save, so the directory can be removed
+ */
+async function closeEditorsIn(dir: string): Promise<void> {
+  const isInside = (uri: vscode.Uri) => uri.fsPath.startsWith(dir + path.sep);
+  await Promise.all(vscode.workspace.textDocuments
+    .filter(doc => doc.isDirty && isInside(doc.uri))
+    .map(doc => doc.save()));
+
+  const tabs = vscode.window.tabGroups.all
+    .flatMap(group => group.tabs)
+    .filter(tab => getTabUris(tab).some(isInside));
+  if (tabs.length > 0) {
+    await vscode.window.tabGroups.close(tabs);
+  }
+}
+
+/**
+ * Merge a file in VS Code's merge editor, with the local copy and the
+ * upstream version as the two sides and the installed version as base.
+ * The merge editor is opened through an internal command, so when it is
+ * not available the upstream version is diffed against an editable copy
+ * of the local file instead. Resolves to the merged content, or undefined
+ * if the merge was cancelled.
+ */
+async function mergeInEditor(update: SkillUpdate, relativePath: string, inputs: MergeInputs): Promise<Buffer | undefined> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-merge-'));
+  const fileName = path.basename(relativePath);
+  const write = async (side: string, content: Buffer | undefined) => {
+    const filePath = path.join(dir, side, fileName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content ?? Buffer.alloc(0));
+    return vscode.Uri.file(filePath);
+  };
+
+  try {
+    const base = await write('base', inputs.base);
+    const local = await write('local', inputs.local);
+    const upstream = await write('upstream', inputs.upstream);
+    const output = await write('merged', inputs.local);
+
+    const commands = await vscode.commands.getCommands(true);
+    if (commands.includes(MERGE_EDITOR_COMMAND)) {
+      await vscode.commands.executeCommand(MERGE_EDITOR_COMMAND, {
+        base,
+        input1: { uri: local, title: 'Local', description: update.installed.localPath },
+        input2: { uri: upstream, title: 'Upstream', description: update.latest.repository },
+        output
+      });
+    } else {
+      await vscode.commands.executeCommand('vscode.diff', upstream, output, `${fileName}: Upstream ↔ Merge Result`);
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Merge ${relativePath} of ${update.installed.name} in the editor, then use the result.`,
+      'Use Merge Result',
+      'Cancel'
+    );
+    if (choice !== 'Use Merge Result') {
+      return undefined;
+    }
+
+    // The editor edits the output document; pick up unsaved changes too
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === output.fsPath);
+    if (document?.isDirty) {
+      await document.save();
+    }
+    return await fs.readFile(output.fsPath);
+  } finally {
+    await closeEditorsIn(dir).catch(error => console.error('Failed to close merge editors:', error));
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Ask how to update each file that was changed both locally and upstream:
+ * merge it, keep the local copy or take the upstream version. Resolves to
+ * the chosen resolutions, or undefined if the update was cancelled.
+ */
+export async function resolveLocalConflicts(
+  skillInstaller: SkillInstaller,
+  update: SkillUpdate,
+  conflicts: string[]
+): Promise<Record<string, FileResolution> | undefined> {
+  const resolutions: Record<string, FileResolution> = {};
+
+  for (const relativePath of conflicts) {
+    const inputs = await skillInstaller.getMergeInputs(update, relativePath);
+    const mergeable = inputs.local !== undefined && inputs.upstream !== undefined &&
+      ![inputs.base, inputs.local, inputs.upstream].some(content => content && isBinary(content));
+
+    const options: { label: string; description?: string; resolution: FileResolution['type'] }[] = [
+      ...(mergeable ? [{ label: '$(git-merge) Merge', description: 'Merge the changes in the editor', resolution: 'merged' as const }] : []),
+      { label: '$(account) Keep Local', description: inputs.local ? 'Keep your edits' : 'Keep the file deleted', resolution: 'local' },
+      { label: '$(cloud-download) Take Upstream', description: inputs.upstream ? 'Discard your edits' : 'Delete the file', resolution: 'upstream' }
+    ];
+
+    while (!resolutions[relativePath]) {
+      const picked = await vscode.window.showQuickPick(options, {
+        placeHolder: `${relativePath} of ${update.installed.name} was changed both locally and upstream`,
+        ignoreFocusOut: true
+      });
+      if (!picked) {
+        return undefined;
+      }
+
+      if (picked.resolution === 'merged') {
+        const content = await mergeInEditor(update, relativePath, inputs);
+        if (content) {
+          resolutions[relativePath] = { type: 'merged', content };
+        }
+      } else {
+        resolutions[relativePath] = { type: picked.resolution };
+      }
+    }
+  }
+
+  return resolutions;
+}
@@ -0,0 +1,284 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { GitHubService } from '../services/githubService';
+import { SkillInstaller } from '../services/skillInstaller';
+import { SkillParser, MAX_DESCRIPTION_LENGTH } from '../services/skillParser';
+import { sanitizeFolderName } from '../services/installLayout';
+import { readSkillFolder } from '../services/skillPublisher';
+import {
+  BUILTIN_TEMPLATES,
+  SKILL_FOLDERS,
+  SkillFolder,
+  TemplateSource,
+  getTemplateFolders,
+  listTemplateFolders,
+  parseList,
+  scaffoldSkill,
+  writeSkillFolder
+} from '../services/skillScaffold';
+import { pickInstallScope } from './installScope';
+import { reviewTemplateFiles } from './securityReview';
+import { Skill, SkillMetadata } from '../models/skill';
+import { PublishFile } from '../models/publish';
+
+/**
+ * What a new skill starts from: a built-in template, or the files and
+ * metadata of an existing skill
+ */
+interface StartingPoint {
+  label: string;
+  folders: SkillFolder[];
+  template?: TemplateSource;
+  metadata?: SkillMetadata;
+}
+
+/**
+ * Read a template or forked skill into a starting point
+ */
+function toStartingPoint(label: string, files: PublishFile[], skillParser: SkillParser): StartingPoint {
+  const skillMd = files.find(file => file.path === 'SKILL.md');
+  const parsed = skillMd ? skillParser.parse(skillMd.content.toString('utf-8')) : undefined;
+  return {
+    label,
+    folders: getTemplateFolders(files),
+    template: { files, body: parsed?.body ?? '' },
+    metadata: parsed?.metadata
+  };
+}
+
+/**
+ * Pick a skill from the configured repositories to fork, and download it
+ */
+async function pickSkillToFork(
+  githubService: GitHubService,
+  skillInstaller: SkillInstaller,
+  skillParser: SkillParser
+): Promise<StartingPoint | undefined> {
+  const snapshot = await githubService.getCatalogSnapshot();
+  const skills: Skill[] = snapshot?.skills ?? await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Loading skills...', cancellable: false },
+    () => githubService.fetchAllSkills()
+  );
+
+  const picked = await vscode.window.showQuickPick(
+    skills.map(skill => ({
+      label: skill.name,
+      description: skill.repository,
+      detail: skill.description || skill.path,
+      skill
+    })),
+    { placeHolder: 'Which skill do you want to start from?', matchOnDescription: true, matchOnDetail: true }
+  );
+  if (!picked) {
+    return undefined;
+  }
+
+  try {
+    const files = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Downloading ${picked.skill.name}`, cancellable: false },
+      progress => skillInstaller.download(picked.skill, message => progress.report({ message }))
+    );
+    if (!(await reviewTemplateFiles(skillInstaller, picked.skill.name, files))) {
+      return undefined;
+    }
+    return toStartingPoint(picked.skill.name, files, skillParser);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to download ${picked.skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Ask what the new skill starts from: a built-in template, a template
+ * folder of the workspace or a skill from a configured repository
+ */
+async function pickStartingPoint(
+  githubService: GitHubService,
+  skillInstaller: SkillInstaller,
+  skillParser: SkillParser
+): Promise<StartingPoint | undefined> {
+  type Item = vscode.QuickPickItem & { load?: () => Promise<StartingPoint | undefined> };
+  const items: Item[] = [
+    { label: 'Built-in', kind: vscode.QuickPickItemKind.Separator },
+    ...BUILTIN_TEMPLATES.map(template => ({
+      label: `$(file-code) ${template.label}`,
+      description: template.description,
+      load: async () => ({ label: template.label, folders: template.folders })
+    }))
+  ];
+
+  const workspaceTemplates: Item[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const templatesPath = vscode.workspace.getConfiguration('skillManager', folder.uri).get<string>('templatesPath', '.agent/skill-templates');
+    for (const dir of await listTemplateFolders(path.resolve(folder.uri.fsPath, templatesPath))) {
+      workspaceTemplates.push({
+        label: `$(folder) ${path.basename(dir)}`,
+        description: vscode.workspace.asRelativePath(dir),
+        load: async () => {
+          const files = await readSkillFolder(dir);
+          return await reviewTemplateFiles(skillInstaller, path.basename(dir), files)
+            ? toStartingPoint(path.basename(dir), files, skillParser)
+            : undefined;
+        }
+      });
+    }
+  }
+  if (workspaceTemplates.length > 0) {
+    items.push({ label: 'Workspace', kind: vscode.QuickPickItemKind.Separator }, ...workspaceTemplates);
+  }
+
+  items.push(
+    { label: 'Repository', kind: vscode.QuickPickItemKind.Separator },
+    {
+      label: '$(repo-forked) Fork a Skill...',
+      description: 'Start from a copy of any skill in the configured repositories',
+      load: () => pickSkillToFork(githubService, skillInstaller, skillParser)
+    }
+  );
+
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'What should the new skill start from?' });
+  return picked?.load?.();
+}
+
+/**
+ * Ask which optional subfolders to create, preselecting those of the template
+ */
+async function pickFolders(start: StartingPoint): Promise<SkillFolder[] | undefined> {
+  const fromTemplate = start.template ? getTemplateFolders(start.template.files) : [];
+  const picked = await vscode.window.showQuickPick(
+    SKILL_FOLDERS.map(folder => ({
+      label: `${folder}/`,
+      description: fromTemplate.includes(folder) ? `from ${start.label}` : 'starter files',
+      picked: start.folders.includes(folder),
+      folder
+    })),
+    { placeHolder: 'Which subfolders should the skill have?', canPickMany: true, ignoreFocusOut: true }
+  );
+  return picked?.map(item => item.folder);
+}
+
+/**
+ * "New Skill" command: ask for a starting point and the skill's metadata,
+ * then create the skill folder in an install scope and open its SKILL.md.
+ * Resolves to the new folder, or undefined if cancelled.
+ */
+export async function newSkillCommand(
+  githubService: GitHubService,
+  skillInstaller: SkillInstaller,
+  skillParser: SkillParser
+): Promise<string | undefined> {
+  const start = await pickStartingPoint(githubService, skillInstaller, skillParser);
+  if (!start) {
+    return undefined;
+  }
+
+  const folders = await pickFolders(start);
+  if (!folders) {
+    return undefined;
+  }
+
+  const scope = await pickInstallScope(skillInstaller, 'Where should the skill be created?');
+  if (!scope) {
+    return undefined;
+  }
+
+  const name = await vscode.window.showInputBox({
+    title: 'New Skill (1/5)',
+    prompt: 'Skill name',
+    value: start.metadata ? `${start.metadata.name} copy` : '',
+    ignoreFocusOut: true,
+    validateInput: async value => {
+      const issue = skillParser.validateFields({ name: value.trim(), description: '-' }).find(i => i.key === 'name');
+      if (issue) {
+        return issue.message;
+      }
+      const folder = path.join(scope.root, sanitizeFolderName(value.trim()));
+      const exists = await fs.access(folder).then(() => true, () => false);
+      return exists ? `${folder} already exists` : undefined;
+    }
+  });
+  if (!name) {
+    return undefined;
+  }
+
+  const description = await vscode.window.showInputBox({
+    title: 'New Skill (2/5)',
+    prompt: 'What the skill does and when the agent should use it',
+    value: start.metadata?.description,
+    ignoreFocusOut: true,
+    validateInput: value => !value.trim()
+      ? 'Enter a description'
+      : value.trim().length > MAX_DESCRIPTION_LENGTH ? `Keep the description under ${MAX_DESCRIPTION_LENGTH} characters` : undefined
+  });
+  if (!description) {
+    return undefined;
+  }
+
+  const category = await vscode.window.showInputBox({
+    title: 'New Skill (3/5)',
+    prompt: 'Category (optional)',
+    placeHolder: 'e.g. engineering, testing, security',
+    value: start.metadata?.category ?? skillParser.inferCategory(name, ''),
+    ignoreFocusOut: true
+  });
+  if (category === undefined) {
+    return undefined;
+  }
+
+  const tags = await vscode.window.showInputBox({
+    title: 'New Skill (4/5)',
+    prompt: 'Tags, separated by commas (optional)',
+    value: start.metadata?.tags?.join(', '),
+    ignoreFocusOut: true
+  });
+  if (tags === undefined) {
+    return undefined;
+  }
+
+  const triggers = await vscode.window.showInputBox({
+    title: 'New Skill (5/5)',
+    prompt: 'Requests that should trigger the skill, separated by commas (optional)',
+    placeHolder: 'e.g. review this pull request, check my diff',
+    value: start.metadata?.triggers?.join(', '),
+    ignoreFocusOut: true
+  });
+  if (triggers === undefined) {
+    return undefined;
+  }
+
+  const metadata: SkillMetadata = {
+    name: name.trim(),
+    description: description.trim(),
+    category: category.trim() || undefined,
+    tags: parseList(tags),
+    triggers: parseList(triggers),
+    version: '0.1.0',
+    dependencies: start.metadata?.dependencies
+  };
+  const files = scaffoldSkill(metadata, folders, start.template);
+
+  // The generated SKILL.md must read back as the metadata entered
+  const parsed = skillParser.parse(files[0].content.toString('utf-8'));
+  const validation = skillParser.validateSkill(parsed.metadata);
+  const errors = [...parsed.problems.filter(p => p.severity === 'error').map(p => p.message), ...validation.errors];
+  if (errors.length > 0) {
+    vscode.window.showErrorMessage(`Cannot create ${metadata.name}: SKILL.md is not valid`, {
+      modal: true,
+      detail: errors.map(error => `• ${error}`).join('\n')
+    });
+    return undefined;
+  }
+
+  const folder = path.join(scope.root, sanitizeFolderName(metadata.name));
+  try {
+    await writeSkillFolder(folder, files);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to create ${metadata.name}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+
+  await vscode.window.showTextDocument(vscode.Uri.file(path.join(folder, 'SKILL.md')));
+  vscode.window.showInformationMessage(`Created ${metadata.name} (${scope.label}) from ${start.label}`);
+  return folder;
+}
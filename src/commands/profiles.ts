@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { SkillInstaller } from '../services/skillInstaller';
+import { SkillProfiles, normalizeProfiles, planProfile, isProfileActive } from '../services/skillProfiles';
+import { InstalledSkill } from '../models/skill';
+
+/**
+ * Read the configured skill profiles
+ */
+function getProfiles(): SkillProfiles {
+  return normalizeProfiles(vscode.workspace.getConfiguration('skillManager').get('profiles'));
+}
+
+/**
+ * Save skill profiles where they are currently defined: the workspace
+ * settings if they set any, otherwise the user settings
+ */
+async function saveProfiles(profiles: SkillProfiles): Promise<void> {
+  const config = vscode.workspace.getConfiguration('skillManager');
+  const target = config.inspect('profiles')?.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await config.update('profiles', profiles, target);
+}
+
+/**
+ * Enable or disable installed skills, collecting the ones that failed
+ */
+export async function setSkillsEnabled(
+  skillInstaller: SkillInstaller,
+  skills: InstalledSkill[],
+  enabled: boolean
+): Promise<string[]> {
+  const failed: string[] = [];
+  for (const skill of skills) {
+    try {
+      await (enabled ? skillInstaller.enable(skill) : skillInstaller.disable(skill));
+    } catch (error) {
+      failed.push(`${skill.name} (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+  return failed;
+}
+
+/**
+ * "Switch Skill Profile" command: enable the skills of a profile and
+ * disable every other installed skill. Resolves to whether anything changed.
+ */
+export async function switchProfileCommand(skillInstaller: SkillInstaller): Promise<boolean> {
+  const profiles = getProfiles();
+  const names = Object.keys(profiles).sort((a, b) => a.localeCompare(b));
+  if (names.length === 0) {
+    vscode.window.showInformationMessage('No skill profiles yet. Run "Save Skill Profile" to create one.');
+    return false;
+  }
+
+  const installed = await skillInstaller.listInstalled(undefined, true);
+  const selected = await vscode.window.showQuickPick(
+    names.map(name => ({
+      label: name,
+      description: `${profiles[name].length} skill(s)${isProfileActive(installed, profiles[name]) ? ' · active' : ''}`,
+      name
+    })),
+    { placeHolder: 'Switch to which skill profile?' }
+  );
+  if (!selected) {
+    return false;
+  }
+
+  const plan = planProfile(installed, profiles[selected.name]);
+  if (plan.enable.length === 0 && plan.disable.length === 0) {
+    vscode.window.showInformationMessage(`Profile "${selected.name}" is already active`);
+    return false;
+  }
+
+  const detail = [
+    ...(plan.enable.length > 0 ? [`Enable: ${plan.enable.map(s => `${s.name} (${s.scope.label})`).join(', ')}`] : []),
+    ...(plan.disable.length > 0 ? [`Disable: ${plan.disable.map(s => `${s.name} (${s.scope.label})`).join(', ')}`] : []),
+    ...(plan.missing.length > 0 ? [`Not installed: ${plan.missing.join(', ')}`] : [])
+  ].join('\n');
+  const confirm = await vscode.window.showInformationMessage(
+    `Switch to skill profile "${selected.name}"?`,
+    { modal: true, detail },
+    'Switch'
+  );
+  if (confirm !== 'Switch') {
+    return false;
+  }
+
+  const failed = [
+    ...await setSkillsEnabled(skillInstaller, plan.disable, false),
+    ...await setSkillsEnabled(skillInstaller, plan.enable, true)
+  ];
+  if (failed.length > 0) {
+    vscode.window.showErrorMessage(`Switched to "${selected.name}", but could not change ${failed.join(', ')}`);
+  } else {
+    vscode.window.showInformationMessage(`Switched to skill profile "${selected.name}"`);
+  }
+  return true;
+}
+
+/**
+ * "Save Skill Profile" command: pick the skills to keep enabled, starting
+ * from the ones enabled now, and save them under a new or existing name
+ */
+export async function saveProfileCommand(skillInstaller: SkillInstaller): Promise<void> {
+  const installed = await skillInstaller.listInstalled(undefined, true);
+  if (installed.length === 0) {
+    vscode.window.showInformationMessage('No skills installed. Use "Browse Skills" to install some.');
+    return;
+  }
+
+  // A skill installed in several scopes is one entry in the profile
+  const byId = new Map<string, InstalledSkill[]>();
+  for (const skill of installed) {
+    byId.set(skill.id, [...(byId.get(skill.id) ?? []), skill]);
+  }
+  const picked = await vscode.window.showQuickPick(
+    [...byId.values()].map(copies => ({
+      label: copies[0].name,
+      description: copies.map(s => s.scope.label).join(', '),
+      detail: copies[0].description,
+      picked: copies.some(s => !s.disabled),
+      id: copies[0].id
+    })),
+    { canPickMany: true, placeHolder: 'Select the skills this profile enables', matchOnDescription: true }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const profiles = getProfiles();
+  const name = await vscode.window.showInputBox({
+    prompt: 'Profile name',
+    placeHolder: 'e.g. frontend work',
+    validateInput: value => value.trim() ? undefined : 'Enter a name for the profile'
+  });
+  if (!name) {
+    return;
+  }
+
+  const profileName = name.trim();
+  if (profiles[profileName]) {
+    const overwrite = await vscode.window.showWarningMessage(
+      `Profile "${profileName}" already exists. Replace it?`,
+      { modal: true },
+      'Replace'
+    );
+    if (overwrite !== 'Replace') {
+      return;
+    }
+  }
+
+  await saveProfiles({ ...profiles, [profileName]: picked.map(item => item.id) });
+  vscode.window.showInformationMessage(`Saved skill profile "${profileName}" with ${picked.length} skill(s)`);
+}
@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { GitHubService } from '../services/githubService';
+import { SkillInstaller } from '../services/skillInstaller';
+import { SkillParser } from '../services/skillParser';
+import { HttpError } from '../services/httpClient';
+import { isUrlSource } from '../services/repositorySpec';
+import { isSafeRelativePath } from '../services/installLayout';
+import { readSkillFolder, getDefaultTargetPath, getPublishBranch, describePullRequest } from '../services/skillPublisher';
+import { InstalledSkill } from '../models/skill';
+import { PublishFile } from '../models/publish';
+import { RepositoryTree } from '../models/repository';
+
+/**
+ * Pick the skill folder to publish: an installed skill or any folder
+ */
+async function pickSkillFolder(skillInstaller: SkillInstaller): Promise<string | undefined> {
+  const installed = await skillInstaller.listInstalled(undefined, true);
+  const items: (vscode.QuickPickItem & { folder?: string })[] = [
+    ...installed.map(skill => ({ label: skill.name, description: skill.scope.label, detail: skill.localPath, folder: skill.localPath })),
+    { label: '$(folder-opened) Choose a Folder...' }
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Which skill do you want to publish?',
+    matchOnDescription: true
+  });
+  if (!picked || picked.folder) {
+    return picked?.folder;
+  }
+
+  const uris = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    openLabel: 'Publish Skill'
+  });
+  return uris?.[0]?.fsPath;
+}
+
+/**
+ * "Publish Skill" command: validate a local skill folder, commit it to a
+ * new branch of a configured GitHub repository and open a pull request
+ */
+export async function publishSkillCommand(
+  githubService: GitHubService,
+  skillInstaller: SkillInstaller,
+  skillParser: SkillParser,
+  folder?: string
+): Promise<void> {
+  const skillFolder = folder ?? await pickSkillFolder(skillInstaller);
+  if (!skillFolder) {
+    return;
+  }
+
+  let skillMd: string;
+  try {
+    skillMd = await fs.readFile(path.join(skillFolder, 'SKILL.md'), 'utf-8');
+  } catch {
+    vscode.window.showErrorMessage(`${skillFolder} has no SKILL.md, so it is not a skill folder.`);
+    return;
+  }
+
+  const metadata = skillParser.parseSkillMd(skillMd);
+  const validation = skillParser.validateSkill(metadata);
+  if (!validation.isValid) {
+    vscode.window.showErrorMessage(
+      `Cannot publish ${metadata.name || path.basename(skillFolder)}: SKILL.md is not valid`,
+      { modal: true, detail: validation.errors.map(error => `• ${error}`).join('\n') }
+    );
+    return;
+  }
+
+  // Skills installed from a repository are published back to where they came from
+  const installed: InstalledSkill | undefined = (await skillInstaller.listInstalled(undefined, true))
+    .find(skill => path.resolve(skill.localPath) === path.resolve(skillFolder));
+  const repositories = githubService.getRepositorySpecs()
+    .filter(spec => !isUrlSource(spec.fullName))
+    .sort((a, b) => Number(b.fullName === installed?.repository) - Number(a.fullName === installed?.repository));
+  if (repositories.length === 0) {
+    vscode.window.showErrorMessage('Add a GitHub repository to skillManager.repositories to publish skills to it.');
+    return;
+  }
+
+  const target = await vscode.window.showQuickPick(
+    repositories.map(spec => ({
+      label: spec.fullName,
+      description: spec.fullName === installed?.repository ? 'installed from here' : undefined,
+      repo: spec.fullName
+    })),
+    { placeHolder: `Publish ${metadata.name} to which repository?` }
+  );
+  if (!target) {
+    return;
+  }
+
+  let files: PublishFile[];
+  let tree: RepositoryTree;
+  try {
+    files = await readSkillFolder(skillFolder);
+    tree = await githubService.fetchRepositoryTree(target.repo, undefined, true);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to prepare ${metadata.name} for publishing: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  const targetPath = await vscode.window.showInputBox({
+    prompt: `Folder in ${target.repo} to publish the skill to`,
+    value: installed?.repository === target.repo && installed.path
+      ? installed.path
+      : getDefaultTargetPath(githubService.getSkillDirectories(tree), metadata.name),
+    validateInput: value => isSafeRelativePath(value.trim()) ? undefined : 'Enter a relative folder path without "." or ".." segments'
+  });
+  if (!targetPath) {
+    return;
+  }
+
+  const folderPath = targetPath.trim().replace(/\/+$/, '');
+  const existing = tree.tree
+    .filter(node => node.type === 'blob' && node.path.startsWith(`${folderPath}/`))
+    .map(node => node.path);
+  const repoFiles = files.map(file => ({ ...file, path: `${folderPath}/${file.path}` }));
+  const deletePaths = existing.filter(existingPath => !repoFiles.some(file => file.path === existingPath));
+  const { title, body, message } = describePullRequest(metadata, files, folderPath, existing.length > 0);
+  const branch = getPublishBranch(metadata.name);
+
+  const confirm = await vscode.window.showInformationMessage(
+    `Open a pull request on ${target.repo}?`,
+    {
+      modal: true,
+      detail: [
+        title,
+        `Branch: ${branch} → ${tree.ref}`,
+        `Files: ${files.length} in ${folderPath}`,
+        ...(deletePaths.length > 0 ? [`Deleted: ${deletePaths.map(p => p.slice(folderPath.length + 1)).join(', ')}`] : []),
+        ...(validation.warnings.length > 0 ? ['', ...validation.warnings.map(warning => `⚠ ${warning}`)] : [])
+      ].join('\n')
+    },
+    'Open Pull Request'
+  );
+  if (confirm !== 'Open Pull Request') {
+    return;
+  }
+
+  try {
+    const pull = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Publishing ${metadata.name}...`, cancellable: false },
+      () => githubService.createPullRequest(target.repo, { base: tree.ref, branch, title, body, message, files: repoFiles, deletePaths })
+    );
+    const open = await vscode.window.showInformationMessage(
+      `Opened pull request #${pull.number} on ${target.repo}`,
+      'Open Pull Request'
+    );
+    if (open) {
+      vscode.env.openExternal(vscode.Uri.parse(pull.url));
+    }
+  } catch (error) {
+    const denied = error instanceof HttpError && [401, 403, 404].includes(error.status);
+    vscode.window.showErrorMessage(
+      `Failed to publish ${metadata.name}: ${error instanceof Error ? error.message : String(error)}` +
+      (denied ? `. Sign in with a token that can push to ${target.repo}.` : '')
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { SkillInstaller } from '../services/skillInstaller';
+import { formatFinding, isAtLeast, scanSkillFiles } from '../services/skillScanner';
+import { RiskReport, RiskSeverity } from '../models/security';
+import { Skill } from '../models/skill';
+import { PublishFile } from '../models/publish';
+
+/** Findings at or above this severity make an install ask for confirmation */
+export const CONFIRM_SEVERITY: RiskSeverity = 'medium';
+
+/** Findings listed per skill in a confirmation */
+const MAX_LISTED_FINDINGS = 10;
+
+/**
+ * A skill and the result of scanning it
+ */
+export interface SkillRiskReport {
+  skill: Skill;
+  report: RiskReport;
+}
+
+/**
+ * Download and scan skills before they are installed, with progress.
+ * Resolves to undefined if a skill could not be downloaded.
+ */
+export async function scanBeforeInstall(
+  skillInstaller: SkillInstaller,
+  skills: Skill[]
+): Promise<SkillRiskReport[] | undefined> {
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Scanning skills' },
+    async progress => {
+      const reports: SkillRiskReport[] = [];
+      for (const skill of skills) {
+        progress.report({ message: skill.name });
+        try {
+          reports.push({ skill, report: await skillInstaller.scan(skill) });
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to download ${skill.name} for scanning: ${error instanceof Error ? error.message : String(error)}`);
+          return undefined;
+        }
+      }
+      return reports;
+    }
+  );
+}
+
+/**
+ * Lines describing the findings of each scanned skill, for a confirmation
+ * dialog. Skills without findings are left out.
+ */
+export function formatRiskReports(reports: { skill: Pick<Skill, 'name'>; report: RiskReport }[], minimum: RiskSeverity = 'info'): string[] {
+  const lines: string[] = [];
+  for (const { skill, report } of reports) {
+    const findings = report.findings.filter(finding => isAtLeast(finding.severity, minimum));
+    if (findings.length === 0) {
+      continue;
+    }
+    lines.push(`${skill.name} (${report.fileCount} file${report.fileCount === 1 ? '' : 's'} scanned):`);
+    lines.push(...findings.slice(0, MAX_LISTED_FINDINGS).map(finding => `  ${formatFinding(finding)}`));
+    if (findings.length > MAX_LISTED_FINDINGS) {
+      lines.push(`  …and ${findings.length - MAX_LISTED_FINDINGS} more`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Scan the files of a skill used as a template before they are copied into
+ * an install scope, with the same blocking and confirmation as installs.
+ * Resolves to whether the files may be used.
+ */
+export async function reviewTemplateFiles(
+  skillInstaller: SkillInstaller,
+  name: string,
+  files: PublishFile[]
+): Promise<boolean> {
+  const report = scanSkillFiles(files.map(file => ({
+    path: file.path,
+    content: file.content,
+    mode: file.executable ? '100755' : '100644'
+  })));
+  const reports = [{ skill: { name }, report }];
+
+  const threshold = skillInstaller.getBlockSeverity();
+  if (threshold && isAtLeast(report.highestSeverity, threshold)) {
+    vscode.window.showErrorMessage(
+      `Cannot start from ${name}: the security scan found issues of ${threshold} severity or above`,
+      { modal: true, detail: [...formatRiskReports(reports, threshold), '', 'Installs are blocked by skillManager.security.blockSeverity.'].join('\n') }
+    );
+    return false;
+  }
+
+  if (!isAtLeast(report.highestSeverity, CONFIRM_SEVERITY)) {
+    return true;
+  }
+  const confirm = await vscode.window.showWarningMessage(
+    `Start from ${name}? The security scan found issues to review.`,
+    { modal: true, detail: ['Security scan:', ...formatRiskReports(reports)].join('\n') },
+    'Use as Template'
+  );
+  return confirm === 'Use as Template';
+}
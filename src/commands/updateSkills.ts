@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { SkillInstaller } from '../services/skillInstaller';
+import { FileResolution, InstallResult, SkillUpdate } from '../models/skill';
+import { LocalMergePlan } from '../services/localChanges';
+import { resolveLocalConflicts } from './mergeLocalChanges';
+
+/** Maximum number of file names listed per change type in the summary */
+const MAX_LISTED_FILES = 5;
+
+/**
+ * Short "+added ~changed -removed" summary for an update
+ */
+export function formatUpdateCounts(update: SkillUpdate): string {
+  return `+${update.added.length} ~${update.changed.length} -${update.removed.length}`;
+}
+
+/**
+ * Multi-line summary of the files an update adds, changes and removes, and
+ * of the local edits it keeps or needs resolved
+ */
+function formatUpdateDetail(update: SkillUpdate, plan: LocalMergePlan): string {
+  const lines = [`${update.installed.name} (${formatUpdateCounts(update)})`];
+  const sections: [string, string[]][] = [
+    ['Added', update.added],
+    ['Changed', update.changed],
+    ['Removed', update.removed],
+    ['Local edits kept', plan.keepLocal],
+    ['Changed locally and upstream', plan.conflicts]
+  ];
+
+  for (const [label, files] of sections) {
+    if (files.length === 0) {
+      continue;
+    }
+    const listed = files.slice(0, MAX_LISTED_FILES).join(', ');
+    const more = files.length > MAX_LISTED_FILES ? ` and ${files.length - MAX_LISTED_FILES} more` : '';
+    lines.push(`  ${label}: ${listed}${more}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Show the diff summary for the given updates and apply them once
+ * confirmed. Local edits are kept; files also changed upstream are merged,
+ * kept or replaced as the user chooses for each.
+ */
+export async function confirmAndApplyUpdates(
+  skillInstaller: SkillInstaller,
+  updates: SkillUpdate[]
+): Promise<InstallResult[]> {
+  if (updates.length === 0) {
+    return [];
+  }
+
+  const plans = await Promise.all(updates.map(update => skillInstaller.planUpdate(update)));
+  const conflicting = plans.some(plan => plan.conflicts.length > 0);
+
+  const confirm = await vscode.window.showWarningMessage(
+    updates.length === 1
+      ? `Update ${updates[0].installed.name}?`
+      : `Update ${updates.length} skills?`,
+    {
+      modal: true,
+      detail: updates.map((update, i) => formatUpdateDetail(update, plans[i])).join('\n\n') +
+        (conflicting ? '\n\nYou will be asked how to update each file changed both locally and upstream.' : '')
+    },
+    'Update'
+  );
+
+  if (confirm !== 'Update') {
+    return [];
+  }
+
+  const resolutions: (Record<string, FileResolution> | undefined)[] = [];
+  for (let i = 0; i < updates.length; i++) {
+    resolutions.push(plans[i].conflicts.length > 0
+      ? await resolveLocalConflicts(skillInstaller, updates[i], plans[i].conflicts)
+      : {});
+  }
+  if (resolutions.every(resolution => resolution === undefined)) {
+    return [];
+  }
+
+  const results: InstallResult[] = [];
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Updating Skills',
+      cancellable: false
+    },
+    async (progress) => {
+      for (let i = 0; i < updates.length; i++) {
+        const updateResolutions = resolutions[i];
+        // Skills whose conflicts were not resolved are left as they are
+        if (updateResolutions) {
+          results.push(await skillInstaller.update(updates[i], (msg) => {
+            progress.report({ message: msg });
+          }, updateResolutions));
+        }
+      }
+    }
+  );
+
+  const failed = results.filter(r => !r.success);
+  if (failed.length === 0) {
+    vscode.window.showInformationMessage(`Updated ${results.length} skill(s)`);
+  } else {
+    vscode.window.showErrorMessage(
+      `Failed to update ${failed.map(r => r.skill.name).join(', ')}: ${failed[0].error}`
+    );
+  }
+
+  return results;
+}
+
+/**
+ * "Check for Updates" command: find stale skills and let the user pick which to update
+ */
+export async function checkForUpdatesCommand(skillInstaller: SkillInstaller): Promise<void> {
+  const updates = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Checking for skill updates...',
+      cancellable: false
+    },
+    () => skillInstaller.checkForUpdates()
+  );
+
+  if (updates.length === 0) {
+    vscode.window.showInformationMessage('All installed skills are up to date.');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    updates.map(update => ({
+      label: update.installed.name,
+      description: update.installed.repository,
+      detail: `Files: ${formatUpdateCounts(update)}`,
+      picked: true,
+      update
+    })),
+    {
+      placeHolder: 'Select skills to update',
+      canPickMany: true
+    }
+  );
+
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  await confirmAndApplyUpdates(skillInstaller, selected.map(s => s.update));
+}
@@ -1,10 +1,27 @@
 import * as vscode from 'vscode';
-import { GitHubService, SkillParser, SkillInstaller } from './services';
+import { GitHubService, SkillParser, SkillLinter, SkillInstaller, LockfileService, DependencyResolver, CredentialService } from './services';
+import { SkillDiagnosticsProvider } from './providers/skillDiagnosticsProvider';
+import { InstalledSkillsProvider, InstalledSkillsNode, GroupBy } from './providers/installedSkillsProvider';
 import { SkillBrowserPanel } from './views/skillBrowserPanel';
+import { checkForUpdatesCommand, confirmAndApplyUpdates } from './commands/updateSkills';
+import { generateLockfileCommand, restoreLockfileCommand } from './commands/lockfile';
+import { pickInstallScope } from './commands/installScope';
+import { askInstallConflict } from './commands/installConflict';
+import { switchProfileCommand, saveProfileCommand, setSkillsEnabled } from './commands/profiles';
+import { publishSkillCommand } from './commands/publishSkill';
+import { newSkillCommand } from './commands/newSkill';
+import { resolveInstallPlan, uninstallWithDependencyCheck } from './commands/dependencies';
+import { signInCommand, signOutCommand } from './commands/auth';
+import { parseSkillSpec } from './services/repositorySpec';
+import { isSameSkill } from './services/installLayout';
+import { RepositorySpec, Skill } from './models';
 
+let credentialService: CredentialService;
 let githubService: GitHubService;
 let skillParser: SkillParser;
 let skillInstaller: SkillInstaller;
+let lockfileService: LockfileService;
+let dependencyResolver: DependencyResolver;
 
 /**
  * Extension activation
@@ -13,9 +30,33 @@ export function activate(context: vscode.ExtensionContext): void {
   console.log('Skill Manager for Antigravity is now active!');
 
   // Initialize services
-  githubService = new GitHubService(context);
+  credentialService = new CredentialService(context);
+  context.subscriptions.push(credentialService);
+  githubService = new GitHubService(context, credentialService);
   skillParser = new SkillParser();
   skillInstaller = new SkillInstaller(githubService, skillParser, context);
+  lockfileService = new LockfileService(githubService, skillInstaller);
+  dependencyResolver = new DependencyResolver(async skill => skillParser.parseSkillMd(
+    await githubService.fetchFileContent(
+      skill.repository,
+      skill.path ? `${skill.path}/SKILL.md` : 'SKILL.md',
+      skill.commit
+    )
+  ));
+
+  // Lint SKILL.md files as they are opened and edited
+  const diagnosticsProvider = new SkillDiagnosticsProvider(new SkillLinter(skillParser));
+  context.subscriptions.push(diagnosticsProvider);
+
+  // Sidebar tree of installed skills
+  const installedProvider = new InstalledSkillsProvider(skillInstaller);
+  const installedView = vscode.window.createTreeView('skillManager.installed', {
+    treeDataProvider: installedProvider,
+    showCollapseAll: true
+  });
+  installedProvider.setView(installedView);
+  installedProvider.refresh(true);
+  context.subscriptions.push(installedProvider, installedView);
 
   // Initialize output channel
   const outputChannel = vscode.window.createOutputChannel('Skill Manager');
@@ -24,29 +65,60 @@ export function activate(context: vscode.ExtensionContext): void {
   // Register commands
   const browseCommand = vscode.commands.registerCommand(
     'skillManager.browse',
-    () => SkillBrowserPanel.createOrShow(context, githubService, skillParser, skillInstaller, outputChannel)
+    () => SkillBrowserPanel.createOrShow(context, githubService, skillParser, skillInstaller, dependencyResolver, outputChannel)
   );
 
   const installCommand = vscode.commands.registerCommand(
     'skillManager.install',
     async () => {
       const repoInput = await vscode.window.showInputBox({
-        prompt: 'Enter skill repository and path (e.g., rominirani/antigravity-skills/skills_tutorial/git-commit-formatter)',
-        placeHolder: 'owner/repo/path/to/skill'
+        prompt: 'Enter skill repository and path (e.g., rominirani/antigravity-skills/skills_tutorial/git-commit-formatter). Append @ref or #sha to pin a version. Prefix a configured host for repositories outside github.com.',
+        placeHolder: '[host/]owner/repo/path/to/skill[@ref]'
       });
 
       if (!repoInput) {
         return;
       }
 
-      const parts = repoInput.split('/');
-      if (parts.length < 3) {
-        vscode.window.showErrorMessage('Invalid format. Please use owner/repo/path/to/skill');
+      let spec: RepositorySpec;
+      let skillPath: string;
+      try {
+        ({ spec, path: skillPath } = parseSkillSpec(repoInput));
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      const repo = spec.fullName;
+
+      const scope = await pickInstallScope(skillInstaller);
+      if (!scope) {
+        return;
+      }
+
+      let skill: Skill;
+      try {
+        const tree = await githubService.fetchRepositoryTree(repo, spec.ref ?? githubService.getConfiguredRef(repo));
+        skill = {
+          id: `${repo}/${skillPath}`,
+          name: skillPath.split('/').pop() || 'skill',
+          description: '',
+          repository: repo,
+          path: skillPath,
+          files: githubService.getSkillFiles(tree, skillPath),
+          sourceVersion: tree.sha,
+          ref: tree.ref,
+          commit: tree.commit
+        };
+      } catch (error) {
+        vscode.window.showErrorMessage(`Installation failed: ${error}`);
         return;
       }
 
-      const repo = `${parts[0]}/${parts[1]}`;
-      const skillPath = parts.slice(2).join('/');
+      const steps = await resolveInstallPlan(dependencyResolver, skillInstaller, skill, scope, () => githubService.fetchAllSkills());
+      if (!steps) {
+        return;
+      }
 
       await vscode.window.withProgress(
         {
@@ -56,26 +128,19 @@ export function activate(context: vscode.ExtensionContext): void {
         },
         async (progress) => {
           try {
-            const tree = await githubService.fetchRepositoryTree(repo);
-            const files = githubService.getSkillFiles(tree, skillPath);
-            
-            const skill = {
-              id: `${repo}/${skillPath}`,
-              name: skillPath.split('/').pop() || 'skill',
-              description: '',
-              repository: repo,
-              path: skillPath,
-              files
-            };
-
-            const result = await skillInstaller.install(skill, (msg) => {
+            const results = await skillInstaller.installPlan(steps, (msg) => {
               progress.report({ message: msg });
-            });
+            }, { scope, onConflict: askInstallConflict });
 
-            if (result.success) {
-              vscode.window.showInformationMessage(`Successfully installed ${skill.name}`);
+            const failed = results.find(r => !r.success);
+            if (!failed) {
+              const dependencyCount = results.filter(r => !isSameSkill(r.skill, skill)).length;
+              vscode.window.showInformationMessage(
+                `Successfully installed ${skill.name} (${scope.label})` +
+                (dependencyCount > 0 ? ` with ${dependencyCount} dependencies` : '')
+              );
             } else {
-              vscode.window.showErrorMessage(`Failed to install: ${result.error}`);
+              vscode.window.showErrorMessage(`Failed to install ${failed.skill.name}: ${failed.error}`);
             }
           } catch (error) {
             vscode.window.showErrorMessage(`Installation failed: ${error}`);
@@ -88,7 +153,7 @@ export function activate(context: vscode.ExtensionContext): void {
   const manageCommand = vscode.commands.registerCommand(
     'skillManager.manage',
     async () => {
-      const installed = await skillInstaller.listInstalled();
+      const installed = await skillInstaller.listInstalled(undefined, true);
       
       if (installed.length === 0) {
         vscode.window.showInformationMessage('No skills installed. Use "Browse Skills" to install some.');
@@ -96,9 +161,9 @@ export function activate(context: vscode.ExtensionContext): void {
       }
 
       const items = installed.map(skill => ({
-        label: skill.name,
+        label: skill.disabled ? `$(circle-slash) ${skill.name}` : skill.name,
         description: skill.description,
-        detail: `Installed: ${skill.installedAt.toLocaleDateString()}`,
+        detail: `${skill.scope.label}${skill.disabled ? ' · Disabled' : ''} · Installed: ${skill.installedAt.toLocaleDateString()}`,
         skill
       }));
 
@@ -115,6 +180,12 @@ export function activate(context: vscode.ExtensionContext): void {
         [
           { label: '$(folder) Open Skill Folder', action: 'open' },
           { label: '$(eye) View SKILL.md', action: 'view' },
+          selected.skill.disabled
+            ? { label: '$(pass) Enable', action: 'enable' }
+            : { label: '$(circle-slash) Disable', action: 'disable' },
+          ...(!selected.skill.disabled && skillInstaller.getScopes().length > 1
+            ? [{ label: '$(arrow-swap) Move to Another Scope', action: 'move' }]
+            : []),
           { label: '$(trash) Uninstall', action: 'uninstall' }
         ],
         { placeHolder: `What do you want to do with ${selected.skill.name}?` }
@@ -132,17 +203,33 @@ export function activate(context: vscode.ExtensionContext): void {
           const skillMdPath = vscode.Uri.file(`${selected.skill.localPath}/SKILL.md`);
           vscode.window.showTextDocument(skillMdPath);
           break;
-        case 'uninstall':
-          const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to uninstall ${selected.skill.name}?`,
-            { modal: true },
-            'Uninstall'
+        case 'move':
+          const target = await pickInstallScope(
+            skillInstaller,
+            `Move ${selected.skill.name} from ${selected.skill.scope.label} to...`,
+            selected.skill.scope
           );
-          if (confirm === 'Uninstall') {
-            await skillInstaller.uninstall(selected.skill);
-            vscode.window.showInformationMessage(`Uninstalled ${selected.skill.name}`);
+          if (target) {
+            try {
+              await skillInstaller.move(selected.skill, target);
+              vscode.window.showInformationMessage(`Moved ${selected.skill.name} to ${target.label}`);
+            } catch (error) {
+              vscode.window.showErrorMessage(`Failed to move ${selected.skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          break;
+        case 'enable':
+        case 'disable':
+          const [failure] = await setSkillsEnabled(skillInstaller, [selected.skill], action.action === 'enable');
+          if (failure) {
+            vscode.window.showErrorMessage(`Failed to ${action.action} ${failure}`);
+          } else {
+            vscode.window.showInformationMessage(`${action.action === 'enable' ? 'Enabled' : 'Disabled'} ${selected.skill.name}`);
           }
           break;
+        case 'uninstall':
+          await uninstallWithDependencyCheck(skillInstaller, selected.skill);
+          break;
       }
     }
   );
@@ -155,13 +242,207 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
-  // No longer needed: uninstallSkill, openSkillFolder (handled by Webview or Manage)
+  const checkUpdatesCommand = vscode.commands.registerCommand(
+    'skillManager.checkUpdates',
+    () => checkForUpdatesCommand(skillInstaller)
+  );
+
+  const generateLockfileCmd = vscode.commands.registerCommand(
+    'skillManager.generateLockfile',
+    () => generateLockfileCommand(lockfileService, skillInstaller)
+  );
+
+  const restoreLockfileCmd = vscode.commands.registerCommand(
+    'skillManager.restoreLockfile',
+    () => restoreLockfileCommand(lockfileService, skillInstaller)
+  );
+
+  const validateAllCommand = vscode.commands.registerCommand(
+    'skillManager.validateAll',
+    async () => {
+      const installed = await skillInstaller.listInstalled();
+      if (installed.length === 0) {
+        vscode.window.showInformationMessage('No skills installed.');
+        return;
+      }
+
+      const { errors, warnings } = await diagnosticsProvider.validateInstalled(installed);
+      vscode.commands.executeCommand('workbench.actions.view.problems');
+      vscode.window.showInformationMessage(
+        `Validated ${installed.length} skill(s): ${errors} error(s), ${warnings} warning(s)`
+      );
+    }
+  );
+
+  const signInCmd = vscode.commands.registerCommand(
+    'skillManager.signIn',
+    () => signInCommand(credentialService, githubService)
+  );
+
+  const signOutCmd = vscode.commands.registerCommand(
+    'skillManager.signOut',
+    () => signOutCommand(credentialService, githubService)
+  );
+
+  // Installed skills tree actions; they receive the clicked tree node
+  const refreshInstalledCommand = vscode.commands.registerCommand(
+    'skillManager.refreshInstalled',
+    () => installedProvider.refresh(true)
+  );
+
+  const groupInstalledByCommand = vscode.commands.registerCommand(
+    'skillManager.groupInstalledBy',
+    async () => {
+      const current = installedProvider.getGroupBy();
+      const options: { label: string; groupBy: GroupBy }[] = [
+        { label: '$(repo) Repository', groupBy: 'repository' },
+        { label: '$(tag) Category', groupBy: 'category' },
+        { label: '$(folder-library) Install Scope', groupBy: 'scope' }
+      ];
+      const selected = await vscode.window.showQuickPick(
+        options.map(option => ({ ...option, description: option.groupBy === current ? 'current' : undefined })),
+        { placeHolder: 'Group installed skills by...' }
+      );
+      if (selected) {
+        await vscode.workspace.getConfiguration('skillManager').update(
+          'installedView.groupBy',
+          selected.groupBy,
+          vscode.ConfigurationTarget.Global
+        );
+      }
+    }
+  );
+
+  const openSkillMdCommand = vscode.commands.registerCommand(
+    'skillManager.openSkillMd',
+    (node: InstalledSkillsNode) => {
+      if (node?.kind === 'skill') {
+        vscode.window.showTextDocument(vscode.Uri.file(`${node.skill.localPath}/SKILL.md`));
+      }
+    }
+  );
+
+  const openSkillFolderCommand = vscode.commands.registerCommand(
+    'skillManager.openSkillFolder',
+    (node: InstalledSkillsNode) => {
+      if (node?.kind === 'skill') {
+        vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(node.skill.localPath));
+      }
+    }
+  );
+
+  const updateSkillCommand = vscode.commands.registerCommand(
+    'skillManager.updateSkill',
+    async (node: InstalledSkillsNode) => {
+      if (node?.kind !== 'skill') {
+        return;
+      }
+      const update = installedProvider.getUpdate(node.skill)
+        ?? (await skillInstaller.checkForUpdates([node.skill]))[0];
+      if (!update) {
+        vscode.window.showInformationMessage(`${node.skill.name} is up to date`);
+        return;
+      }
+      await confirmAndApplyUpdates(skillInstaller, [update]);
+      await installedProvider.refresh(true);
+    }
+  );
+
+  const uninstallSkillCommand = vscode.commands.registerCommand(
+    'skillManager.uninstallSkill',
+    async (node: InstalledSkillsNode) => {
+      if (node?.kind === 'skill' && await uninstallWithDependencyCheck(skillInstaller, node.skill)) {
+        await installedProvider.refresh();
+      }
+    }
+  );
+
+  const disableSkillCommand = vscode.commands.registerCommand(
+    'skillManager.disableSkill',
+    async (node: InstalledSkillsNode) => {
+      if (node?.kind !== 'skill') {
+        return;
+      }
+      try {
+        await skillInstaller.disable(node.skill);
+        await installedProvider.refresh();
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to disable ${node.skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+
+  const enableSkillCommand = vscode.commands.registerCommand(
+    'skillManager.enableSkill',
+    async (node: InstalledSkillsNode) => {
+      if (node?.kind !== 'skill') {
+        return;
+      }
+      try {
+        await skillInstaller.enable(node.skill);
+        await installedProvider.refresh();
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to enable ${node.skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+
+  const switchProfileCmd = vscode.commands.registerCommand(
+    'skillManager.switchProfile',
+    async () => {
+      if (await switchProfileCommand(skillInstaller)) {
+        await installedProvider.refresh();
+      }
+    }
+  );
+
+  const saveProfileCmd = vscode.commands.registerCommand(
+    'skillManager.saveProfile',
+    () => saveProfileCommand(skillInstaller)
+  );
+
+  const publishSkillCmd = vscode.commands.registerCommand(
+    'skillManager.publishSkill',
+    (node?: InstalledSkillsNode) => publishSkillCommand(
+      githubService,
+      skillInstaller,
+      skillParser,
+      node?.kind === 'skill' ? node.skill.localPath : undefined
+    )
+  );
+
+  const newSkillCmd = vscode.commands.registerCommand(
+    'skillManager.newSkill',
+    async () => {
+      if (await newSkillCommand(githubService, skillInstaller, skillParser)) {
+        await installedProvider.refresh();
+      }
+    }
+  );
 
   context.subscriptions.push(
     browseCommand,
     installCommand,
     manageCommand,
-    refreshCommand
+    refreshCommand,
+    checkUpdatesCommand,
+    generateLockfileCmd,
+    restoreLockfileCmd,
+    validateAllCommand,
+    signInCmd,
+    signOutCmd,
+    refreshInstalledCommand,
+    groupInstalledByCommand,
+    openSkillMdCommand,
+    openSkillFolderCommand,
+    updateSkillCommand,
+    uninstallSkillCommand,
+    disableSkillCommand,
+    enableSkillCommand,
+    switchProfileCmd,
+    saveProfileCmd,
+    publishSkillCmd,
+    newSkillCmd
   );
 
   // Show welcome message on first install
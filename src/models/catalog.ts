@@ -0,0 +1,30 @@
+import { Skill } from './skill';
+
+/**
+ * A cached API response
+ */
+export interface CacheEntry<T> {
+  data: T;
+  expiresAt: number;
+  etag?: string;
+}
+
+/**
+ * Contents of the persisted HTTP response cache
+ */
+export interface HttpCacheFile {
+  cacheVersion: 1;
+  entries: Record<string, CacheEntry<unknown>>;
+}
+
+/**
+ * The last catalog of skills loaded from the configured repositories,
+ * kept so the Skill Browser can open without network access
+ */
+export interface CatalogSnapshot {
+  /** When the catalog was last loaded from GitHub (ISO 8601) */
+  syncedAt: string;
+  /** Repositories the catalog was loaded from */
+  repositories: string[];
+  skills: Skill[];
+}
@@ -0,0 +1,44 @@
+import { Skill } from './skill';
+
+/**
+ * A dependency declared in SKILL.md, e.g. "git-basics" or "owner/repo/path@^1.2.0"
+ */
+export interface DependencyRequest {
+  /** Skill name or full skill id (owner/repo/path) */
+  name: string;
+  /** Optional version constraint, e.g. "^1.2.0" or ">=1.0 <2.0" */
+  constraint?: string;
+  /** The declaration as written */
+  raw: string;
+}
+
+/**
+ * One skill in an install plan
+ */
+export interface InstallPlanStep {
+  skill: Skill;
+  /** Names of the skills that need this one (empty for the requested skill) */
+  requiredBy: string[];
+  /** Version constraints placed on this skill */
+  constraints: string[];
+  /** Whether a matching skill is already installed */
+  alreadyInstalled: boolean;
+}
+
+/**
+ * A problem found while resolving dependencies
+ */
+export interface DependencyProblem {
+  type: 'missing' | 'cycle' | 'conflict' | 'ambiguous';
+  /** Errors block the install; warnings are informational */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Skills to install, in dependency order (dependencies before dependents)
+ */
+export interface InstallPlan {
+  steps: InstallPlanStep[];
+  problems: DependencyProblem[];
+}
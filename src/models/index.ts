@@ -1,2 +1,7 @@
 export * from './skill';
 export * from './repository';
+export * from './lockfile';
+export * from './dependency';
+export * from './catalog';
+export * from './security';
+export * from './publish';
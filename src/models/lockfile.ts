@@ -0,0 +1,70 @@
+import { InstalledSkill } from './skill';
+
+/**
+ * A skill pinned in skills.lock.json
+ */
+export interface LockedSkill {
+  /** Unique identifier for the skill (repository/path) */
+  id: string;
+  /** Skill name, also used as the install folder name */
+  name: string;
+  /** Repository source */
+  repository: string;
+  /** Path within repository */
+  path: string;
+  /** Branch, tag or commit the skill was installed from */
+  ref?: string;
+  /** Commit SHA the skill was installed from */
+  commit: string;
+  /** Hash over the installed files (see contentHash) */
+  contentHash: string;
+  /** Whether the skill is installed globally or in the workspace */
+  scope: 'global' | 'workspace';
+}
+
+/**
+ * Contents of skills.lock.json
+ */
+export interface SkillLockfile {
+  lockfileVersion: 1;
+  skills: LockedSkill[];
+}
+
+/**
+ * A lockfile entry that was ignored because it is malformed or unsafe
+ */
+export interface InvalidLockedSkill {
+  /** Position of the entry in the skills array */
+  index: number;
+  /** Id of the entry, when it has one */
+  id?: string;
+  reason: string;
+}
+
+/**
+ * A lockfile as read from disk: its valid entries and the ignored ones
+ */
+export interface LockfileReadResult {
+  lockfile: SkillLockfile;
+  invalid: InvalidLockedSkill[];
+}
+
+/**
+ * An installed skill together with the content hash of its files
+ */
+export interface HashedInstalledSkill {
+  skill: InstalledSkill;
+  contentHash: string;
+}
+
+/**
+ * Differences between a lockfile and the installed skills
+ */
+export interface LockfileDrift {
+  /** Locked skills that are not installed */
+  missing: LockedSkill[];
+  /** Installed skills that are not in the lockfile */
+  extra: InstalledSkill[];
+  /** Installed skills whose commit or content differs from the lockfile */
+  modified: { locked: LockedSkill; installed: InstalledSkill; reason: 'commit' | 'content' }[];
+}
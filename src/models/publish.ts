@@ -0,0 +1,40 @@
+/**
+ * A file to commit when publishing a skill
+ */
+export interface PublishFile {
+  /** Path in the repository */
+  path: string;
+  content: Buffer;
+  /** Whether to commit the file as executable (mode 100755) */
+  executable?: boolean;
+}
+
+/**
+ * A pull request to open with a single commit on a new branch
+ */
+export interface PullRequestDraft {
+  /** Branch to merge into; the repository's default branch when omitted */
+  base?: string;
+  /** New branch to commit to */
+  branch: string;
+  title: string;
+  /** Pull request description (markdown) */
+  body: string;
+  /** Commit message */
+  message: string;
+  files: PublishFile[];
+  /** Repository paths to delete in the same commit */
+  deletePaths?: string[];
+}
+
+/**
+ * A pull request that was opened
+ */
+export interface PullRequestResult {
+  number: number;
+  /** Web URL of the pull request */
+  url: string;
+  branch: string;
+  /** SHA of the commit on the branch */
+  commit: string;
+}
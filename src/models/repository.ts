@@ -16,6 +16,47 @@ export interface Repository {
   updatedAt?: Date;
 }
 
+/**
+ * A configured skill repository, optionally pinned to a branch, tag or commit
+ */
+export interface RepositorySpec {
+  /** Repository id: owner/name on github.com, host/owner/name on other hosts, the URL for folder and git remote sources */
+  fullName: string;
+  /** Host the repository lives on; github.com when omitted */
+  host?: string;
+  /** Repository path on its host (owner/name), or the URL of a URL source */
+  slug: string;
+  /** Pinned ref; the repository's default branch is used when omitted */
+  ref?: string;
+}
+
+/**
+ * Kind of API a source host speaks
+ */
+export type SourceType = 'github' | 'gitea';
+
+/**
+ * A host skills can be fetched from, as configured in `skillManager.hosts`
+ */
+export interface SourceHost {
+  /** Host name as used in repository ids, e.g. github.example.com */
+  host: string;
+  /** GitHub (github.com or Enterprise Server) or Gitea/Forgejo */
+  type: SourceType;
+  /** API base URL; derived from the host when omitted */
+  apiUrl?: string;
+}
+
+/**
+ * A ref resolved to the commit it currently points at
+ */
+export interface ResolvedRef {
+  /** Branch, tag or commit name that was requested */
+  ref: string;
+  /** Commit SHA the ref resolved to */
+  commit: string;
+}
+
 /**
  * GitHub tree node (file or directory)
  */
@@ -36,6 +77,10 @@ export interface RepositoryTree {
   url: string;
   tree: TreeNode[];
   truncated: boolean;
+  /** Ref the tree was fetched for (set by GitHubService) */
+  ref?: string;
+  /** Commit the tree belongs to (set by GitHubService) */
+  commit?: string;
 }
 
 /**
@@ -0,0 +1,41 @@
+/**
+ * How risky a finding is, from least to most severe
+ */
+export type RiskSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Something in a skill's files worth reviewing before it is installed
+ */
+export interface RiskFinding {
+  severity: RiskSeverity;
+  /** Identifier of the check that produced the finding */
+  rule: string;
+  message: string;
+  /** File path relative to the skill folder */
+  file: string;
+  /** One-based line of the first match, for text files */
+  line?: number;
+}
+
+/**
+ * Result of scanning a skill before installation
+ */
+export interface RiskReport {
+  /** Findings, most severe first */
+  findings: RiskFinding[];
+  /** Severity of the worst finding, or undefined if nothing was found */
+  highestSeverity?: RiskSeverity;
+  /** Number of files scanned */
+  fileCount: number;
+}
+
+/**
+ * A skill file to scan
+ */
+export interface ScannedFile {
+  /** Path relative to the skill folder */
+  path: string;
+  content: Buffer;
+  /** Git file mode from the repository tree, e.g. "100755" */
+  mode?: string;
+}
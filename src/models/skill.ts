@@ -24,6 +24,26 @@ export interface Skill {
   author?: string;
   /** Version string */
   version?: string;
+  /** Dependencies declared in SKILL.md */
+  dependencies?: string[];
+  /** Tree SHA of the repository snapshot the skill was read from */
+  sourceVersion?: string;
+  /** Branch, tag or commit the skill was fetched from */
+  ref?: string;
+  /** Commit SHA the ref resolved to */
+  commit?: string;
+  /** Whether a newer upstream version is available (installed skills only) */
+  hasUpdate?: boolean;
+  /** Labels of the install scopes the skill is installed in */
+  installedScopes?: string[];
+  /** Whether every installed copy of the skill is disabled */
+  isDisabled?: boolean;
+  /** Problems found in the SKILL.md metadata, formatted for display */
+  metadataProblems?: string[];
+  /** When a catalog sync first saw the skill's current files (ISO 8601) */
+  updatedAt?: string;
+  /** When the skill was last installed in any scope (ISO 8601) */
+  lastInstalledAt?: string;
 }
 
 /**
@@ -38,6 +58,8 @@ export interface SkillFile {
   type: 'file' | 'directory';
   /** SHA for caching */
   sha?: string;
+  /** Size in bytes, when known */
+  size?: number;
   /** Download URL */
   downloadUrl?: string;
 }
@@ -54,6 +76,45 @@ export interface SkillMetadata {
   version?: string;
   triggers?: string[];
   dependencies?: string[];
+  /** Frontmatter fields not covered by the schema, preserved as parsed */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * A problem found while parsing SKILL.md. Positions are zero-based and
+ * refer to the whole SKILL.md file.
+ */
+export interface ParseProblem {
+  message: string;
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  /** Frontmatter key the problem relates to */
+  key?: string;
+}
+
+/**
+ * Full result of parsing SKILL.md
+ */
+export interface SkillParseResult {
+  metadata: SkillMetadata;
+  /** Markdown body after the frontmatter */
+  body: string;
+  /** Whether the file starts with a frontmatter block */
+  hasFrontmatter: boolean;
+  problems: ParseProblem[];
+}
+
+/**
+ * A location skills can be installed into
+ */
+export interface InstallScope {
+  /** Global (user-wide) or tied to a workspace folder */
+  type: 'global' | 'workspace';
+  /** Display label, e.g. "Global" or "Workspace (my-project)" */
+  label: string;
+  /** Directory the skills of this scope live in */
+  root: string;
 }
 
 /**
@@ -64,8 +125,89 @@ export interface InstalledSkill extends Skill {
   localPath: string;
   /** Installation timestamp */
   installedAt: Date;
-  /** Source repository version/commit */
+  /** Scope the skill is installed in */
+  scope: InstallScope;
+  /** Whether the skill was installed only to satisfy another skill's dependencies */
+  installedAsDependency?: boolean;
+  /** Blob SHAs of the installed files, keyed by path relative to the skill root */
+  fileShas?: Record<string, string>;
+  /** Whether the skill has been moved aside so the agent does not load it */
+  disabled?: boolean;
+  /**
+   * Files added, edited or deleted locally since install, if file SHAs were
+   * recorded. Only filled in by `SkillInstaller.findModifiedFiles`.
+   */
+  modifiedFiles?: string[];
+}
+
+/**
+ * Contents of the .skill-manager.json file written next to an installed skill
+ */
+export interface InstallMetadata {
+  id: string;
+  name: string;
+  repository: string;
+  path: string;
+  installedAt: string;
+  version?: string;
+  /** Tree SHA of the repository at install time */
   sourceVersion?: string;
+  /** Branch, tag or commit the skill was installed from */
+  ref?: string;
+  /** Commit SHA the ref resolved to at install time */
+  commit?: string;
+  /** Blob SHAs of the installed files, keyed by path relative to the skill root */
+  files?: Record<string, string>;
+  /** Whether the skill was installed only to satisfy another skill's dependencies */
+  installedAsDependency?: boolean;
+}
+
+/**
+ * Upstream changes available for an installed skill
+ */
+export interface SkillUpdate {
+  /** The skill as currently installed */
+  installed: InstalledSkill;
+  /** The skill as it exists upstream */
+  latest: Skill;
+  /** Files present upstream but not installed */
+  added: string[];
+  /** Files installed but no longer present upstream */
+  removed: string[];
+  /** Files whose content differs from upstream */
+  changed: string[];
+  /** Blob SHAs of the upstream files, keyed by path relative to the skill root */
+  upstreamShas: Record<string, string>;
+}
+
+/**
+ * How to update a file that was changed both locally and upstream
+ */
+export type FileResolution =
+  | { type: 'local' }
+  | { type: 'upstream' }
+  | { type: 'merged'; content: Buffer };
+
+/**
+ * The three versions of a file being merged; undefined where the file does
+ * not exist
+ */
+export interface MergeInputs {
+  /** As installed */
+  base?: Buffer;
+  /** As edited locally */
+  local?: Buffer;
+  /** As it exists upstream */
+  upstream?: Buffer;
+}
+
+/**
+ * A skill file that could not be installed
+ */
+export interface FailedFile {
+  /** Path relative to the skill root */
+  path: string;
+  error: string;
 }
 
 /**
@@ -76,6 +218,8 @@ export interface InstallResult {
   skill: Skill;
   localPath?: string;
   error?: string;
+  /** Files that failed to download or verify; nothing was installed */
+  failedFiles?: FailedFile[];
 }
 
 /**
@@ -86,3 +230,27 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
 }
+
+/**
+ * A single validation rule violation for skill metadata
+ */
+export interface ValidationIssue {
+  message: string;
+  severity: 'error' | 'warning';
+  /** Frontmatter key the issue relates to */
+  key?: string;
+}
+
+/**
+ * A lint problem in a SKILL.md file. Positions are zero-based.
+ */
+export interface LintProblem {
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  /** Stable rule identifier, e.g. "broken-link" */
+  code: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
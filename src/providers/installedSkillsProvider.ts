@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SkillInstaller } from '../services/skillInstaller';
+import { InstalledSkill, SkillUpdate } from '../models/skill';
+
+/** Delay before refreshing after changes in an install directory */
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * How installed skills are grouped in the tree
+ */
+export type GroupBy = 'repository' | 'category' | 'scope';
+
+/**
+ * A group of skills in the tree
+ */
+export interface SkillGroupNode {
+  kind: 'group';
+  label: string;
+  skills: InstalledSkill[];
+}
+
+/**
+ * An installed skill in the tree
+ */
+export interface SkillNode {
+  kind: 'skill';
+  skill: InstalledSkill;
+}
+
+export type InstalledSkillsNode = SkillGroupNode | SkillNode;
+
+/**
+ * Sidebar tree of installed skills, kept live by watching the install
+ * directories of every scope
+ */
+export class InstalledSkillsProvider implements vscode.TreeDataProvider<InstalledSkillsNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<InstalledSkillsNode | undefined>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private view: vscode.TreeView<InstalledSkillsNode> | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private pendingRefresh: NodeJS.Timeout | undefined;
+  private installed: InstalledSkill[] = [];
+  private updates: Map<string, SkillUpdate> = new Map();
+
+  constructor(private skillInstaller: SkillInstaller) {
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.watchInstallDirectories();
+        this.refresh();
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('skillManager.installPath') ||
+            event.affectsConfiguration('skillManager.workspaceInstallPath')) {
+          this.watchInstallDirectories();
+          this.refresh();
+        } else if (event.affectsConfiguration('skillManager.installedView.groupBy')) {
+          this.changeEmitter.fire(undefined);
+        }
+      })
+    );
+
+    this.watchInstallDirectories();
+  }
+
+  /**
+   * Attach the tree view that shows this provider, for badges
+   */
+  public setView(view: vscode.TreeView<InstalledSkillsNode>): void {
+    this.view = view;
+    this.updateBadge();
+  }
+
+  /**
+   * Current grouping from settings
+   */
+  public getGroupBy(): GroupBy {
+    return vscode.workspace.getConfiguration('skillManager').get<GroupBy>('installedView.groupBy', 'repository');
+  }
+
+  /**
+   * Upstream update known for an installed skill, if any
+   */
+  public getUpdate(skill: InstalledSkill): SkillUpdate | undefined {
+    return this.updates.get(skill.localPath);
+  }
+
+  /**
+   * Reload installed skills and local modifications. Checking upstream for
+   * updates needs network access, so it only happens when asked for.
+   */
+  public async refresh(checkUpdates = false): Promise<void> {
+    try {
+      const installed = await this.skillInstaller.listInstalled(undefined, true);
+      this.installed = await Promise.all(installed.map(async skill => ({
+        ...skill,
+        modifiedFiles: await this.skillInstaller.findModifiedFiles(skill)
+      })));
+    } catch (error) {
+      console.error('Failed to list installed skills:', error);
+      this.installed = [];
+    }
+
+    let updates: SkillUpdate[] | undefined;
+    if (checkUpdates) {
+      try {
+        updates = await this.skillInstaller.checkForUpdates(this.installed.filter(s => !s.disabled));
+      } catch (error) {
+        console.error('Failed to check installed skills for updates:', error);
+      }
+    }
+
+    if (updates) {
+      this.updates = new Map(updates.map(u => [u.installed.localPath, u]));
+    } else {
+      // Keep known updates for skills that are still where they were
+      const paths = new Set(this.installed.map(s => s.localPath));
+      this.updates = new Map([...this.updates].filter(([localPath]) => paths.has(localPath)));
+    }
+
+    this.updateBadge();
+    this.changeEmitter.fire(undefined);
+  }
+
+  /**
+   * Watch the install directory of every scope
+   */
+  private watchInstallDirectories(): void {
+    for (const watcher of this.watchers) {
+      watcher.dispose();
+    }
+
+    this.watchers = this.skillInstaller.getScopes().map(scope => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(scope.root), '**')
+      );
+      watcher.onDidCreate(() => this.scheduleRefresh());
+      watcher.onDidChange(() => this.scheduleRefresh());
+      watcher.onDidDelete(() => this.scheduleRefresh());
+      return watcher;
+    });
+  }
+
+  /**
+   * Refresh once a burst of file changes (e.g. an install) has settled
+   */
+  private scheduleRefresh(): void {
+    clearTimeout(this.pendingRefresh);
+    this.pendingRefresh = setTimeout(() => {
+      this.pendingRefresh = undefined;
+      this.refresh();
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Show the number of outdated skills on the view
+   */
+  private updateBadge(): void {
+    if (!this.view) {
+      return;
+    }
+    const count = this.updates.size;
+    this.view.badge = count > 0
+      ? { value: count, tooltip: `${count} skill update(s) available` }
+      : undefined;
+  }
+
+  /**
+   * Group label of a skill for the current grouping
+   */
+  private getGroupLabel(skill: InstalledSkill, groupBy: GroupBy): string {
+    switch (groupBy) {
+      case 'category':
+        return skill.category || 'uncategorized';
+      case 'scope':
+        return skill.scope.label;
+      default:
+        return skill.repository === 'local' ? 'Local' : skill.repository;
+    }
+  }
+
+  /**
+   * Get children: groups at the root, skills below them
+   */
+  public getChildren(element?: InstalledSkillsNode): InstalledSkillsNode[] {
+    if (element?.kind === 'skill') {
+      return [];
+    }
+
+    if (element?.kind === 'group') {
+      return [...element.skills]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(skill => ({ kind: 'skill', skill }));
+    }
+
+    const groupBy = this.getGroupBy();
+    const groups = new Map<string, InstalledSkill[]>();
+    for (const skill of this.installed) {
+      const label = this.getGroupLabel(skill, groupBy);
+      groups.set(label, [...(groups.get(label) ?? []), skill]);
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([label, skills]) => ({ kind: 'group', label, skills }));
+  }
+
+  /**
+   * Render a node
+   */
+  public getTreeItem(element: InstalledSkillsNode): vscode.TreeItem {
+    if (element.kind === 'group') {
+      const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = `${element.skills.length}`;
+      item.contextValue = 'skillGroup';
+      item.iconPath = new vscode.ThemeIcon({
+        repository: 'repo',
+        category: 'tag',
+        scope: 'folder-library'
+      }[this.getGroupBy()]);
+      return item;
+    }
+
+    const { skill } = element;
+    const update = this.updates.get(skill.localPath);
+    const modifiedFiles = skill.modifiedFiles?.length ? skill.modifiedFiles : undefined;
+
+    const item = new vscode.TreeItem(skill.name, vscode.TreeItemCollapsibleState.None);
+    item.id = skill.localPath;
+
+    const badges = [
+      skill.version ? `v${skill.version}` : undefined,
+      update ? '↑ update' : undefined,
+      modifiedFiles ? '✎ modified' : undefined,
+      skill.disabled ? 'disabled' : undefined
+    ].filter(Boolean);
+    item.description = badges.join(' · ');
+
+    if (skill.disabled) {
+      item.iconPath = new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+    } else if (update) {
+      item.iconPath = new vscode.ThemeIcon('arrow-circle-up', new vscode.ThemeColor('charts.blue'));
+    } else if (modifiedFiles) {
+      item.iconPath = new vscode.ThemeIcon('edit', new vscode.ThemeColor('charts.yellow'));
+    } else {
+      item.iconPath = new vscode.ThemeIcon('book');
+    }
+
+    const tooltip = new vscode.MarkdownString(undefined, true);
+    tooltip.appendMarkdown(`**${skill.name}**`);
+    if (skill.description) {
+      tooltip.appendMarkdown(`\n\n${skill.description}`);
+    }
+    tooltip.appendMarkdown(`\n\n$(repo) ${skill.repository}${skill.ref ? ` @ ${skill.ref}` : ''}`);
+    tooltip.appendMarkdown(`\n\n$(folder) ${skill.scope.label} · ${path.basename(skill.localPath)}`);
+    if (update) {
+      tooltip.appendMarkdown(`\n\n$(arrow-circle-up) Update available: +${update.added.length} ~${update.changed.length} -${update.removed.length} files`);
+    }
+    if (modifiedFiles) {
+      tooltip.appendMarkdown(`\n\n$(edit) Locally modified: ${modifiedFiles.join(', ')}`);
+    }
+    if (skill.installedAsDependency) {
+      tooltip.appendMarkdown('\n\n$(references) Installed as a dependency');
+    }
+    item.tooltip = tooltip;
+
+    // Flags drive which inline actions the menus show
+    item.contextValue = [
+      'skill',
+      skill.disabled ? 'disabled' : 'enabled',
+      update ? 'outdated' : undefined,
+      modifiedFiles ? 'modified' : undefined
+    ].filter(Boolean).join('.');
+
+    item.command = {
+      command: 'skillManager.openSkillMd',
+      title: 'Open SKILL.md',
+      arguments: [element]
+    };
+
+    return item;
+  }
+
+  /**
+   * Dispose the provider and its watchers
+   */
+  public dispose(): void {
+    clearTimeout(this.pendingRefresh);
+    for (const watcher of this.watchers) {
+      watcher.dispose();
+    }
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SkillLinter } from '../services/skillLinter';
+import { InstalledSkill, LintProblem } from '../models/skill';
+
+/** Delay before re-linting a document after an edit */
+const LINT_DEBOUNCE_MS = 300;
+
+/**
+ * Publishes SKILL.md lint problems as VS Code diagnostics
+ */
+export class SkillDiagnosticsProvider implements vscode.Disposable {
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private pending: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private skillLinter: SkillLinter) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('skillManager');
+
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument(doc => this.lintDocument(doc)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleLint(event.document)),
+      vscode.workspace.onDidCloseTextDocument(doc => {
+        if (this.isSkillMd(doc.uri) && doc.uri.scheme !== 'file') {
+          this.diagnostics.delete(doc.uri);
+        }
+      })
+    );
+
+    for (const doc of vscode.workspace.textDocuments) {
+      this.lintDocument(doc);
+    }
+  }
+
+  /**
+   * Whether a URI points at a SKILL.md file
+   */
+  private isSkillMd(uri: vscode.Uri): boolean {
+    return path.basename(uri.path) === 'SKILL.md';
+  }
+
+  /**
+   * Lint a document after a short pause in typing
+   */
+  private scheduleLint(doc: vscode.TextDocument): void {
+    if (!this.isSkillMd(doc.uri)) {
+      return;
+    }
+
+    const key = doc.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(key, setTimeout(() => {
+      this.pending.delete(key);
+      this.lintDocument(doc);
+    }, LINT_DEBOUNCE_MS));
+  }
+
+  /**
+   * Lint an open SKILL.md document
+   */
+  private async lintDocument(doc: vscode.TextDocument): Promise<void> {
+    if (!this.isSkillMd(doc.uri)) {
+      return;
+    }
+
+    // Links can only be checked for files on disk
+    const skillDir = doc.uri.scheme === 'file' ? path.dirname(doc.uri.fsPath) : undefined;
+    const problems = await this.skillLinter.lint(doc.getText(), skillDir);
+    this.diagnostics.set(doc.uri, problems.map(p => this.toDiagnostic(p)));
+  }
+
+  /**
+   * Lint the SKILL.md of every installed skill
+   */
+  public async validateInstalled(skills: InstalledSkill[]): Promise<{ errors: number; warnings: number }> {
+    let errors = 0;
+    let warnings = 0;
+
+    for (const skill of skills) {
+      const uri = vscode.Uri.file(path.join(skill.localPath, 'SKILL.md'));
+      try {
+        const content = await fs.readFile(uri.fsPath, 'utf-8');
+        const problems = await this.skillLinter.lint(content, skill.localPath);
+        this.diagnostics.set(uri, problems.map(p => this.toDiagnostic(p)));
+        errors += problems.filter(p => p.severity === 'error').length;
+        warnings += problems.filter(p => p.severity === 'warning').length;
+      } catch (error) {
+        console.error(`Failed to validate ${skill.name}:`, error);
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Convert a lint problem to a diagnostic
+   */
+  private toDiagnostic(problem: LintProblem): vscode.Diagnostic {
+    const severity = {
+      error: vscode.DiagnosticSeverity.Error,
+      warning: vscode.DiagnosticSeverity.Warning,
+      info: vscode.DiagnosticSeverity.Information
+    }[problem.severity];
+
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(problem.line, problem.column, problem.endLine, problem.endColumn),
+      problem.message,
+      severity
+    );
+    diagnostic.source = 'Skill Manager';
+    diagnostic.code = problem.code;
+    return diagnostic;
+  }
+
+  /**
+   * Dispose the provider and its diagnostics
+   */
+  public dispose(): void {
+    for (const timeout of this.pending.values()) {
+      clearTimeout(timeout);
+    }
+    while (this.disposables.length) {
+      const disposable = this.disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
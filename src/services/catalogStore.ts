@@ -0,0 +1,238 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { CacheEntry, CatalogSnapshot, HttpCacheFile } from '../models/catalog';
+import { Skill } from '../models/skill';
+import { RepositoryTree } from '../models/repository';
+import { gitBlobSha } from './contentHash';
+
+const HTTP_CACHE_FILE = 'http-cache.json';
+const CATALOG_FILE = 'catalog.json';
+const BLOBS_DIR = 'blobs';
+const SNAPSHOTS_DIR = 'snapshots';
+
+/** Size the blob cache is pruned back to, least recently used blobs first */
+export const MAX_BLOB_CACHE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Per-user state of a catalog entry that is recomputed on every load and
+ * should not be persisted
+ */
+const TRANSIENT_SKILL_FIELDS: (keyof Skill)[] = ['isInstalled', 'installedScopes', 'isDisabled', 'hasUpdate', 'lastInstalledAt'];
+
+/**
+ * On-disk storage for the GitHub response cache, the last loaded skill
+ * catalog, downloaded file contents and the trees of downloaded repository
+ * archives, so the extension keeps working across reloads and without
+ * network access
+ */
+export class CatalogStore {
+  constructor(private storageDir: string) {}
+
+  /**
+   * Read a JSON file from storage, or undefined if it is missing or unreadable
+   */
+  private async readJson<T>(fileName: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.storageDir, fileName), 'utf-8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a JSON file to storage. Writes go to a temporary file first so an
+   * interrupted write never leaves a truncated file behind; the temporary
+   * name is unique so windows saving at the same time do not interleave.
+   */
+  private async writeJson(fileName: string, data: unknown): Promise<void> {
+    const filePath = path.join(this.storageDir, fileName);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data));
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Load persisted API responses
+   */
+  public async loadHttpCache(): Promise<Record<string, CacheEntry<unknown>>> {
+    const file = await this.readJson<HttpCacheFile>(HTTP_CACHE_FILE);
+    return file?.cacheVersion === 1 ? file.entries : {};
+  }
+
+  /**
+   * Persist API responses
+   */
+  public async saveHttpCache(entries: Record<string, CacheEntry<unknown>>): Promise<void> {
+    const file: HttpCacheFile = { cacheVersion: 1, entries };
+    await this.writeJson(HTTP_CACHE_FILE, file);
+  }
+
+  /**
+   * Delete persisted API responses
+   */
+  public async clearHttpCache(): Promise<void> {
+    await fs.rm(path.join(this.storageDir, HTTP_CACHE_FILE), { force: true });
+  }
+
+  /**
+   * Load the last saved catalog snapshot
+   */
+  public async loadCatalog(): Promise<CatalogSnapshot | undefined> {
+    const snapshot = await this.readJson<CatalogSnapshot>(CATALOG_FILE);
+    return snapshot && Array.isArray(snapshot.skills) ? snapshot : undefined;
+  }
+
+  /**
+   * Save the catalog loaded from the given repositories. Each skill's
+   * `updatedAt` is kept from the previous catalog while its files are
+   * unchanged and set to the sync time when they changed or it is new.
+   */
+  public async saveCatalog(skills: Skill[], repositories: string[]): Promise<CatalogSnapshot> {
+    const syncedAt = new Date().toISOString();
+    const previous = await this.loadCatalog();
+    const previousSkills = new Map(previous?.skills.map(skill => [skill.id, skill]));
+    const filesKey = (skill: Skill) => skill.files.map(file => `${file.path}:${file.sha ?? ''}`).sort().join('\n');
+    
+    for (const skill of skills) {
+      const before = previousSkills.get(skill.id);
+      if (before && filesKey(before) === filesKey(skill)) {
+        skill.updatedAt = before.updatedAt;
+      } else if (previous) {
+        // Without a previous catalog every skill would look just updated
+        skill.updatedAt = syncedAt;
+      }
+    }
+    
+    const snapshot: CatalogSnapshot = {
+      syncedAt,
+      repositories,
+      skills: skills.map(skill => {
+        const copy = { ...skill };
+        for (const field of TRANSIENT_SKILL_FIELDS) {
+          delete copy[field];
+        }
+        return copy;
+      })
+    };
+    await this.writeJson(CATALOG_FILE, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * File name prefix of a repository's archive snapshots
+   */
+  private getSnapshotPrefix(repo: string): string {
+    return crypto.createHash('sha1').update(repo).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Load the tree of a repository archive downloaded at a commit. Its files
+   * are in the blob cache.
+   */
+  public async loadSnapshot(repo: string, commit: string): Promise<RepositoryTree | undefined> {
+    return this.readJson<RepositoryTree>(path.join(SNAPSHOTS_DIR, `${this.getSnapshotPrefix(repo)}-${commit}.json`));
+  }
+
+  /**
+   * Save the tree of a downloaded repository archive, replacing snapshots of
+   * the repository at other commits
+   */
+  public async saveSnapshot(repo: string, commit: string, tree: RepositoryTree): Promise<void> {
+    const prefix = this.getSnapshotPrefix(repo);
+    const fileName = `${prefix}-${commit}.json`;
+    await this.writeJson(path.join(SNAPSHOTS_DIR, fileName), tree);
+    
+    const existing = await fs.readdir(path.join(this.storageDir, SNAPSHOTS_DIR)).catch(() => [] as string[]);
+    for (const entry of existing) {
+      if (entry.startsWith(`${prefix}-`) && entry !== fileName) {
+        await fs.rm(path.join(this.storageDir, SNAPSHOTS_DIR, entry), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Path of a cached blob, sharded by the first two characters of its SHA
+   */
+  private getBlobPath(sha: string): string {
+    return path.join(this.storageDir, BLOBS_DIR, sha.slice(0, 2), sha);
+  }
+
+  /**
+   * Read a cached file by its git blob SHA. Entries that no longer match
+   * their SHA are discarded.
+   */
+  public async readBlob(sha: string): Promise<Buffer | undefined> {
+    if (!/^[0-9a-f]{40}$/.test(sha)) {
+      return undefined;
+    }
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.getBlobPath(sha));
+    } catch {
+      return undefined;
+    }
+
+    if (gitBlobSha(content) !== sha) {
+      await fs.rm(this.getBlobPath(sha), { force: true });
+      return undefined;
+    }
+    // The modification time records the last use for pruning
+    const now = new Date();
+    await fs.utimes(this.getBlobPath(sha), now, now).catch(() => undefined);
+    return content;
+  }
+
+  /**
+   * Cache file content under its git blob SHA. Content that does not match
+   * the SHA is not stored. Resolves to whether it was stored.
+   */
+  public async writeBlob(sha: string, content: Buffer): Promise<boolean> {
+    if (gitBlobSha(content) !== sha) {
+      return false;
+    }
+
+    const blobPath = this.getBlobPath(sha);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    await fs.writeFile(blobPath, content);
+    return true;
+  }
+
+  /**
+   * Delete the least recently used blobs until the cache fits in a size
+   * limit. Resolves to the number of blobs deleted.
+   */
+  public async pruneBlobs(maxBytes = MAX_BLOB_CACHE_BYTES): Promise<number> {
+    const blobsDir = path.join(this.storageDir, BLOBS_DIR);
+    const blobs: { path: string; size: number; usedAt: number }[] = [];
+    
+    for (const shard of await fs.readdir(blobsDir).catch(() => [] as string[])) {
+      for (const name of await fs.readdir(path.join(blobsDir, shard)).catch(() => [] as string[])) {
+        const blobPath = path.join(blobsDir, shard, name);
+        const stat = await fs.stat(blobPath).catch(() => undefined);
+        if (stat?.isFile()) {
+          blobs.push({ path: blobPath, size: stat.size, usedAt: stat.mtimeMs });
+        }
+      }
+    }
+    
+    let total = blobs.reduce((sum, blob) => sum + blob.size, 0);
+    let deleted = 0;
+    for (const blob of blobs.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (total <= maxBytes) {
+        break;
+      }
+      await fs.rm(blob.path, { force: true });
+      total -= blob.size;
+      deleted++;
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+/** Files written by the extension itself, excluded from content hashes */
+const INTERNAL_FILE_PREFIX = '.skill-manager';
+
+/**
+ * Compute the git blob SHA of file content, matching the SHAs in GitHub trees
+ */
+export function gitBlobSha(content: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * Combine per-file blob SHAs into a single content hash.
+ * The result only depends on paths and contents, so it is the same for an
+ * upstream tree and an unmodified local copy of it.
+ */
+export function hashFileShas(fileShas: Record<string, string>): string {
+  const hash = crypto.createHash('sha256');
+  for (const filePath of Object.keys(fileShas).sort()) {
+    hash.update(`${filePath}\0${fileShas[filePath]}\n`);
+  }
+  return `sha256-${hash.digest('hex')}`;
+}
+
+/**
+ * Compute blob SHAs for every file below a directory, keyed by
+ * forward-slash path relative to it
+ */
+export async function computeFileShas(dir: string): Promise<Record<string, string>> {
+  const fileShas: Record<string, string> = {};
+
+  const walk = async (current: string, relative: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith(INTERNAL_FILE_PREFIX)) {
+        continue;
+      }
+      const entryPath = path.join(current, entry.name);
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(entryPath, entryRelative);
+      } else if (entry.isFile()) {
+        fileShas[entryRelative] = gitBlobSha(await fs.readFile(entryPath));
+      }
+    }
+  };
+
+  await walk(dir, '');
+  return fileShas;
+}
+
+/**
+ * Compute the content hash of a directory
+ */
+export async function hashDirectory(dir: string): Promise<string> {
+  return hashFileShas(await computeFileShas(dir));
+}
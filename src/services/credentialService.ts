@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { SourceHost } from '../models/repository';
+import { GITHUB_HOST } from './repositorySpec';
+
+/** Prefix of the secret storage keys tokens are kept under */
+const SECRET_PREFIX = 'skillManager.token.';
+
+/** Global state key of the hosts signed in through a VS Code account, by auth provider id */
+const SESSION_HOSTS_KEY = 'skillManager.sessionHosts';
+
+/** Scopes requested from the GitHub authentication providers */
+const GITHUB_SCOPES = ['repo'];
+
+/** A `skillManager.hosts` entry as written before tokens moved to secret storage */
+type LegacySourceHost = SourceHost & { token?: string };
+
+/**
+ * Access tokens for source hosts. Tokens are kept in VS Code's secret
+ * storage, never in settings; github.com and GitHub Enterprise hosts can
+ * instead use the account the user signed in with through VS Code.
+ */
+export class CredentialService implements vscode.Disposable {
+  private tokens: Map<string, Promise<string | undefined>> = new Map();
+  private migrated: Promise<void>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.migrated = this.migrateSettings();
+    this.disposables.push(
+      context.secrets.onDidChange(() => this.tokens.clear()),
+      vscode.authentication.onDidChangeSessions(() => this.tokens.clear())
+    );
+  }
+
+  /**
+   * Move tokens from the plain-text `githubToken` and `hosts` settings into
+   * secret storage and remove them from settings. Only user settings are
+   * trusted: a token in workspace settings comes with the repository, so it
+   * is removed without being stored.
+   */
+  private async migrateSettings(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('skillManager');
+    const migrated: string[] = [];
+    let ignored = false;
+    
+    try {
+      const legacyToken = config.inspect<string>('githubToken');
+      if (legacyToken?.globalValue) {
+        await this.context.secrets.store(SECRET_PREFIX + GITHUB_HOST, legacyToken.globalValue);
+        migrated.push(GITHUB_HOST);
+      }
+      if (legacyToken?.globalValue !== undefined) {
+        await config.update('githubToken', undefined, vscode.ConfigurationTarget.Global);
+      }
+      if (legacyToken?.workspaceValue !== undefined) {
+        ignored ||= !!legacyToken.workspaceValue;
+        await config.update('githubToken', undefined, vscode.ConfigurationTarget.Workspace);
+      }
+      
+      const hosts = config.inspect<LegacySourceHost[]>('hosts');
+      const targets: [vscode.ConfigurationTarget, LegacySourceHost[] | undefined][] = [
+        [vscode.ConfigurationTarget.Global, hosts?.globalValue],
+        [vscode.ConfigurationTarget.Workspace, hosts?.workspaceValue]
+      ];
+      for (const [target, entries] of targets) {
+        if (!entries?.some(entry => entry.token)) {
+          continue;
+        }
+        if (target === vscode.ConfigurationTarget.Global) {
+          for (const entry of entries) {
+            if (entry.token && entry.host) {
+              await this.context.secrets.store(SECRET_PREFIX + entry.host.toLowerCase(), entry.token);
+              migrated.push(entry.host);
+            }
+          }
+        } else {
+          ignored = true;
+        }
+        await config.update('hosts', entries.map(({ token: _token, ...entry }) => entry), target);
+      }
+    } catch (error) {
+      console.error('Failed to move tokens to secret storage:', error);
+    }
+    
+    if (ignored) {
+      vscode.window.showWarningMessage(
+        'Removed access tokens from the workspace settings without using them. Sign in with Skill Manager: Sign in to GitHub instead.'
+      );
+    }
+    if (migrated.length > 0) {
+      vscode.window.showInformationMessage(
+        `Moved access tokens for ${migrated.join(', ')} from settings to secure storage.`
+      );
+    }
+  }
+
+  /**
+   * The VS Code authentication provider that can sign in to a host, if any.
+   * GitHub Enterprise hosts qualify when they are the server configured in
+   * `github-enterprise.uri`.
+   */
+  public getAuthProviderId(source: SourceHost): string | undefined {
+    if (source.host === GITHUB_HOST) {
+      return 'github';
+    }
+    if (source.type !== 'github') {
+      return undefined;
+    }
+    
+    const enterpriseUri = vscode.workspace.getConfiguration('github-enterprise').get<string>('uri');
+    try {
+      return enterpriseUri && new URL(enterpriseUri).host.toLowerCase() === source.host ? 'github-enterprise' : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Hosts signed in through a VS Code account, with the provider used
+   */
+  private getSessionHosts(): Record<string, string> {
+    return this.context.globalState.get<Record<string, string>>(SESSION_HOSTS_KEY, {});
+  }
+
+  /**
+   * Get the token for a host: a stored token, or the access token of the
+   * VS Code account the host was signed in with
+   */
+  public async getToken(host: string): Promise<string | undefined> {
+    await this.migrated;
+    
+    let token = this.tokens.get(host);
+    if (!token) {
+      token = this.lookupToken(host);
+      this.tokens.set(host, token);
+    }
+    return token;
+  }
+
+  /**
+   * Look up a token without the in-memory cache
+   */
+  private async lookupToken(host: string): Promise<string | undefined> {
+    const stored = await this.context.secrets.get(SECRET_PREFIX + host);
+    if (stored) {
+      return stored;
+    }
+    
+    const providerId = this.getSessionHosts()[host];
+    if (!providerId) {
+      return undefined;
+    }
+    try {
+      const session = await vscode.authentication.getSession(providerId, GITHUB_SCOPES, { silent: true });
+      return session?.accessToken;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a host has a stored token or a signed-in account
+   */
+  public async hasCredentials(host: string): Promise<boolean> {
+    return (await this.context.secrets.get(SECRET_PREFIX + host)) !== undefined
+      || this.getSessionHosts()[host] !== undefined;
+  }
+
+  /**
+   * Store a token for a host
+   */
+  public async setToken(host: string, token: string): Promise<void> {
+    await this.context.secrets.store(SECRET_PREFIX + host, token);
+    this.tokens.delete(host);
+  }
+
+  /**
+   * Sign in to a host with its VS Code authentication provider, which runs
+   * the browser or device-code flow as needed. Resolves to the account name.
+   */
+  public async signInWithAccount(source: SourceHost): Promise<string> {
+    const providerId = this.getAuthProviderId(source);
+    if (!providerId) {
+      throw new Error(`${source.host} has no VS Code sign-in; use an access token instead`);
+    }
+    
+    const session = await vscode.authentication.getSession(providerId, GITHUB_SCOPES, { createIfNone: true });
+    await this.context.globalState.update(SESSION_HOSTS_KEY, { ...this.getSessionHosts(), [source.host]: providerId });
+    // A stored token would take precedence over the account
+    await this.context.secrets.delete(SECRET_PREFIX + source.host);
+    this.tokens.delete(source.host);
+    return session.account.label;
+  }
+
+  /**
+   * Forget the token and account used for a host
+   */
+  public async signOut(host: string): Promise<void> {
+    const { [host]: _removed, ...sessionHosts } = this.getSessionHosts();
+    await this.context.globalState.update(SESSION_HOSTS_KEY, sessionHosts);
+    await this.context.secrets.delete(SECRET_PREFIX + host);
+    this.tokens.delete(host);
+  }
+
+  /**
+   * Dispose of listeners
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,272 @@
+import { Skill, SkillMetadata, InstalledSkill } from '../models/skill';
+import { DependencyRequest, DependencyProblem, InstallPlan, InstallPlanStep } from '../models/dependency';
+
+/**
+ * Parse a dependency declaration: `name`, `name@constraint` or `name constraint`
+ */
+export function parseDependency(raw: string): DependencyRequest {
+  const trimmed = raw.trim();
+  const match = trimmed.match(/^(\S+?)(?:\s*@\s*|\s+)([~^<>=*\dxX].*)$/);
+
+  if (!match) {
+    return { name: trimmed, raw };
+  }
+  return { name: match[1], constraint: match[2].trim(), raw };
+}
+
+/**
+ * Parse "1.2.3" (or "v1.2", "1") into numeric parts, or undefined if not a version
+ */
+function parseVersion(version: string): [number, number, number] | undefined {
+  const match = version.trim().replace(/^v/i, '').match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (!match) {
+    return undefined;
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+/**
+ * Compare two parsed versions
+ */
+function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check a version against a constraint. Supports exact versions, `*`,
+ * `^`, `~`, comparison operators and space-separated combinations of them.
+ */
+export function satisfiesConstraint(version: string | undefined, constraint: string): boolean {
+  const parts = constraint.trim().split(/\s+/).filter(Boolean);
+  if (parts.every(part => part === '*' || /^x$/i.test(part))) {
+    return true;
+  }
+
+  const parsed = version ? parseVersion(version) : undefined;
+  if (!parsed) {
+    return false;
+  }
+
+  return parts.every(part => {
+    const match = part.match(/^(\^|~|>=|<=|>|<|=)?(.+)$/);
+    const target = match ? parseVersion(match[2]) : undefined;
+    if (!match || !target) {
+      return false;
+    }
+
+    const cmp = compareVersions(parsed, target);
+    switch (match[1]) {
+      case '^':
+        // Same leftmost non-zero component
+        if (cmp < 0) {
+          return false;
+        }
+        if (target[0] > 0) {
+          return parsed[0] === target[0];
+        }
+        return parsed[0] === 0 && (target[1] > 0 ? parsed[1] === target[1] : parsed[1] === 0 && parsed[2] === target[2]);
+      case '~':
+        return cmp >= 0 && parsed[0] === target[0] && parsed[1] === target[1];
+      case '>=':
+        return cmp >= 0;
+      case '<=':
+        return cmp <= 0;
+      case '>':
+        return cmp > 0;
+      case '<':
+        return cmp < 0;
+      default:
+        return cmp === 0;
+    }
+  });
+}
+
+/**
+ * Normalize a skill name for comparison
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Whether a skill is the one a dependency name refers to. Names containing
+ * a slash are full skill ids; others match the skill name or folder name.
+ */
+export function dependencyMatches(name: string, skill: Skill): boolean {
+  if (name.includes('/')) {
+    return skill.id === name || `${skill.repository}/${skill.path}` === name;
+  }
+  const normalized = normalizeName(name);
+  return normalizeName(skill.name) === normalized
+    || normalizeName(skill.path.split('/').pop() ?? '') === normalized;
+}
+
+/**
+ * Installed skills that declare a dependency on the given skill
+ */
+export function findDependents(skill: Skill, installed: InstalledSkill[]): InstalledSkill[] {
+  return installed.filter(other =>
+    other.localPath !== (skill as InstalledSkill).localPath &&
+    (other.dependencies ?? []).some(dep => dependencyMatches(parseDependency(dep).name, skill))
+  );
+}
+
+/**
+ * Skills installed as dependencies that nothing installed depends on anymore
+ */
+export function findOrphanedDependencies(installed: InstalledSkill[]): InstalledSkill[] {
+  return installed.filter(skill => skill.installedAsDependency && findDependents(skill, installed).length === 0);
+}
+
+/**
+ * Resolves the dependencies of a skill into an ordered install plan
+ */
+export class DependencyResolver {
+  /**
+   * @param loadMetadata Loads SKILL.md metadata for a skill that has not
+   * been enriched yet (version and dependencies unknown)
+   */
+  constructor(private loadMetadata: (skill: Skill) => Promise<SkillMetadata | undefined>) {}
+
+  /**
+   * Fill in version and dependencies from SKILL.md if not known yet
+   */
+  private async ensureMetadata(skill: Skill): Promise<void> {
+    if (skill.dependencies !== undefined) {
+      return;
+    }
+    try {
+      const metadata = await this.loadMetadata(skill);
+      skill.version = skill.version ?? metadata?.version;
+      skill.dependencies = metadata?.dependencies ?? [];
+    } catch {
+      skill.dependencies = [];
+    }
+  }
+
+  /**
+   * Build the install plan for a skill. The catalog of all configured
+   * repositories is only loaded if the skill declares dependencies.
+   */
+  public async resolve(
+    root: Skill,
+    getCatalog: () => Promise<Skill[]>,
+    installed: InstalledSkill[]
+  ): Promise<InstallPlan> {
+    const steps: InstallPlanStep[] = [];
+    const problems: DependencyProblem[] = [];
+    const selected = new Map<string, InstallPlanStep>();
+    const visiting: Skill[] = [];
+    let catalog: Skill[] | undefined;
+
+    const visit = async (skill: Skill, requiredBy: string[], constraints: string[]): Promise<void> => {
+      visiting.push(skill);
+      await this.ensureMetadata(skill);
+
+      for (const raw of skill.dependencies ?? []) {
+        const request = parseDependency(raw);
+        const constraintLabel = request.constraint ? ` ${request.constraint}` : '';
+
+        // Dependencies that are already installed are not traversed further
+        const installedMatch = installed.find(s => dependencyMatches(request.name, s));
+        if (installedMatch) {
+          if (request.constraint && !satisfiesConstraint(installedMatch.version, request.constraint)) {
+            problems.push({
+              type: 'conflict',
+              severity: 'error',
+              message: `${skill.name} requires ${request.name}${constraintLabel}, but ${installedMatch.version ?? 'an unversioned copy'} is installed`
+            });
+          } else if (!selected.has(installedMatch.id)) {
+            const step = { skill: installedMatch, requiredBy: [skill.name], constraints: [], alreadyInstalled: true };
+            selected.set(installedMatch.id, step);
+            steps.push(step);
+          }
+          continue;
+        }
+
+        catalog = catalog ?? await getCatalog();
+        const candidates = catalog.filter(c => c.id !== skill.id && dependencyMatches(request.name, c));
+        if (candidates.length === 0) {
+          problems.push({
+            type: 'missing',
+            severity: 'error',
+            message: `${skill.name} requires ${request.raw}, which was not found in any configured repository`
+          });
+          continue;
+        }
+
+        // A cycle: the dependency is still being resolved further up the chain
+        const cycleStart = visiting.findIndex(v => candidates.some(c => c.id === v.id));
+        if (cycleStart !== -1) {
+          const chain = [...visiting.slice(cycleStart), visiting[cycleStart]].map(v => v.name);
+          problems.push({
+            type: 'cycle',
+            severity: 'error',
+            message: `Dependency cycle: ${chain.join(' → ')}`
+          });
+          continue;
+        }
+
+        const existing = candidates.map(c => selected.get(c.id)).find(Boolean);
+        if (existing) {
+          existing.requiredBy.push(skill.name);
+          if (request.constraint) {
+            existing.constraints.push(request.constraint);
+            if (!satisfiesConstraint(existing.skill.version, request.constraint)) {
+              problems.push({
+                type: 'conflict',
+                severity: 'error',
+                message: `${skill.name} requires ${request.name}${constraintLabel}, which conflicts with ${existing.constraints.slice(0, -1).join(', ') || existing.skill.version || 'the selected version'}`
+              });
+            }
+          }
+          continue;
+        }
+
+        if (request.constraint) {
+          await Promise.all(candidates.map(c => this.ensureMetadata(c)));
+        }
+        const satisfying = candidates.filter(c => !request.constraint || satisfiesConstraint(c.version, request.constraint));
+        if (satisfying.length === 0) {
+          const available = candidates.map(c => `${c.version ?? 'unversioned'} in ${c.repository}`).join(', ');
+          problems.push({
+            type: 'conflict',
+            severity: 'error',
+            message: `No version of ${request.name} satisfies${constraintLabel} (required by ${skill.name}; available: ${available})`
+          });
+          continue;
+        }
+
+        // Prefer a candidate from the same repository as the dependent
+        const sameRepo = satisfying.find(c => c.repository === skill.repository);
+        const chosen = sameRepo ?? satisfying[0];
+        if (!sameRepo && satisfying.length > 1) {
+          problems.push({
+            type: 'ambiguous',
+            severity: 'warning',
+            message: `${request.name} exists in ${satisfying.map(c => c.repository).join(', ')}; using ${chosen.repository}`
+          });
+        }
+
+        await visit(chosen, [skill.name], request.constraint ? [request.constraint] : []);
+      }
+
+      visiting.pop();
+
+      // Post-order: a skill is added after everything it depends on
+      if (!selected.has(skill.id)) {
+        const step = { skill, requiredBy, constraints, alreadyInstalled: false };
+        selected.set(skill.id, step);
+        steps.push(step);
+      }
+    };
+
+    await visit(root, [], []);
+    return { steps, problems };
+  }
+}
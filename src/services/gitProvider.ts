@@ -0,0 +1,236 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { Repository, RepositoryTree, ResolvedRef, TreeNode } from '../models/repository';
+import { SourceProvider } from './sourceProvider';
+import { isCommitSha, isValidGitRef } from './repositorySpec';
+
+/** Ref fetched when a remote is not pinned */
+const DEFAULT_REF = 'HEAD';
+
+/** Namespace of the refs that remember what each fetched ref resolved to */
+const REF_NAMESPACE = 'refs/skill-manager';
+
+/** Time limit for a single git command */
+const GIT_TIMEOUT_MS = 120000;
+
+/**
+ * Source provider for plain git remotes (`git+ssh://`, `https://`,
+ * `git@host:path`). Each remote is shallow-fetched into a bare repository
+ * in the cache directory and read with git plumbing commands, so no host
+ * API is needed. Requires `git` on the PATH.
+ */
+export class GitProvider implements SourceProvider {
+  public readonly host = 'git';
+  public readonly storesContent = true;
+  private resolved: Map<string, { commit: string; expiresAt: number }> = new Map();
+  private fetches: Map<string, Promise<void>> = new Map();
+  private offline = false;
+
+  constructor(private cacheDir: string, private getCacheExpiry: () => number) {}
+
+  /**
+   * Whether the last fetch failed and a previously fetched commit was used
+   */
+  public isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Turn a repository URL into something git can fetch from
+   */
+  private getRemoteUrl(url: string): string {
+    return url.replace(/^git\+/i, '');
+  }
+
+  /**
+   * Path of the bare repository a remote is fetched into
+   */
+  private getRepoDir(url: string): string {
+    const key = crypto.createHash('sha1').update(this.getRemoteUrl(url)).digest('hex').slice(0, 16);
+    return path.join(this.cacheDir, key);
+  }
+
+  /**
+   * Run git and resolve to its output
+   */
+  private git(args: string[], cwd?: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        args,
+        {
+          cwd,
+          encoding: 'buffer',
+          maxBuffer: 256 * 1024 * 1024,
+          timeout: GIT_TIMEOUT_MS,
+          // Never block on a credential or host key prompt
+          env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND ?? 'ssh -o BatchMode=yes' }
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            const detail = stderr.toString().trim().split('\n').pop();
+            reject(new Error(`git ${args[0]} failed${detail ? `: ${detail}` : ''}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Create the bare repository for a remote if it does not exist yet
+   */
+  private async ensureRepo(url: string): Promise<string> {
+    const repoDir = this.getRepoDir(url);
+    try {
+      await fs.access(path.join(repoDir, 'HEAD'));
+    } catch {
+      await fs.mkdir(repoDir, { recursive: true });
+      await this.git(['init', '--bare', '--quiet', repoDir]);
+    }
+    return repoDir;
+  }
+
+  /**
+   * Whether a commit is already present in the local repository
+   */
+  private async hasCommit(repoDir: string, commit: string): Promise<boolean> {
+    return this.git(['cat-file', '-e', `${commit}^{commit}`], repoDir).then(() => true, () => false);
+  }
+
+  /**
+   * Reject refs that are not a full commit SHA or a branch or tag name, so
+   * a ref from settings or a lockfile can never be read as a git option
+   */
+  private async checkRef(ref: string): Promise<void> {
+    const valid = isValidGitRef(ref) && (isCommitSha(ref) || ref === DEFAULT_REF ||
+      await this.git(['check-ref-format', '--allow-onelevel', ref]).then(() => true, () => false));
+    if (!valid) {
+      throw new Error(`Invalid git ref "${ref}". Expected a branch, tag or full commit SHA`);
+    }
+  }
+
+  /**
+   * Shallow-fetch a ref and remember the commit it resolved to.
+   * Concurrent fetches of the same ref share one git process.
+   */
+  private fetchRef(url: string, repoDir: string, ref: string): Promise<void> {
+    const key = `${url}#${ref}`;
+    let pending = this.fetches.get(key);
+    if (!pending) {
+      pending = (async () => {
+        await this.git(['fetch', '--quiet', '--depth', '1', '--no-tags', '--', this.getRemoteUrl(url), ref], repoDir);
+        await this.git(['update-ref', '--', `${REF_NAMESPACE}/${ref}`, 'FETCH_HEAD'], repoDir);
+      })().finally(() => this.fetches.delete(key));
+      this.fetches.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Describe the remote as a repository
+   */
+  public async fetchRepository(url: string): Promise<Repository> {
+    const segments = this.getRemoteUrl(url).replace(/\/+$/, '').split(/[/:]/);
+    return {
+      owner: segments[segments.length - 2] ?? '',
+      name: (segments[segments.length - 1] ?? url).replace(/\.git$/, ''),
+      fullName: url,
+      defaultBranch: DEFAULT_REF
+    };
+  }
+
+  /**
+   * Fetch a ref and resolve it to a commit SHA. Results are reused until
+   * the cache expires; without network access the last fetched commit is used.
+   */
+  public async resolveRef(url: string, ref?: string, revalidate = false): Promise<ResolvedRef> {
+    const name = ref || DEFAULT_REF;
+    await this.checkRef(name);
+    const repoDir = await this.ensureRepo(url);
+    
+    if (isCommitSha(name)) {
+      if (!(await this.hasCommit(repoDir, name))) {
+        await this.fetchRef(url, repoDir, name);
+      }
+      return { ref: name, commit: name };
+    }
+    
+    const key = `${url}#${name}`;
+    const cached = this.resolved.get(key);
+    if (cached && cached.expiresAt > Date.now() && !revalidate) {
+      return { ref: name, commit: cached.commit };
+    }
+    
+    try {
+      await this.fetchRef(url, repoDir, name);
+      this.offline = false;
+    } catch (error) {
+      // Fall back to the last fetched commit, however old
+      const previous = await this.git(['rev-parse', '--verify', '--quiet', `${REF_NAMESPACE}/${name}`], repoDir)
+        .catch(() => undefined);
+      if (!previous) {
+        throw error;
+      }
+      this.offline = true;
+    }
+    
+    const commit = (await this.git(['rev-parse', `${REF_NAMESPACE}/${name}`], repoDir)).toString().trim();
+    this.resolved.set(key, { commit, expiresAt: Date.now() + this.getCacheExpiry() });
+    return { ref: name, commit };
+  }
+
+  /**
+   * List the tree of a fetched commit
+   */
+  public async fetchRepositoryTree(url: string, ref?: string, revalidate = false): Promise<RepositoryTree> {
+    const resolved = await this.resolveRef(url, ref, revalidate);
+    const repoDir = this.getRepoDir(url);
+    const output = await this.git(['ls-tree', '-r', '-t', '-l', '-z', resolved.commit], repoDir);
+    const treeSha = (await this.git(['rev-parse', `${resolved.commit}^{tree}`], repoDir)).toString().trim();
+    
+    const nodes: TreeNode[] = [];
+    for (const line of output.toString('utf-8').split('\0')) {
+      // "<mode> <type> <sha> <size>\t<path>"
+      const match = line.match(/^(\d+) (\w+) ([0-9a-f]+) +(-|\d+)\t(.+)$/s);
+      if (!match || (match[2] !== 'blob' && match[2] !== 'tree')) {
+        continue;
+      }
+      nodes.push({
+        path: match[5],
+        mode: match[1],
+        type: match[2],
+        sha: match[3],
+        size: match[4] === '-' ? undefined : Number(match[4]),
+        url: ''
+      });
+    }
+    
+    return { sha: treeSha, url, tree: nodes, truncated: false, ref: resolved.ref, commit: resolved.commit };
+  }
+
+  /**
+   * Read a file as text
+   */
+  public async fetchFileContent(url: string, filePath: string, ref?: string): Promise<string> {
+    return (await this.downloadFile(url, filePath, ref ?? DEFAULT_REF)).toString('utf-8');
+  }
+
+  /**
+   * Read a file at a ref from the fetched objects
+   */
+  public async downloadFile(url: string, filePath: string, ref: string): Promise<Buffer> {
+    const { commit } = await this.resolveRef(url, ref);
+    return this.git(['cat-file', 'blob', `${commit}:${filePath}`], this.getRepoDir(url));
+  }
+
+  /**
+   * Remotes have no generic web view, so point at the remote itself
+   */
+  public getFileUrl(url: string): string {
+    return this.getRemoteUrl(url);
+  }
+}
@@ -0,0 +1,177 @@
+import { Repository, RepositoryTree, ResolvedRef, FileContent, SourceHost, TreeNode } from '../models/repository';
+import { HttpClient } from './httpClient';
+import { SourceProvider, TokenSource, encodePath } from './sourceProvider';
+import { isCommitSha } from './repositorySpec';
+
+/** Tree entries requested per page; Gitea caps recursive trees per response */
+const TREE_PAGE_SIZE = 1000;
+
+/** Upper bound on tree pages fetched for a single repository */
+const MAX_TREE_PAGES = 100;
+
+/**
+ * Tree response of the Gitea API, which pages large recursive trees
+ */
+interface GiteaTree extends RepositoryTree {
+  page?: number;
+  total_count?: number;
+}
+
+/**
+ * Source provider for Gitea and Forgejo
+ */
+export class GiteaProvider implements SourceProvider {
+  public readonly host: string;
+  private apiBase: string;
+  private webBase: string;
+
+  constructor(private client: HttpClient, config: SourceHost, private getToken: TokenSource) {
+    this.host = config.host;
+    this.apiBase = (config.apiUrl ?? `https://${config.host}/api/v1`).replace(/\/+$/, '');
+    this.webBase = this.apiBase.replace(/\/api\/v1$/, '');
+  }
+
+  /**
+   * Build headers for API requests
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    
+    const token = await this.getToken();
+    if (token) {
+      headers['Authorization'] = `token ${token}`;
+    }
+    
+    return headers;
+  }
+
+  /**
+   * Fetch JSON from the API, cached under a key scoped to this host
+   */
+  private async getJson<T>(path: string, cacheKey: string, revalidate = false): Promise<T> {
+    return this.client.getJson<T>(`${this.apiBase}${path}`, `${this.host}|${cacheKey}`, await this.getHeaders(), revalidate);
+  }
+
+  /**
+   * Fetch repository information
+   */
+  public async fetchRepository(slug: string): Promise<Repository> {
+    const data = await this.getJson<{
+      owner: { login: string };
+      name: string;
+      full_name: string;
+      description: string;
+      default_branch: string;
+      updated_at?: string;
+    }>(`/repos/${slug}`, `repo:${slug}`);
+    
+    return {
+      owner: data.owner.login,
+      name: data.name,
+      fullName: data.full_name,
+      description: data.description || undefined,
+      defaultBranch: data.default_branch,
+      updatedAt: data.updated_at ? new Date(data.updated_at) : undefined
+    };
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit SHA
+   */
+  public async resolveRef(slug: string, ref?: string, revalidate = false): Promise<ResolvedRef> {
+    const name = ref || (await this.fetchRepository(slug)).defaultBranch;
+    
+    if (isCommitSha(name)) {
+      return { ref: name, commit: name };
+    }
+    
+    const commits = await this.getJson<{ sha: string }[]>(
+      `/repos/${slug}/commits?sha=${encodeURIComponent(name)}&limit=1&stat=false&files=false`,
+      `commit:${slug}@${name}`,
+      revalidate
+    );
+    if (commits.length === 0) {
+      throw new Error(`Ref not found: ${name}`);
+    }
+    return { ref: name, commit: commits[0].sha };
+  }
+
+  /**
+   * Fetch the repository tree at a ref, following pages until all
+   * entries are loaded. The tree is marked truncated when entries are
+   * missing, or when the page limit was reached while the server still
+   * reported more.
+   */
+  public async fetchRepositoryTree(slug: string, ref?: string, revalidate = false): Promise<RepositoryTree> {
+    const resolved = await this.resolveRef(slug, ref, revalidate);
+    const nodes: TreeNode[] = [];
+    let page: GiteaTree;
+    let pageNumber = 1;
+    
+    do {
+      page = await this.getJson<GiteaTree>(
+        `/repos/${slug}/git/trees/${resolved.commit}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${pageNumber}`,
+        `tree:${slug}@${resolved.commit}#${pageNumber}`
+      );
+      nodes.push(...(page.tree ?? []));
+      pageNumber++;
+    } while (
+      page.truncated &&
+      (page.tree ?? []).length > 0 &&
+      (page.total_count === undefined || nodes.length < page.total_count) &&
+      pageNumber <= MAX_TREE_PAGES
+    );
+    
+    return {
+      sha: page.sha,
+      url: page.url,
+      tree: nodes,
+      truncated: page.total_count !== undefined
+        ? nodes.length < page.total_count
+        : pageNumber > MAX_TREE_PAGES && !!page.truncated && (page.tree ?? []).length > 0,
+      ref: resolved.ref,
+      commit: resolved.commit
+    };
+  }
+
+  /**
+   * Fetch file content through the contents API
+   */
+  public async fetchFileContent(slug: string, path: string, ref?: string): Promise<string> {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const content = await this.getJson<FileContent>(
+      `/repos/${slug}/contents/${encodePath(path)}${query}`,
+      `file:${slug}@${ref ?? ''}:${path}`
+    );
+    
+    if (content.encoding === 'base64') {
+      return Buffer.from(content.content, 'base64').toString('utf-8');
+    }
+    return content.content;
+  }
+
+  /**
+   * Download raw file content
+   */
+  public async downloadFile(slug: string, path: string, ref: string): Promise<Buffer> {
+    return this.client.getBuffer(
+      `${this.apiBase}/repos/${slug}/raw/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+      await this.getHeaders()
+    );
+  }
+
+  /**
+   * Download a tarball of the repository
+   */
+  public async downloadArchive(slug: string, commit: string): Promise<Buffer> {
+    return this.client.getBuffer(`${this.apiBase}/repos/${slug}/archive/${commit}.tar.gz`, await this.getHeaders());
+  }
+
+  /**
+   * Build the web URL for a file
+   */
+  public getFileUrl(slug: string, path: string, ref = 'HEAD'): string {
+    const kind = isCommitSha(ref) ? 'commit' : 'branch';
+    return `${this.webBase}/${slug}/src/${kind}/${ref}/${path}`;
+  }
+}
@@ -0,0 +1,286 @@
+import { Repository, RepositoryTree, ResolvedRef, FileContent, SourceHost } from '../models/repository';
+import { PullRequestDraft, PullRequestResult } from '../models/publish';
+import { HttpClient } from './httpClient';
+import { SourceProvider, TokenSource, encodePath } from './sourceProvider';
+import { GITHUB_HOST, isCommitSha } from './repositorySpec';
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+/** Files requested per GraphQL query */
+const GRAPHQL_BATCH_SIZE = 50;
+
+/**
+ * Response of a batched blob query; each file is aliased f0, f1, ...
+ */
+interface BlobQueryResponse {
+  data?: { repository: Record<string, { text: string | null } | null> | null };
+  errors?: { message: string }[];
+}
+
+/**
+ * Source provider for github.com and GitHub Enterprise Server
+ */
+export class GitHubProvider implements SourceProvider {
+  public readonly host: string;
+  private apiBase: string;
+  private graphqlUrl: string;
+  private webBase: string;
+
+  constructor(private client: HttpClient, config: SourceHost, private getToken: TokenSource) {
+    this.host = config.host;
+    this.apiBase = (config.apiUrl
+      ?? (config.host === GITHUB_HOST ? GITHUB_API_BASE : `https://${config.host}/api/v3`)).replace(/\/+$/, '');
+    this.graphqlUrl = /\/v3$/.test(this.apiBase)
+      ? this.apiBase.replace(/\/v3$/, '/graphql')
+      : `${this.apiBase}/graphql`;
+    this.webBase = config.host === GITHUB_HOST && !config.apiUrl
+      ? 'https://github.com'
+      : this.apiBase.replace(/\/api\/v3$/, '');
+  }
+
+  /**
+   * Whether this is github.com, which serves raw files from a separate host
+   */
+  private isPublicGitHub(): boolean {
+    return this.apiBase === GITHUB_API_BASE;
+  }
+
+  /**
+   * Build headers for API requests
+   */
+  private async getHeaders(accept = 'application/vnd.github+json'): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Accept': accept,
+      'X-GitHub-Api-Version': '2022-11-28'
+    };
+    
+    const token = await this.getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    
+    return headers;
+  }
+
+  /**
+   * Fetch JSON from the API, cached under a key scoped to this host
+   */
+  private async getJson<T>(path: string, cacheKey: string, revalidate = false): Promise<T> {
+    return this.client.getJson<T>(
+      `${this.apiBase}${path}`,
+      this.host === GITHUB_HOST ? cacheKey : `${this.host}|${cacheKey}`,
+      await this.getHeaders(),
+      revalidate
+    );
+  }
+
+  /**
+   * Send a JSON body to the API; write requests are never cached
+   */
+  private async postJson<T>(path: string, body: unknown): Promise<T> {
+    return this.client.postJson<T>(`${this.apiBase}${path}`, body, await this.getHeaders());
+  }
+
+  /**
+   * Fetch repository information
+   */
+  public async fetchRepository(slug: string): Promise<Repository> {
+    const data = await this.getJson<{
+      owner: { login: string };
+      name: string;
+      full_name: string;
+      description: string | null;
+      default_branch: string;
+      updated_at?: string;
+    }>(`/repos/${slug}`, `repo:${slug}`);
+    
+    return {
+      owner: data.owner.login,
+      name: data.name,
+      fullName: data.full_name,
+      description: data.description ?? undefined,
+      defaultBranch: data.default_branch,
+      updatedAt: data.updated_at ? new Date(data.updated_at) : undefined
+    };
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit SHA
+   */
+  public async resolveRef(slug: string, ref?: string, revalidate = false): Promise<ResolvedRef> {
+    const name = ref || (await this.fetchRepository(slug)).defaultBranch;
+    
+    if (isCommitSha(name)) {
+      return { ref: name, commit: name };
+    }
+    
+    const commit = await this.getJson<{ sha: string }>(
+      `/repos/${slug}/commits/${encodeURIComponent(name)}`,
+      `commit:${slug}@${name}`,
+      revalidate
+    );
+    return { ref: name, commit: commit.sha };
+  }
+
+  /**
+   * Fetch the repository tree at a ref
+   */
+  public async fetchRepositoryTree(slug: string, ref?: string, revalidate = false): Promise<RepositoryTree> {
+    const resolved = await this.resolveRef(slug, ref, revalidate);
+    const tree = await this.getJson<RepositoryTree>(
+      `/repos/${slug}/git/trees/${resolved.commit}?recursive=1`,
+      `tree:${slug}@${resolved.commit}`
+    );
+    
+    return { ...tree, ref: resolved.ref, commit: resolved.commit };
+  }
+
+  /**
+   * Fetch a tree object by SHA, recursively or one level deep
+   */
+  public async fetchSubtree(slug: string, treeSha: string, recursive: boolean): Promise<RepositoryTree> {
+    return this.getJson<RepositoryTree>(
+      `/repos/${slug}/git/trees/${treeSha}${recursive ? '?recursive=1' : ''}`,
+      `subtree:${slug}@${treeSha}${recursive ? '' : ':flat'}`
+    );
+  }
+
+  /**
+   * Fetch file content through the contents API
+   */
+  public async fetchFileContent(slug: string, path: string, ref?: string): Promise<string> {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const content = await this.getJson<FileContent>(
+      `/repos/${slug}/contents/${encodePath(path)}${query}`,
+      `file:${slug}@${ref ?? ''}:${path}`
+    );
+    
+    if (content.encoding === 'base64') {
+      return Buffer.from(content.content, 'base64').toString('utf-8');
+    }
+    return content.content;
+  }
+
+  /**
+   * Fetch many files through the GraphQL API, fifty per request. GraphQL
+   * requires authentication, so nothing is fetched without a token.
+   */
+  public async fetchFileContents(slug: string, paths: string[], ref: string): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    const token = await this.getToken();
+    if (!token) {
+      return contents;
+    }
+    
+    const [owner, name] = slug.split('/');
+    for (let i = 0; i < paths.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = paths.slice(i, i + GRAPHQL_BATCH_SIZE);
+      const query = `query($owner: String!, $name: String!, ${batch.map((_, j) => `$e${j}: String!`).join(', ')}) {
+        repository(owner: $owner, name: $name) {
+          ${batch.map((_, j) => `f${j}: object(expression: $e${j}) { ... on Blob { text } }`).join('\n')}
+        }
+      }`;
+      const variables: Record<string, string> = { owner, name };
+      batch.forEach((path, j) => {
+        variables[`e${j}`] = `${ref}:${path}`;
+      });
+      
+      const response = await this.client.postJson<BlobQueryResponse>(
+        this.graphqlUrl,
+        { query, variables },
+        { 'Authorization': `Bearer ${token}` }
+      );
+      const repository = response.data?.repository;
+      if (!repository) {
+        throw new Error(`GraphQL error: ${response.errors?.map(error => error.message).join('; ') ?? 'repository not found'}`);
+      }
+      batch.forEach((path, j) => {
+        const text = repository[`f${j}`]?.text;
+        if (typeof text === 'string') {
+          contents.set(path, text);
+        }
+      });
+    }
+    
+    return contents;
+  }
+
+  /**
+   * Download raw file content. github.com serves it from
+   * raw.githubusercontent.com; Enterprise Server through the contents API.
+   */
+  public async downloadFile(slug: string, path: string, ref: string): Promise<Buffer> {
+    if (this.isPublicGitHub()) {
+      const token = await this.getToken();
+      return this.client.getBuffer(
+        `https://raw.githubusercontent.com/${slug}/${ref}/${encodePath(path)}`,
+        token ? { 'Authorization': `Bearer ${token}` } : {}
+      );
+    }
+    return this.client.getBuffer(
+      `${this.apiBase}/repos/${slug}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+      await this.getHeaders('application/vnd.github.raw')
+    );
+  }
+
+  /**
+   * Download a tarball of the repository; github.com redirects to codeload,
+   * which does not count against the API rate limit
+   */
+  public async downloadArchive(slug: string, commit: string): Promise<Buffer> {
+    return this.client.getBuffer(`${this.apiBase}/repos/${slug}/tarball/${commit}`, await this.getHeaders());
+  }
+
+  /**
+   * Build the web URL for a file
+   */
+  public getFileUrl(slug: string, path: string, ref = 'HEAD'): string {
+    return `${this.webBase}/${slug}/blob/${ref}/${path}`;
+  }
+
+  /**
+   * Commit files to a new branch through the Git Data API (blobs, a tree
+   * on top of the base commit's tree, a commit and a ref) and open a pull
+   * request from it
+   */
+  public async createPullRequest(slug: string, draft: PullRequestDraft): Promise<PullRequestResult> {
+    const base = draft.base ?? (await this.fetchRepository(slug)).defaultBranch;
+    const { commit: baseCommit } = await this.resolveRef(slug, base, true);
+    const parent = await this.getJson<{ tree: { sha: string } }>(
+      `/repos/${slug}/git/commits/${baseCommit}`,
+      `gitcommit:${slug}@${baseCommit}`
+    );
+    
+    const entries: { path: string; mode: string; type: 'blob'; sha: string | null }[] = [];
+    for (const file of draft.files) {
+      const blob = await this.postJson<{ sha: string }>(`/repos/${slug}/git/blobs`, {
+        content: file.content.toString('base64'),
+        encoding: 'base64'
+      });
+      entries.push({ path: file.path, mode: file.executable ? '100755' : '100644', type: 'blob', sha: blob.sha });
+    }
+    for (const path of draft.deletePaths ?? []) {
+      // A null SHA removes the path from the base tree
+      entries.push({ path, mode: '100644', type: 'blob', sha: null });
+    }
+    
+    const tree = await this.postJson<{ sha: string }>(`/repos/${slug}/git/trees`, {
+      base_tree: parent.tree.sha,
+      tree: entries
+    });
+    const commit = await this.postJson<{ sha: string }>(`/repos/${slug}/git/commits`, {
+      message: draft.message,
+      tree: tree.sha,
+      parents: [baseCommit]
+    });
+    await this.postJson(`/repos/${slug}/git/refs`, { ref: `refs/heads/${draft.branch}`, sha: commit.sha });
+    const pull = await this.postJson<{ number: number; html_url: string }>(`/repos/${slug}/pulls`, {
+      title: draft.title,
+      head: draft.branch,
+      base,
+      body: draft.body
+    });
+    
+    return { number: pull.number, url: pull.html_url, branch: draft.branch, commit: commit.sha };
+  }
+}
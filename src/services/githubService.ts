@@ -1,27 +1,60 @@
 import * as vscode from 'vscode';
-import fetch from 'node-fetch';
-import { RepositoryTree, TreeNode, FileContent, RateLimitInfo } from '../models/repository';
+import * as path from 'path';
+import {
+  Repository,
+  RepositorySpec,
+  RepositoryTree,
+  ResolvedRef,
+  RateLimitInfo,
+  SourceHost
+} from '../models/repository';
 import { Skill, SkillFile } from '../models/skill';
-
-const GITHUB_API_BASE = 'https://api.github.com';
-
-/**
- * Cache entry with expiration
- */
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-  etag?: string;
-}
+import { CatalogSnapshot } from '../models/catalog';
+import { PullRequestDraft, PullRequestResult } from '../models/publish';
+import { parseRepositorySpec, splitRepositoryId, isUrlSource, isFileSource, isCommitSha, GITHUB_HOST } from './repositorySpec';
+import { CatalogStore } from './catalogStore';
+import { HttpClient } from './httpClient';
+import { SourceProvider, walkSubtrees } from './sourceProvider';
+import { GitHubProvider } from './githubProvider';
+import { GiteaProvider } from './giteaProvider';
+import { LocalProvider } from './localProvider';
+import { GitProvider } from './gitProvider';
+import { CredentialService } from './credentialService';
+import { readTarball } from './tarball';
+import { gitBlobSha } from './contentHash';
 
 /**
- * Service for interacting with GitHub API to fetch skills from repositories
+ * Service for fetching skills from the configured repositories. Requests
+ * are routed to the source provider of each repository's host (github.com,
+ * GitHub Enterprise Server or Gitea/Forgejo), or to the local folder and
+ * git remote providers for URL sources.
  */
 export class GitHubService {
-  private cache: Map<string, CacheEntry<unknown>> = new Map();
-  private rateLimitInfo?: RateLimitInfo;
+  private client: HttpClient;
+  private store: CatalogStore;
+  private providers: Map<string, SourceProvider> = new Map();
+  private providersKey?: string;
+  private snapshots: Map<string, Promise<RepositoryTree | undefined>> = new Map();
+  private incompleteSources: string[] = [];
+  private localProvider = new LocalProvider();
+  private gitProvider: GitProvider;
+
+  constructor(private context: vscode.ExtensionContext, private credentials: CredentialService) {
+    this.store = new CatalogStore(context.globalStorageUri.fsPath);
+    this.client = new HttpClient(this.store, () => this.getConfig().cacheExpiry);
+    this.gitProvider = new GitProvider(
+      path.join(context.globalStorageUri.fsPath, 'git'),
+      () => this.getConfig().cacheExpiry
+    );
+  }
 
-  constructor(private context: vscode.ExtensionContext) {}
+  /**
+   * Whether the last request failed for lack of network access. Such
+   * requests are answered from the cache when it has a copy.
+   */
+  public isOffline(): boolean {
+    return this.client.isOffline() || this.gitProvider.isOffline();
+  }
 
   /**
    * Get configuration values
@@ -29,148 +62,376 @@ export class GitHubService {
   private getConfig() {
     const config = vscode.workspace.getConfiguration('skillManager');
     return {
-      token: config.get<string>('githubToken', ''),
       cacheExpiry: config.get<number>('cacheExpiry', 3600) * 1000, // Convert to ms
       repositories: config.get<string[]>('repositories', [
         'rominirani/antigravity-skills',
         'sickn33/antigravity-awesome-skills'
-      ])
+      ]),
+      // Hosts decide where tokens are sent, so workspace settings cannot set them
+      hosts: config.inspect<SourceHost[]>('hosts')?.globalValue ?? [],
+      downloadArchives: config.get<boolean>('downloadArchives', true)
     };
   }
 
   /**
-   * Build headers for GitHub API requests
+   * Get the provider for a host, rebuilding all providers when the host
+   * configuration has changed since they were created
    */
-  private getHeaders(etag?: string): Record<string, string> {
-    const { token } = this.getConfig();
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'Skill-Manager-VSCode-Extension'
-    };
+  private getProvider(host: string): SourceProvider {
+    const { hosts } = this.getConfig();
+    const key = JSON.stringify(hosts);
+    if (key !== this.providersKey) {
+      this.providers.clear();
+      this.providersKey = key;
+    }
     
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
+    let provider = this.providers.get(host);
+    if (!provider) {
+      provider = this.createProvider(host, hosts);
+      this.providers.set(host, provider);
     }
+    return provider;
+  }
+
+  /**
+   * Create the provider for a host from its `skillManager.hosts` entry
+   */
+  private createProvider(host: string, hosts: SourceHost[]): SourceProvider {
+    const entry = hosts.find(candidate => candidate.host?.toLowerCase() === host);
+    const getToken = () => this.credentials.getToken(host);
     
-    if (etag) {
-      headers['If-None-Match'] = etag;
+    if (host === GITHUB_HOST) {
+      return new GitHubProvider(this.client, { host, type: 'github', apiUrl: entry?.apiUrl }, getToken);
+    }
+    if (!entry) {
+      throw new Error(`No source configured for host ${host}. Add it to the skillManager.hosts setting.`);
     }
     
-    return headers;
+    const config: SourceHost = { ...entry, host };
+    switch (entry.type) {
+      case 'github':
+        return new GitHubProvider(this.client, config, getToken);
+      case 'gitea':
+        return new GiteaProvider(this.client, config, getToken);
+      default:
+        throw new Error(`Unsupported source type "${entry.type}" for host ${host}`);
+    }
+  }
+
+  /**
+   * API hosts skills can be fetched from: github.com and every configured host
+   */
+  public getSourceHosts(): SourceHost[] {
+    const sources: SourceHost[] = [{ host: GITHUB_HOST, type: 'github' }];
+    for (const entry of this.getConfig().hosts) {
+      const host = entry.host?.toLowerCase();
+      if (host && host !== GITHUB_HOST && !sources.some(source => source.host === host)) {
+        sources.push({ ...entry, host });
+      }
+    }
+    return sources;
   }
 
   /**
-   * Update rate limit info from response headers
+   * Split a repository id and get the provider of its host. URL sources
+   * are passed to their provider whole.
    */
-  private updateRateLimit(headers: Headers): void {
-    const limit = headers.get('x-ratelimit-limit');
-    const remaining = headers.get('x-ratelimit-remaining');
-    const reset = headers.get('x-ratelimit-reset');
+  private route(repo: string): { provider: SourceProvider; slug: string } {
+    if (isUrlSource(repo)) {
+      return { provider: isFileSource(repo) ? this.localProvider : this.gitProvider, slug: repo };
+    }
+    const { host, slug } = splitRepositoryId(repo);
+    return { provider: this.getProvider(host), slug };
+  }
+
+  /**
+   * Parse the configured repositories, skipping (and reporting) invalid entries
+   */
+  public getRepositorySpecs(): RepositorySpec[] {
+    const specs: RepositorySpec[] = [];
     
-    if (limit && remaining && reset) {
-      this.rateLimitInfo = {
-        limit: parseInt(limit, 10),
-        remaining: parseInt(remaining, 10),
-        reset: new Date(parseInt(reset, 10) * 1000)
-      };
+    for (const entry of this.getConfig().repositories) {
+      try {
+        specs.push(parseRepositorySpec(entry));
+      } catch (error) {
+        vscode.window.showWarningMessage(error instanceof Error ? error.message : String(error));
+      }
     }
+    
+    return specs;
+  }
+
+  /**
+   * Get the ref a repository is pinned to in configuration, if any
+   */
+  public getConfiguredRef(repo: string): string | undefined {
+    return this.getRepositorySpecs().find(spec => spec.fullName === repo)?.ref;
   }
 
   /**
-   * Get current rate limit status
+   * Get the rate limit reported by the most recent response
    */
   public getRateLimitInfo(): RateLimitInfo | undefined {
-    return this.rateLimitInfo;
+    return this.client.getRateLimitInfo();
+  }
+
+  /**
+   * Fetch repository information
+   */
+  public async fetchRepository(repo: string): Promise<Repository> {
+    const { provider, slug } = this.route(repo);
+    return provider.fetchRepository(slug);
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit SHA.
+   * Falls back to the repository's default branch when no ref is given.
+   */
+  public async resolveRef(repo: string, ref?: string, revalidate = false): Promise<ResolvedRef> {
+    const { provider, slug } = this.route(repo);
+    return provider.resolveRef(slug, ref, revalidate);
   }
 
   /**
-   * Fetch data from cache or API
+   * Fetch repository tree (all files and directories) at a ref.
+   * Revalidating re-resolves the ref, so branches pick up new commits.
    */
-  private async fetchWithCache<T>(
-    url: string,
-    cacheKey: string
-  ): Promise<T> {
-    const { cacheExpiry } = this.getConfig();
-    const cached = this.cache.get(cacheKey) as CacheEntry<T> | undefined;
+  public async fetchRepositoryTree(repo: string, ref?: string, revalidate = false): Promise<RepositoryTree> {
+    const { provider, slug } = this.route(repo);
+    const tree = await provider.fetchRepositoryTree(slug, ref, revalidate);
+    return tree.truncated ? this.completeTree(repo, provider, slug, tree) : tree;
+  }
+
+  /**
+   * Recover the entries a host left out of a truncated tree listing: from
+   * the repository archive where possible, otherwise by listing subtrees
+   * separately. The result stays marked truncated if neither works.
+   */
+  private async completeTree(
+    repo: string,
+    provider: SourceProvider,
+    slug: string,
+    tree: RepositoryTree
+  ): Promise<RepositoryTree> {
+    if (tree.commit) {
+      const snapshot = await this.ensureSnapshot(repo, tree.commit).catch(error => {
+        console.error(`Failed to download archive of ${repo}:`, error);
+        return undefined;
+      });
+      if (snapshot) {
+        return { ...tree, tree: snapshot.tree, truncated: false };
+      }
+    }
     
-    // Return cached data if not expired
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.data;
+    const fetchSubtree = provider.fetchSubtree?.bind(provider);
+    if (fetchSubtree) {
+      try {
+        const nodes = await walkSubtrees((sha, recursive) => fetchSubtree(slug, sha, recursive), tree.sha, '', false);
+        return { ...tree, tree: nodes, truncated: false };
+      } catch (error) {
+        console.error(`Failed to list subtrees of ${repo}:`, error);
+      }
     }
+    return tree;
+  }
 
-    // Make request with conditional headers
-    const response = await fetch(url, {
-      headers: this.getHeaders(cached?.etag)
-    });
-    
-    this.updateRateLimit(response.headers as any);
+  /**
+   * Fetch file content from repository
+   */
+  public async fetchFileContent(repo: string, path: string, ref?: string): Promise<string> {
+    const { provider, slug } = this.route(repo);
+    return provider.fetchFileContent(slug, path, ref);
+  }
+
+  /**
+   * Fetch the text content of many files of a repository at a ref. Files
+   * with a known blob SHA are served from the blob cache when possible; the
+   * rest are fetched in batches where the host supports it and one by one
+   * otherwise. Files that could not be fetched are left out.
+   */
+  public async fetchFileContents(
+    repo: string,
+    files: { path: string; sha?: string }[],
+    ref: string
+  ): Promise<Map<string, string>> {
+    const { provider, slug } = this.route(repo);
+    const contents = new Map<string, string>();
+    const useBlobCache = !provider.storesContent;
     
-    // Handle 304 Not Modified
-    if (response.status === 304 && cached) {
-      cached.expiresAt = Date.now() + cacheExpiry;
-      return cached.data;
+    if (useBlobCache && isCommitSha(ref) && files.some(file => file.sha)) {
+      // One archive download fills the blob cache for every file
+      await this.ensureSnapshot(repo, ref).catch(error => {
+        console.error(`Failed to download archive of ${repo}:`, error);
+      });
     }
     
-    if (!response.ok) {
-      if (response.status === 403 && this.rateLimitInfo?.remaining === 0) {
-        throw new Error(`GitHub API rate limit exceeded. Resets at ${this.rateLimitInfo.reset.toLocaleTimeString()}`);
+    const remaining: { path: string; sha?: string }[] = [];
+    for (const file of files) {
+      const cached = useBlobCache && file.sha ? await this.store.readBlob(file.sha) : undefined;
+      if (cached) {
+        contents.set(file.path, cached.toString('utf-8'));
+      } else {
+        remaining.push(file);
       }
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
     }
     
-    const data = await response.json() as T;
+    const fetched = new Map<string, string>();
+    if (remaining.length > 0 && provider.fetchFileContents) {
+      try {
+        for (const [path, text] of await provider.fetchFileContents(slug, remaining.map(file => file.path), ref)) {
+          fetched.set(path, text);
+        }
+      } catch (error) {
+        console.error(`Batched fetch from ${repo} failed, fetching files one by one:`, error);
+      }
+    }
     
-    // Cache the response
-    this.cache.set(cacheKey, {
-      data,
-      expiresAt: Date.now() + cacheExpiry,
-      etag: response.headers.get('etag') || undefined
-    });
+    await Promise.all(remaining.map(async file => {
+      let text = fetched.get(file.path);
+      if (text === undefined) {
+        try {
+          text = await provider.fetchFileContent(slug, file.path, ref);
+        } catch {
+          return;
+        }
+      }
+      contents.set(file.path, text);
+      if (useBlobCache && file.sha) {
+        // Only stored if the text round-trips to the same blob
+        await this.store.writeBlob(file.sha, Buffer.from(text, 'utf-8')).catch(() => false);
+      }
+    }));
     
-    return data;
+    return contents;
   }
 
   /**
-   * Fetch repository tree (all files and directories)
+   * Download raw file content at a ref. Files with a known blob SHA are
+   * served from the on-disk blob cache when possible and added to it
+   * otherwise, so previously fetched skills install without network access.
    */
-  public async fetchRepositoryTree(repo: string): Promise<RepositoryTree> {
-    const url = `${GITHUB_API_BASE}/repos/${repo}/git/trees/main?recursive=1`;
-    return this.fetchWithCache<RepositoryTree>(url, `tree:${repo}`);
+  public async downloadFile(repo: string, path: string, ref: string, sha?: string): Promise<Buffer> {
+    const { provider, slug } = this.route(repo);
+    if (provider.storesContent) {
+      return provider.downloadFile(slug, path, ref);
+    }
+    
+    if (sha) {
+      const cached = await this.store.readBlob(sha);
+      if (cached) {
+        return cached;
+      }
+    }
+    
+    let content: Buffer;
+    try {
+      content = await provider.downloadFile(slug, path, ref);
+    } catch {
+      if (this.client.isOffline()) {
+        throw new Error(`Failed to download file: ${path} (offline and not cached)`);
+      }
+      throw new Error(`Failed to download file: ${path}`);
+    }
+    
+    if (sha) {
+      await this.store.writeBlob(sha, content).catch(error => {
+        console.error(`Failed to cache ${path}:`, error);
+      });
+    }
+    return content;
   }
 
   /**
-   * Fetch file content from repository
+   * Make sure a snapshot of a repository at a commit is available locally,
+   * downloading the repository archive once per commit and adding its files
+   * to the blob cache. Later reads of those files by SHA need no requests.
+   * Resolves to the snapshot's tree, or undefined when archives are turned
+   * off or the source does not offer them.
    */
-  public async fetchFileContent(repo: string, path: string): Promise<string> {
-    const url = `${GITHUB_API_BASE}/repos/${repo}/contents/${path}`;
-    const content = await this.fetchWithCache<FileContent>(url, `file:${repo}:${path}`);
+  public async ensureSnapshot(repo: string, commit: string): Promise<RepositoryTree | undefined> {
+    const { provider, slug } = this.route(repo);
+    const downloadArchive = provider.downloadArchive?.bind(provider);
+    if (!downloadArchive || !this.getConfig().downloadArchives) {
+      return undefined;
+    }
     
-    if (content.encoding === 'base64') {
-      return Buffer.from(content.content, 'base64').toString('utf-8');
+    const key = `${repo}@${commit}`;
+    let pending = this.snapshots.get(key);
+    if (!pending) {
+      pending = this.loadOrDownloadSnapshot(repo, commit, () => downloadArchive(slug, commit));
+      this.snapshots.set(key, pending);
+      // Keep successful snapshots for the session; retry failed ones next time
+      pending.catch(() => this.snapshots.delete(key));
     }
-    return content.content;
+    return pending;
   }
 
   /**
-   * Download raw file content
+   * Load a saved snapshot, or download, extract and save one
    */
-  public async downloadFile(repo: string, path: string): Promise<Buffer> {
-    const url = `https://raw.githubusercontent.com/${repo}/main/${path}`;
-    const response = await fetch(url);
+  private async loadOrDownloadSnapshot(
+    repo: string,
+    commit: string,
+    download: () => Promise<Buffer>
+  ): Promise<RepositoryTree> {
+    const saved = await this.store.loadSnapshot(repo, commit);
+    if (saved) {
+      return saved;
+    }
     
-    if (!response.ok) {
-      throw new Error(`Failed to download file: ${path}`);
+    const entries = readTarball(await download());
+    const tree: RepositoryTree = { sha: commit, url: '', tree: [], truncated: false, commit };
+    for (const entry of entries) {
+      if (entry.type === 'directory' || !entry.content) {
+        tree.tree.push({ path: entry.path, mode: '040000', type: 'tree', sha: '', url: '' });
+        continue;
+      }
+      const sha = gitBlobSha(entry.content);
+      await this.store.writeBlob(sha, entry.content);
+      tree.tree.push({
+        path: entry.path,
+        mode: entry.mode & 0o111 ? '100755' : '100644',
+        type: 'blob',
+        sha,
+        size: entry.content.length,
+        url: ''
+      });
     }
     
-    return Buffer.from(await response.arrayBuffer());
+    await this.store.saveSnapshot(repo, commit, tree);
+    return tree;
+  }
+
+  /**
+   * Build the web URL for a file in a repository
+   */
+  public getFileUrl(repo: string, path: string, ref = 'HEAD'): string {
+    const { provider, slug } = this.route(repo);
+    return provider.getFileUrl(slug, path, ref);
+  }
+
+  /**
+   * Commit files to a new branch of a repository and open a pull request
+   */
+  public async createPullRequest(repo: string, draft: PullRequestDraft): Promise<PullRequestResult> {
+    const { provider, slug } = this.route(repo);
+    if (!provider.createPullRequest) {
+      throw new Error(`Publishing is not supported for ${repo}; only GitHub repositories can receive pull requests`);
+    }
+    return provider.createPullRequest(slug, draft);
   }
 
   /**
    * Find all skill directories in a repository
    */
-  public async findSkillDirectories(repo: string): Promise<string[]> {
-    const tree = await this.fetchRepositoryTree(repo);
+  public async findSkillDirectories(repo: string, ref?: string): Promise<string[]> {
+    return this.getSkillDirectories(await this.fetchRepositoryTree(repo, ref));
+  }
+
+  /**
+   * Find all skill directories in a repository tree, whichever source it came from
+   */
+  public getSkillDirectories(tree: RepositoryTree): string[] {
     const skillDirs: string[] = [];
     
     // Find all directories containing SKILL.md
@@ -217,21 +478,42 @@ export class GitHubService {
   }
 
   /**
-   * Fetch all skills from configured repositories
+   * Get blob SHAs of every file in a skill directory, including nested ones,
+   * keyed by path relative to the skill root
+   */
+  public getSkillFileShas(tree: RepositoryTree, skillPath: string): Record<string, string> {
+    const prefix = skillPath ? `${skillPath}/` : '';
+    const shas: Record<string, string> = {};
+    
+    for (const node of tree.tree) {
+      if (node.type === 'blob' && node.path.startsWith(prefix)) {
+        shas[node.path.slice(prefix.length)] = node.sha;
+      }
+    }
+    
+    return shas;
+  }
+
+  /**
+   * Fetch all skills from configured repositories, across all hosts
    */
   public async fetchAllSkills(
     onProgress?: (current: number, total: number, repo: string) => void
   ): Promise<Skill[]> {
-    const { repositories } = this.getConfig();
+    const repositories = this.getRepositorySpecs();
     const allSkills: Skill[] = [];
+    const incomplete: string[] = [];
     
     for (let i = 0; i < repositories.length; i++) {
-      const repo = repositories[i];
+      const { fullName: repo, ref } = repositories[i];
       onProgress?.(i, repositories.length, repo);
       
       try {
-        const tree = await this.fetchRepositoryTree(repo);
-        const skillDirs = await this.findSkillDirectories(repo);
+        const tree = await this.fetchRepositoryTree(repo, ref);
+        const skillDirs = this.getSkillDirectories(tree);
+        if (tree.truncated) {
+          incomplete.push(repo);
+        }
         
         for (const dir of skillDirs) {
           const skillId = `${repo}/${dir || 'root'}`;
@@ -244,7 +526,10 @@ export class GitHubService {
             description: '',
             repository: repo,
             path: dir,
-            files
+            files,
+            sourceVersion: tree.sha,
+            ref: tree.ref,
+            commit: tree.commit
           });
         }
       } catch (error) {
@@ -253,14 +538,43 @@ export class GitHubService {
       }
     }
     
+    this.incompleteSources = incomplete;
     onProgress?.(repositories.length, repositories.length, 'Complete');
     return allSkills;
   }
 
   /**
-   * Clear the cache
+   * Repositories whose listing was still truncated in the last
+   * `fetchAllSkills`, so some of their skills may be missing
+   */
+  public getIncompleteSources(): string[] {
+    return this.incompleteSources;
+  }
+
+  /**
+   * Load the catalog saved by the last successful sync
+   */
+  public async getCatalogSnapshot(): Promise<CatalogSnapshot | undefined> {
+    return this.store.loadCatalog();
+  }
+
+  /**
+   * Save a loaded catalog for offline use
+   */
+  public async saveCatalogSnapshot(skills: Skill[]): Promise<CatalogSnapshot> {
+    const snapshot = await this.store.saveCatalog(skills, this.getConfig().repositories);
+    // Keep the blob cache from growing with every commit ever downloaded
+    await this.store.pruneBlobs().catch(error => {
+      console.error('Failed to prune the file cache:', error);
+    });
+    return snapshot;
+  }
+
+  /**
+   * Clear cached API responses in memory and on disk. The catalog snapshot
+   * and downloaded files are kept for offline use.
    */
   public clearCache(): void {
-    this.cache.clear();
+    this.client.clear();
   }
 }
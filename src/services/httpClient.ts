@@ -0,0 +1,217 @@
+import { RateLimitInfo } from '../models/repository';
+import { CacheEntry } from '../models/catalog';
+import { CatalogStore } from './catalogStore';
+import { RequestScheduler, RateLimitError } from './requestScheduler';
+
+/** Delay before writing the response cache to disk after it changes */
+const PERSIST_DEBOUNCE_MS = 1000;
+
+const USER_AGENT = 'Skill-Manager-VSCode-Extension';
+
+/**
+ * A request that reached the server but was answered with an error status
+ */
+export class HttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * HTTP client shared by all source providers. Requests go through the
+ * scheduler; JSON responses are cached with their ETags, persisted to disk
+ * and served from the cache when the network is unavailable or the host's
+ * rate limit is exhausted.
+ */
+export class HttpClient {
+  private cache: Map<string, CacheEntry<unknown>> = new Map();
+  private hydrated: Promise<void>;
+  private persistTimer?: NodeJS.Timeout;
+  private offline = false;
+
+  constructor(
+    private store: CatalogStore | undefined,
+    private getCacheExpiry: () => number,
+    private scheduler = new RequestScheduler()
+  ) {
+    this.hydrated = this.hydrateCache();
+  }
+
+  /**
+   * Load responses persisted by a previous session into the cache
+   */
+  private async hydrateCache(): Promise<void> {
+    const entries = await this.store?.loadHttpCache() ?? {};
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!this.cache.has(key)) {
+        this.cache.set(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Write the cache to disk once a burst of requests has settled
+   */
+  private schedulePersist(): void {
+    if (!this.store) {
+      return;
+    }
+    const store = this.store;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      store.saveHttpCache(Object.fromEntries(this.cache)).catch(error => {
+        console.error('Failed to persist response cache:', error);
+      });
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  /**
+   * Whether the last request failed for lack of network access. Such
+   * requests are answered from the cache when it has a copy.
+   */
+  public isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Get the rate limit reported by the most recent response
+   */
+  public getRateLimitInfo(): RateLimitInfo | undefined {
+    return this.scheduler.getRateLimitInfo();
+  }
+
+  /**
+   * Fetch JSON from cache or network
+   */
+  public async getJson<T>(
+    url: string,
+    cacheKey: string,
+    headers: Record<string, string>,
+    revalidate = false
+  ): Promise<T> {
+    await this.hydrated;
+    const cached = this.cache.get(cacheKey) as CacheEntry<T> | undefined;
+    
+    // Return cached data if not expired (a revalidation still sends the ETag)
+    if (cached && cached.expiresAt > Date.now() && !revalidate) {
+      return cached.data;
+    }
+
+    // Make request with conditional headers
+    let response;
+    try {
+      response = await this.scheduler.fetch(url, {
+        headers: {
+          'User-Agent': USER_AGENT,
+          ...headers,
+          ...(cached?.etag ? { 'If-None-Match': cached.etag } : {})
+        }
+      });
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        // Not sent: the last known response is better than nothing
+        if (cached) {
+          return cached.data;
+        }
+        throw error;
+      }
+      // No network: fall back to the last known response, however old
+      this.offline = true;
+      if (cached) {
+        return cached.data;
+      }
+      throw error;
+    }
+    this.offline = false;
+    
+    // Handle 304 Not Modified
+    if (response.status === 304 && cached) {
+      cached.expiresAt = Date.now() + this.getCacheExpiry();
+      this.schedulePersist();
+      return cached.data;
+    }
+    
+    if (!response.ok) {
+      const rateLimit = this.scheduler.getRateLimitInfo(new URL(url).host);
+      if ((response.status === 403 || response.status === 429) && (rateLimit?.remaining === 0 || response.headers.get('retry-after'))) {
+        if (cached) {
+          return cached.data;
+        }
+        const resetAt = rateLimit?.remaining === 0 ? rateLimit.reset : undefined;
+        throw new HttpError(`API rate limit exceeded.${resetAt ? ` Resets at ${resetAt.toLocaleTimeString()}` : ''}`, response.status);
+      }
+      throw new HttpError(`API error: ${response.status} ${response.statusText}`, response.status);
+    }
+    
+    const data = await response.json() as T;
+    
+    // Cache the response
+    this.cache.set(cacheKey, {
+      data,
+      expiresAt: Date.now() + this.getCacheExpiry(),
+      etag: response.headers.get('etag') || undefined
+    });
+    this.schedulePersist();
+    
+    return data;
+  }
+
+  /**
+   * Send a JSON request body and parse the JSON response, without caching
+   */
+  public async postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+    let response;
+    try {
+      response = await this.scheduler.fetch(url, {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'User-Agent': USER_AGENT, 'Content-Type': 'application/json', ...headers }
+      });
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) {
+        this.offline = true;
+      }
+      throw error;
+    }
+    this.offline = false;
+    
+    if (!response.ok) {
+      throw new HttpError(`API error: ${response.status} ${response.statusText}`, response.status);
+    }
+    return await response.json() as T;
+  }
+
+  /**
+   * Download a response body without caching it
+   */
+  public async getBuffer(url: string, headers: Record<string, string> = {}): Promise<Buffer> {
+    let response;
+    try {
+      response = await this.scheduler.fetch(url, { headers: { 'User-Agent': USER_AGENT, ...headers } });
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) {
+        this.offline = true;
+      }
+      throw error;
+    }
+    this.offline = false;
+    
+    if (!response.ok) {
+      throw new HttpError(`Download failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Clear cached responses in memory and on disk
+   */
+  public clear(): void {
+    this.cache.clear();
+    clearTimeout(this.persistTimer);
+    this.store?.clearHttpCache().catch(error => {
+      console.error('Failed to clear response cache:', error);
+    });
+  }
+}
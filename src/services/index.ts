@@ -1,3 +1,8 @@
 export { GitHubService } from './githubService';
 export { SkillParser } from './skillParser';
+export { SkillLinter } from './skillLinter';
 export { SkillInstaller } from './skillInstaller';
+export { LockfileService } from './lockfileService';
+export { DependencyResolver } from './dependencyResolver';
+export { SkillSearchIndex } from './skillSearch';
+export { CredentialService } from './credentialService';
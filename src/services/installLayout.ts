@@ -0,0 +1,82 @@
+import { Skill } from '../models/skill';
+
+/** Characters not allowed in file names on at least one platform */
+const RESERVED_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+
+/** Device names Windows refuses as file names, with or without an extension */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+/** Longest folder name produced, well below common file system limits */
+const MAX_FOLDER_NAME_LENGTH = 80;
+
+/**
+ * Turn a skill name into a folder name that is safe on every platform:
+ * lowercase, hyphens for whitespace and reserved characters, no `..`, no
+ * leading or trailing dots and never a reserved device name
+ */
+export function sanitizeFolderName(name: string): string {
+  const folder = name
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(RESERVED_CHARACTERS, '-')
+    .replace(/\s+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/-{2,}/g, '-')
+    .slice(0, MAX_FOLDER_NAME_LENGTH)
+    .replace(/^[-.]+|[-.]+$/g, '');
+
+  if (!folder) {
+    return 'skill';
+  }
+  return RESERVED_NAMES.test(folder) ? `${folder}-skill` : folder;
+}
+
+/**
+ * Folder a skill is installed into when nothing else occupies it
+ */
+export function getSkillFolderName(skill: Pick<Skill, 'name'>): string {
+  return sanitizeFolderName(skill.name);
+}
+
+/**
+ * Folder names to try when the preferred folder is taken by another skill:
+ * the name suffixed with the repository owner, then numbered
+ */
+export function* getAlternateFolderNames(skill: Pick<Skill, 'name' | 'repository'>): Generator<string> {
+  const base = getSkillFolderName(skill);
+  const segments = skill.repository.split('/').filter(Boolean);
+  const owner = sanitizeFolderName(segments.length > 1 ? segments[segments.length - 2] : segments[0] ?? 'skill');
+  const renamed = sanitizeFolderName(`${base}-${owner}`);
+
+  yield renamed;
+  for (let i = 2; ; i++) {
+    yield `${renamed}-${i}`;
+  }
+}
+
+/**
+ * Whether two skills are the same skill: the same catalog id, or the same
+ * folder of the same repository. Local skills without install metadata are
+ * only matched by id.
+ */
+export function isSameSkill(
+  a: Pick<Skill, 'id' | 'repository' | 'path'>,
+  b: Pick<Skill, 'id' | 'repository' | 'path'>
+): boolean {
+  if (a.id === b.id) {
+    return true;
+  }
+  return a.repository !== 'local' && a.repository === b.repository && a.path === b.path;
+}
+
+/**
+ * Whether a repository file path stays inside the skill folder once
+ * written: relative, with no `.`, `..` or empty segments and no characters
+ * that act as separators or terminators on some platform
+ */
+export function isSafeRelativePath(relativePath: string): boolean {
+  if (!relativePath || relativePath.startsWith('/') || /[\\\u0000]/.test(relativePath) || /^[a-z]:/i.test(relativePath)) {
+    return false;
+  }
+  return relativePath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
@@ -0,0 +1,66 @@
+/**
+ * How an update treats the files of an installed skill that were edited
+ * locally
+ */
+export interface LocalMergePlan {
+  /** Files edited only locally: kept as they are, or left deleted */
+  keepLocal: string[];
+  /** Files changed both locally and upstream, in different ways */
+  conflicts: string[];
+}
+
+/**
+ * Files that differ between an installed skill and its upstream version
+ */
+export interface FileShaDiff {
+  /** Files only upstream */
+  added: string[];
+  /** Files only in the installed version */
+  removed: string[];
+  /** Files on both sides with different content */
+  changed: string[];
+}
+
+/**
+ * Compare the file SHAs recorded at install time with the upstream ones,
+ * both keyed by relative path
+ */
+export function diffFileShas(installed: Record<string, string>, upstream: Record<string, string>): FileShaDiff {
+  const added = Object.keys(upstream).filter(p => !(p in installed));
+  const removed = Object.keys(installed).filter(p => !(p in upstream));
+  const changed = Object.keys(upstream).filter(p => p in installed && installed[p] !== upstream[p]);
+  return { added, removed, changed };
+}
+
+/**
+ * Files that differ between two sets of blob SHAs keyed by relative path:
+ * added, removed or edited
+ */
+export function listChangedFiles(before: Record<string, string>, after: Record<string, string>): string[] {
+  const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...paths].filter(p => before[p] !== after[p]).sort();
+}
+
+/**
+ * Compare the installed version of a skill (base) with its local copy and
+ * the upstream version, file by file. Files only changed upstream are
+ * updated, files only changed locally are kept and files changed on both
+ * sides conflict unless both made the same change.
+ */
+export function planLocalMerge(
+  base: Record<string, string>,
+  local: Record<string, string>,
+  upstream: Record<string, string>
+): LocalMergePlan {
+  const plan: LocalMergePlan = { keepLocal: [], conflicts: [] };
+
+  for (const filePath of listChangedFiles(base, local)) {
+    if (upstream[filePath] === base[filePath]) {
+      plan.keepLocal.push(filePath);
+    } else if (upstream[filePath] !== local[filePath]) {
+      plan.conflicts.push(filePath);
+    }
+  }
+
+  return plan;
+}
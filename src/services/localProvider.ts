@@ -0,0 +1,133 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { Repository, RepositoryTree, ResolvedRef, TreeNode } from '../models/repository';
+import { SourceProvider } from './sourceProvider';
+import { gitBlobSha } from './contentHash';
+
+/** Ref reported for local folders, which are always read as they are on disk */
+export const LOCAL_REF = 'local';
+
+/** Folders never searched for skills */
+const IGNORED_FOLDERS = new Set(['.git', 'node_modules']);
+
+/**
+ * Source provider for skill folders on disk, addressed by `file://` URL.
+ * Trees are built by walking the folder; the "commit" is a fingerprint of
+ * its contents, so changes on disk show up as updates.
+ */
+export class LocalProvider implements SourceProvider {
+  public readonly host = 'file';
+  public readonly storesContent = true;
+
+  /**
+   * Resolve a file URL to a path on disk
+   */
+  private getRoot(url: string): string {
+    return fileURLToPath(url);
+  }
+
+  /**
+   * Resolve a repository-relative path, refusing paths that leave the folder
+   */
+  private resolvePath(url: string, filePath: string): string {
+    const root = this.getRoot(url);
+    const resolved = path.resolve(root, ...filePath.split('/'));
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Path outside of ${url}: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Describe the folder as a repository
+   */
+  public async fetchRepository(url: string): Promise<Repository> {
+    const root = this.getRoot(url);
+    await fs.access(root);
+    return {
+      owner: path.basename(path.dirname(root)),
+      name: path.basename(root),
+      fullName: url,
+      defaultBranch: LOCAL_REF
+    };
+  }
+
+  /**
+   * Fingerprint the folder's current contents
+   */
+  public async resolveRef(url: string): Promise<ResolvedRef> {
+    const tree = await this.fetchRepositoryTree(url);
+    return { ref: LOCAL_REF, commit: tree.sha };
+  }
+
+  /**
+   * Walk the folder. Refs are ignored: the folder is always read as it is now.
+   */
+  public async fetchRepositoryTree(url: string): Promise<RepositoryTree> {
+    const root = this.getRoot(url);
+    const nodes: TreeNode[] = [];
+    await this.walk(root, '', nodes);
+    
+    const fingerprint = crypto.createHash('sha1');
+    for (const node of nodes) {
+      fingerprint.update(`${node.type} ${node.sha} ${node.path}\n`);
+    }
+    const sha = fingerprint.digest('hex');
+    
+    return { sha, url, tree: nodes, truncated: false, ref: LOCAL_REF, commit: sha };
+  }
+
+  /**
+   * Add the entries of a folder to a tree, depth-first in path order
+   */
+  private async walk(dirPath: string, prefix: string, nodes: TreeNode[]): Promise<void> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      
+      if (entry.isDirectory()) {
+        if (IGNORED_FOLDERS.has(entry.name)) {
+          continue;
+        }
+        nodes.push({ path: relativePath, mode: '040000', type: 'tree', sha: '', url: '' });
+        await this.walk(entryPath, relativePath, nodes);
+      } else if (entry.isFile()) {
+        const content = await fs.readFile(entryPath);
+        nodes.push({
+          path: relativePath,
+          mode: '100644',
+          type: 'blob',
+          sha: gitBlobSha(content),
+          size: content.length,
+          url: ''
+        });
+      }
+    }
+  }
+
+  /**
+   * Read a file as text
+   */
+  public async fetchFileContent(url: string, filePath: string): Promise<string> {
+    return fs.readFile(this.resolvePath(url, filePath), 'utf-8');
+  }
+
+  /**
+   * Read a file
+   */
+  public async downloadFile(url: string, filePath: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(url, filePath));
+  }
+
+  /**
+   * Build the file URL of a file
+   */
+  public getFileUrl(url: string, filePath: string): string {
+    return `${url.replace(/\/+$/, '')}/${filePath}`;
+  }
+}
@@ -0,0 +1,284 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { HashedInstalledSkill, InvalidLockedSkill, LockedSkill, LockfileDrift, LockfileReadResult, SkillLockfile } from '../models/lockfile';
+import { InstalledSkill, InstallResult, InstallScope, Skill } from '../models/skill';
+import { GitHubService } from './githubService';
+import { SkillInstaller } from './skillInstaller';
+import { hashDirectory } from './contentHash';
+import { parseRepositorySpec, isCommitSha, isValidGitRef } from './repositorySpec';
+import { isSafeRelativePath } from './installLayout';
+
+export const LOCKFILE_NAME = 'skills.lock.json';
+
+/**
+ * Key identifying a skill within a lockfile
+ */
+function lockKey(scope: 'global' | 'workspace', id: string): string {
+  return `${scope}:${id}`;
+}
+
+/**
+ * Why a lockfile entry cannot be used, or undefined if it is valid. The
+ * lockfile is a committed workspace file, so every field that reaches a
+ * source provider or the file system is checked.
+ */
+function findLockedSkillProblem(entry: Record<string, unknown>): string | undefined {
+  for (const key of ['id', 'name', 'repository', 'path', 'commit', 'contentHash']) {
+    if (typeof entry[key] !== 'string') {
+      return `"${key}" must be a string`;
+    }
+  }
+
+  const { repository, path: skillPath, commit, ref, scope } = entry as Record<string, string>;
+  try {
+    if (parseRepositorySpec(repository).fullName !== repository) {
+      return `"repository" must not include a ref`;
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  if (skillPath !== '' && !isSafeRelativePath(skillPath)) {
+    return `"path" must be a relative path inside the repository`;
+  }
+  if (!isCommitSha(commit)) {
+    return `"commit" must be a full commit SHA`;
+  }
+  if (ref !== undefined && (typeof ref !== 'string' || !isValidGitRef(ref))) {
+    return `"ref" must be a branch, tag or commit`;
+  }
+  if (scope !== 'global' && scope !== 'workspace') {
+    return `"scope" must be "global" or "workspace"`;
+  }
+  return undefined;
+}
+
+/**
+ * Check parsed lockfile content, keeping the valid entries and reporting
+ * the others
+ */
+export function validateLockfile(data: unknown): LockfileReadResult {
+  const lockfile = data as Partial<SkillLockfile> | null;
+  if (!lockfile || typeof lockfile !== 'object' || lockfile.lockfileVersion !== 1 || !Array.isArray(lockfile.skills)) {
+    throw new Error(`Unsupported ${LOCKFILE_NAME} format`);
+  }
+
+  const skills: LockedSkill[] = [];
+  const invalid: InvalidLockedSkill[] = [];
+  lockfile.skills.forEach((entry: unknown, index) => {
+    const record = entry && typeof entry === 'object' ? entry as Record<string, unknown> : undefined;
+    const reason = record ? findLockedSkillProblem(record) : 'entry must be an object';
+    if (reason) {
+      invalid.push({ index, id: typeof record?.id === 'string' ? record.id : undefined, reason });
+    } else {
+      skills.push(entry as LockedSkill);
+    }
+  });
+
+  return { lockfile: { lockfileVersion: 1, skills }, invalid };
+}
+
+/**
+ * Compare a lockfile with the installed skills
+ */
+export function diffLockfile(lockfile: SkillLockfile, installed: HashedInstalledSkill[]): LockfileDrift {
+  const installedByKey = new Map(installed.map(entry => [lockKey(entry.skill.scope.type, entry.skill.id), entry]));
+  const lockedKeys = new Set(lockfile.skills.map(locked => lockKey(locked.scope, locked.id)));
+  const drift: LockfileDrift = { missing: [], extra: [], modified: [] };
+
+  for (const locked of lockfile.skills) {
+    const entry = installedByKey.get(lockKey(locked.scope, locked.id));
+    if (!entry) {
+      drift.missing.push(locked);
+    } else if (entry.skill.commit !== locked.commit) {
+      drift.modified.push({ locked, installed: entry.skill, reason: 'commit' });
+    } else if (entry.contentHash !== locked.contentHash) {
+      drift.modified.push({ locked, installed: entry.skill, reason: 'content' });
+    }
+  }
+
+  for (const entry of installed) {
+    if (!lockedKeys.has(lockKey(entry.skill.scope.type, entry.skill.id))) {
+      drift.extra.push(entry.skill);
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Reads, writes and restores skills.lock.json in a workspace root
+ */
+export class LockfileService {
+  constructor(
+    private githubService: GitHubService,
+    private skillInstaller: SkillInstaller
+  ) {}
+
+  /**
+   * Get the lockfile path for a workspace root
+   */
+  public getLockfilePath(workspaceRoot: string): string {
+    return path.join(workspaceRoot, LOCKFILE_NAME);
+  }
+
+  /**
+   * Skills relevant to a workspace: global ones plus those in its workspace
+   * scope. Disabled skills count as installed, so restoring does not try to
+   * install them again.
+   */
+  private async listRelevantInstalled(workspaceScope: InstallScope): Promise<HashedInstalledSkill[]> {
+    const installed = [
+      ...await this.skillInstaller.listInstalled(this.skillInstaller.getGlobalScope(), true),
+      ...await this.skillInstaller.listInstalled(workspaceScope, true)
+    ];
+
+    return Promise.all(installed.map(async skill => ({
+      skill,
+      contentHash: await hashDirectory(skill.localPath)
+    })));
+  }
+
+  /**
+   * Build a lockfile from the installed skills. Skills that cannot be pinned
+   * (local skills, or skills installed before commits were recorded) are
+   * returned as skipped.
+   */
+  public async generate(workspaceScope: InstallScope): Promise<{ lockfile: SkillLockfile; skipped: InstalledSkill[] }> {
+    const installed = await this.listRelevantInstalled(workspaceScope);
+    const skills: LockedSkill[] = [];
+    const skipped: InstalledSkill[] = [];
+
+    for (const { skill, contentHash } of installed) {
+      if (skill.repository === 'local' || !skill.commit) {
+        skipped.push(skill);
+        continue;
+      }
+
+      skills.push({
+        id: skill.id,
+        name: skill.name,
+        repository: skill.repository,
+        path: skill.path,
+        ref: skill.ref,
+        commit: skill.commit,
+        contentHash,
+        scope: skill.scope.type
+      });
+    }
+
+    // Stable order keeps lockfile diffs readable
+    skills.sort((a, b) => lockKey(a.scope, a.id).localeCompare(lockKey(b.scope, b.id)));
+
+    return {
+      lockfile: { lockfileVersion: 1, skills },
+      skipped
+    };
+  }
+
+  /**
+   * Write a lockfile to a workspace root
+   */
+  public async write(workspaceRoot: string, lockfile: SkillLockfile): Promise<string> {
+    const lockfilePath = this.getLockfilePath(workspaceRoot);
+    await fs.writeFile(lockfilePath, `${JSON.stringify(lockfile, null, 2)}\n`);
+    return lockfilePath;
+  }
+
+  /**
+   * Read the lockfile of a workspace root, or undefined if there is none.
+   * Malformed or unsafe entries are left out and reported as invalid.
+   */
+  public async read(workspaceRoot: string): Promise<LockfileReadResult | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getLockfilePath(workspaceRoot), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    return validateLockfile(JSON.parse(content));
+  }
+
+  /**
+   * Compare a lockfile with the skills installed for a workspace
+   */
+  public async computeDrift(lockfile: SkillLockfile, workspaceScope: InstallScope): Promise<LockfileDrift> {
+    return diffLockfile(lockfile, await this.listRelevantInstalled(workspaceScope));
+  }
+
+  /**
+   * Reconcile installed skills with a lockfile: install missing skills,
+   * reinstall modified ones at the locked commit and optionally remove
+   * workspace skills that are not in the lockfile. Global skills are shared
+   * by every workspace, so they are never removed.
+   */
+  public async restore(
+    drift: LockfileDrift,
+    workspaceScope: InstallScope,
+    options: { removeExtra: boolean },
+    onProgress?: (message: string) => void
+  ): Promise<InstallResult[]> {
+    const results: InstallResult[] = [];
+    const targets: { locked: LockedSkill; installed?: InstalledSkill }[] = [
+      ...drift.missing.map(locked => ({ locked })),
+      ...drift.modified
+    ];
+
+    for (const { locked, installed } of targets) {
+      const scope = locked.scope === 'global' ? this.skillInstaller.getGlobalScope() : workspaceScope;
+      onProgress?.(`Installing ${locked.name}@${locked.commit.slice(0, 7)}...`);
+
+      try {
+        const skill = await this.toSkill(locked);
+        // Modified skills are replaced in place, only once the locked version is complete
+        results.push(installed
+          ? await this.skillInstaller.reinstall(installed, skill, onProgress)
+          : await this.skillInstaller.install(skill, onProgress, { scope }));
+      } catch (error) {
+        results.push({
+          success: false,
+          skill: {
+            id: locked.id,
+            name: locked.name,
+            description: '',
+            repository: locked.repository,
+            path: locked.path,
+            files: []
+          },
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (options.removeExtra) {
+      for (const extra of drift.extra.filter(skill => skill.scope.root === workspaceScope.root)) {
+        onProgress?.(`Removing ${extra.name}...`);
+        await this.skillInstaller.uninstall(extra);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build an installable skill for a locked entry at its locked commit
+   */
+  private async toSkill(locked: LockedSkill): Promise<Skill> {
+    const tree = await this.githubService.fetchRepositoryTree(locked.repository, locked.commit);
+    return {
+      id: locked.id,
+      name: locked.name,
+      description: '',
+      repository: locked.repository,
+      path: locked.path,
+      files: this.githubService.getSkillFiles(tree, locked.path),
+      sourceVersion: tree.sha,
+      // Keep following the original branch or tag on later update checks
+      ref: locked.ref ?? locked.commit,
+      commit: locked.commit
+    };
+  }
+}
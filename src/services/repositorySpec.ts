@@ -0,0 +1,165 @@
+import { RepositorySpec } from '../models/repository';
+
+/** Host of repositories whose id has no host prefix */
+export const GITHUB_HOST = 'github.com';
+
+const REPOSITORY_PATTERN = /^(?:([\w.-]+(?::\d+)?)\/)?([\w.-]+)\/([\w.-]+)(?:([@#])(.+))?$/;
+
+/** Repository entries given as a URL: a local folder or a git remote */
+const URL_SOURCE_PATTERN = /^(?:file|git\+ssh|git\+https?|ssh|https?|git):\/\/|^[\w.-]+@[\w.-]+:/i;
+
+/**
+ * Whether a repository id is a URL source (`file://`, `git+ssh://`,
+ * `https://`, `git@host:path`) rather than an API-hosted owner/repo
+ */
+export function isUrlSource(id: string): boolean {
+  return URL_SOURCE_PATTERN.test(id);
+}
+
+/**
+ * Whether a URL source is a folder on disk
+ */
+export function isFileSource(id: string): boolean {
+  return /^file:\/\//i.test(id);
+}
+
+/**
+ * Whether the first segment of a repository id names a host rather than
+ * an owner. Owner names cannot contain dots or colons.
+ */
+export function isHostSegment(segment: string): boolean {
+  return segment.includes('.') || segment.includes(':') || segment === 'localhost';
+}
+
+/**
+ * Split a repository id into its host and owner/name path
+ */
+export function splitRepositoryId(id: string): { host: string; slug: string } {
+  const [first, ...rest] = id.split('/');
+  if (rest.length >= 2 && isHostSegment(first)) {
+    return { host: first.toLowerCase(), slug: rest.join('/') };
+  }
+  return { host: GITHUB_HOST, slug: id };
+}
+
+/**
+ * Build a repository id; github.com repositories keep the plain owner/name form
+ */
+export function formatRepositoryId(host: string, slug: string): string {
+  return host === GITHUB_HOST ? slug : `${host}/${slug}`;
+}
+
+/**
+ * Parse a repository entry from the `skillManager.repositories` setting.
+ *
+ * Accepted forms:
+ * - `owner/repo` (default branch)
+ * - `owner/repo@ref` (branch or tag)
+ * - `owner/repo#sha` (commit)
+ * - any of the above prefixed with a host, e.g. `git.example.com/owner/repo@ref`
+ * - `file:///path/to/skills` (a folder on disk)
+ * - a git remote URL, optionally followed by `#ref`, e.g. `git+ssh://git@host/skills.git#main`
+ */
+export function parseRepositorySpec(entry: string): RepositorySpec {
+  if (isUrlSource(entry.trim())) {
+    return parseUrlSpec(entry.trim());
+  }
+
+  const match = entry.trim().match(REPOSITORY_PATTERN);
+
+  if (!match || (match[1] && !isHostSegment(match[1]))) {
+    throw new Error(`Invalid repository "${entry}". Expected [host/]owner/repo, optionally followed by @ref or #sha`);
+  }
+
+  const [, host, owner, name, , ref] = match;
+  const slug = `${owner}/${name}`;
+  const normalizedHost = host?.toLowerCase();
+  return {
+    fullName: formatRepositoryId(normalizedHost ?? GITHUB_HOST, slug),
+    host: normalizedHost && normalizedHost !== GITHUB_HOST ? normalizedHost : undefined,
+    slug,
+    ref: ref?.trim() || undefined
+  };
+}
+
+/**
+ * Parse a skill entered for Quick Install: `[host/]owner/repo/path/to/skill`,
+ * pinned with `@ref` or `#sha` at the end. The ref is taken from the end
+ * first, so branch names with slashes such as `release/1.2` stay whole.
+ * The older `owner/repo@ref/path` form is still accepted for refs without
+ * slashes.
+ */
+export function parseSkillSpec(input: string): { spec: RepositorySpec; path: string } {
+  const trimmed = input.trim();
+  const markerIndex = trimmed.search(/[@#]/);
+  const beforeRef = markerIndex === -1 ? trimmed : trimmed.slice(0, markerIndex);
+  const segments = beforeRef.split('/');
+  const repoSegments = isHostSegment(segments[0]) ? 3 : 2;
+
+  let repository = segments.slice(0, repoSegments).join('/');
+  let skillPath = segments.slice(repoSegments).join('/');
+  if (markerIndex !== -1) {
+    const marker = trimmed[markerIndex];
+    const afterRef = trimmed.slice(markerIndex + 1);
+    if (segments.length > repoSegments) {
+      repository += `${marker}${afterRef}`;
+    } else {
+      const [ref, ...pathSegments] = afterRef.split('/');
+      repository += `${marker}${ref}`;
+      skillPath = pathSegments.join('/');
+    }
+  }
+
+  if (!skillPath || skillPath.split('/').some(segment => !segment)) {
+    throw new Error(`Invalid skill "${input}". Expected [host/]owner/repo/path/to/skill, optionally followed by @ref or #sha`);
+  }
+  return { spec: parseRepositorySpec(repository), path: skillPath };
+}
+
+/**
+ * Parse a URL repository entry. The URL itself is the repository id;
+ * git remotes may be followed by `#ref`.
+ */
+function parseUrlSpec(entry: string): RepositorySpec {
+  const hashIndex = entry.indexOf('#');
+  const url = hashIndex === -1 ? entry : entry.slice(0, hashIndex);
+  const ref = hashIndex === -1 ? undefined : entry.slice(hashIndex + 1).trim() || undefined;
+
+  if (ref && !isValidGitRef(ref)) {
+    throw new Error(`Invalid repository "${entry}". "#${ref}" is not a branch, tag or full commit SHA`);
+  }
+
+  if (isFileSource(url)) {
+    if (ref) {
+      throw new Error(`Invalid repository "${entry}". Local folders cannot be pinned to a ref`);
+    }
+    if (!/^file:\/\/\/./i.test(url)) {
+      throw new Error(`Invalid repository "${entry}". Expected an absolute file:/// URL`);
+    }
+  }
+
+  return { fullName: url, slug: url, ref };
+}
+
+/**
+ * Whether a ref is a full 40-character commit SHA
+ */
+export function isCommitSha(ref: string): boolean {
+  return /^[0-9a-f]{40}$/i.test(ref);
+}
+
+/**
+ * Whether a ref is a full commit SHA or a branch or tag name git accepts
+ * (the rules of `git check-ref-format --allow-onelevel`). Refs starting
+ * with `-` are rejected so they can never be read as a git option.
+ */
+export function isValidGitRef(ref: string): boolean {
+  if (isCommitSha(ref)) {
+    return true;
+  }
+  return ref.length > 0 &&
+    !ref.startsWith('-') &&
+    ref !== '@' &&
+    !/[\u0000-\u0020\u007f~^:?*[\\]|\.\.|@\{|\/\/|^\/|[/.]$/.test(ref) &&
+    ref.split('/').every(component => !component.startsWith('.') && !component.endsWith('.lock'));
+}
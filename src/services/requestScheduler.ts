@@ -0,0 +1,210 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { RateLimitInfo } from '../models/repository';
+
+/** Statuses worth retrying: the server (or a proxy in front of it) failed transiently */
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+
+/** Methods sent again after a server error; others may have taken effect before it failed */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD']);
+
+/**
+ * Tuning for a request scheduler
+ */
+export interface SchedulerOptions {
+  /** Requests in flight at once */
+  maxConcurrent?: number;
+  /** Retries of a rate-limited or failed request */
+  maxRetries?: number;
+  /** Backoff before the first retry of a failed request */
+  baseDelayMs?: number;
+  /** Longest backoff between retries */
+  maxDelayMs?: number;
+  /** Longest a request waits for a rate limit to reset before giving up */
+  maxWaitMs?: number;
+  /** Waits; replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random number in [0, 1) used for jitter; replaceable in tests */
+  random?: () => number;
+}
+
+/**
+ * A request that was not sent because the host's rate limit is exhausted
+ * for longer than the scheduler is willing to wait
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly resetAt: Date) {
+    super(`API rate limit exceeded. Resets at ${resetAt.toLocaleTimeString()}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Sends every HTTP request of the extension. Limits how many requests are
+ * in flight, tracks each host's rate limit from response headers, waits
+ * out `retry-after` and secondary rate limits, and retries transient
+ * server errors with jittered exponential backoff.
+ */
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private rateLimits: Map<string, RateLimitInfo> = new Map();
+  private pausedUntil: Map<string, number> = new Map();
+  private lastHost?: string;
+  private options: Required<SchedulerOptions>;
+
+  constructor(
+    private doFetch: (url: string, init?: RequestInit) => Promise<Response> = fetch,
+    options: SchedulerOptions = {}
+  ) {
+    this.options = {
+      maxConcurrent: 6,
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      maxWaitMs: 60000,
+      sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+      random: Math.random,
+      ...options
+    };
+  }
+
+  /**
+   * Rate limit of a host (or of the host answered last) as reported by its
+   * most recent response
+   */
+  public getRateLimitInfo(host?: string): RateLimitInfo | undefined {
+    const key = host ?? this.lastHost;
+    return key ? this.rateLimits.get(key) : undefined;
+  }
+
+  /**
+   * Send a request, waiting for a free slot and for the host's rate limit,
+   * and retrying it while the response says to try again later. Server
+   * errors are only retried for GET and HEAD requests, rate limits for every
+   * method. The last response is returned if retries run out. Network errors
+   * are not retried.
+   */
+  public async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const host = new URL(url).host;
+    const method = (init?.method ?? 'GET').toUpperCase();
+    
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForHost(host);
+      const response = await this.withSlot(() => this.doFetch(url, init));
+      this.updateRateLimit(host, response);
+      
+      const retry = this.getRetry(response, method, attempt);
+      if (!retry || attempt >= this.options.maxRetries || retry.delayMs > this.options.maxWaitMs) {
+        return response;
+      }
+      await this.discard(response);
+      
+      if (retry.rateLimited) {
+        // Hold back every request to the host, not just this one
+        this.pausedUntil.set(host, Math.max(this.pausedUntil.get(host) ?? 0, Date.now() + retry.delayMs));
+      } else {
+        await this.options.sleep(retry.delayMs);
+      }
+    }
+  }
+
+  /**
+   * Run a task once fewer than the maximum number of requests are in flight
+   */
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.options.maxConcurrent) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Wait while a host is paused or its rate limit is exhausted. Fails
+   * straight away if the wait would be longer than the maximum.
+   */
+  private async waitForHost(host: string): Promise<void> {
+    const limit = this.rateLimits.get(host);
+    const exhaustedUntil = limit && limit.remaining === 0 ? limit.reset.getTime() : 0;
+    const until = Math.max(this.pausedUntil.get(host) ?? 0, exhaustedUntil);
+    const delay = until - Date.now();
+    
+    if (delay <= 0) {
+      return;
+    }
+    if (delay > this.options.maxWaitMs) {
+      throw new RateLimitError(new Date(until));
+    }
+    await this.options.sleep(delay);
+  }
+
+  /**
+   * Record the rate limit reported in response headers
+   */
+  private updateRateLimit(host: string, response: Response): void {
+    const limit = response.headers.get('x-ratelimit-limit');
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = response.headers.get('x-ratelimit-reset');
+    
+    if (limit && remaining && reset) {
+      this.rateLimits.set(host, {
+        limit: parseInt(limit, 10),
+        remaining: parseInt(remaining, 10),
+        reset: new Date(parseInt(reset, 10) * 1000)
+      });
+      this.lastHost = host;
+    }
+  }
+
+  /**
+   * Read and drop the body of a response that is retried, so its
+   * connection is released
+   */
+  private async discard(response: Response): Promise<void> {
+    await response.arrayBuffer().catch(() => undefined);
+  }
+
+  /**
+   * Decide whether and when to retry a response
+   */
+  private getRetry(response: Response, method: string, attempt: number): { delayMs: number; rateLimited: boolean } | undefined {
+    const retryAfter = response.headers.get('retry-after');
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = response.headers.get('x-ratelimit-reset');
+    
+    if (response.status === 429 || response.status === 403) {
+      if (retryAfter) {
+        // Secondary rate limits say how long to back off
+        const seconds = Number(retryAfter);
+        const delayMs = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        return { delayMs: Math.max(delayMs, 0), rateLimited: true };
+      }
+      if (remaining === '0' && reset) {
+        return { delayMs: Math.max(parseInt(reset, 10) * 1000 - Date.now(), 0) + 1000, rateLimited: true };
+      }
+      if (response.status === 429) {
+        return { delayMs: this.getBackoff(attempt), rateLimited: true };
+      }
+      // Any other 403 is a permission problem
+      return undefined;
+    }
+    
+    if (TRANSIENT_STATUSES.has(response.status) && IDEMPOTENT_METHODS.has(method)) {
+      return { delayMs: this.getBackoff(attempt), rateLimited: false };
+    }
+    return undefined;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private getBackoff(attempt: number): number {
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(this.options.random() * cap);
+  }
+}
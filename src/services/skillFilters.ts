@@ -0,0 +1,168 @@
+import { Skill } from '../models/skill';
+import { SkillSearchIndex } from './skillSearch';
+
+/** Category facet value of skills without a category */
+export const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * Order of the Skill Browser results. Relevance is search rank, or catalog
+ * order without a search query.
+ */
+export type SkillSortOrder = 'relevance' | 'name' | 'repository' | 'updated' | 'installed';
+
+const SORT_ORDERS: SkillSortOrder[] = ['relevance', 'name', 'repository', 'updated', 'installed'];
+
+/**
+ * Search, facet selections and sort order of the Skill Browser. Within a
+ * facet any selected value matches; all facets must match.
+ */
+export interface SkillFilterState {
+  query: string;
+  categories: string[];
+  repositories: string[];
+  authors: string[];
+  tags: string[];
+  installed: 'any' | 'installed' | 'notInstalled';
+  updatesOnly: boolean;
+  sort: SkillSortOrder;
+}
+
+export const DEFAULT_FILTER_STATE: SkillFilterState = {
+  query: '',
+  categories: [],
+  repositories: [],
+  authors: [],
+  tags: [],
+  installed: 'any',
+  updatesOnly: false,
+  sort: 'relevance'
+};
+
+/**
+ * A facet value and the number of catalog skills that have it
+ */
+export interface FacetValue {
+  name: string;
+  count: number;
+}
+
+/**
+ * Values the catalog can be filtered by, most common first
+ */
+export interface SkillFacets {
+  categories: FacetValue[];
+  repositories: FacetValue[];
+  authors: FacetValue[];
+  tags: FacetValue[];
+}
+
+/**
+ * Filtered and sorted skills, with the words to highlight
+ */
+export interface FilterResult {
+  skills: Skill[];
+  highlights: string[];
+}
+
+/**
+ * Validate filter state from storage or the webview, falling back to
+ * defaults for anything missing or malformed
+ */
+export function normalizeFilterState(value: unknown): SkillFilterState {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const strings = (list: unknown) => Array.isArray(list)
+    ? [...new Set(list.filter((item): item is string => typeof item === 'string'))]
+    : [];
+
+  return {
+    query: typeof input.query === 'string' ? input.query : DEFAULT_FILTER_STATE.query,
+    categories: strings(input.categories),
+    repositories: strings(input.repositories),
+    authors: strings(input.authors),
+    tags: strings(input.tags),
+    installed: input.installed === 'installed' || input.installed === 'notInstalled' ? input.installed : 'any',
+    updatesOnly: input.updatesOnly === true,
+    sort: SORT_ORDERS.find(order => order === input.sort) ?? DEFAULT_FILTER_STATE.sort
+  };
+}
+
+/**
+ * Check a skill against the facet selections
+ */
+export function matchesFacets(skill: Skill, state: SkillFilterState): boolean {
+  const selected = (values: string[], value: string | undefined) =>
+    values.length === 0 || (value !== undefined && values.includes(value));
+
+  if (!selected(state.categories, skill.category || UNCATEGORIZED) ||
+      !selected(state.repositories, skill.repository) ||
+      !selected(state.authors, skill.author)) {
+    return false;
+  }
+  if (state.tags.length > 0 && !skill.tags?.some(tag => state.tags.includes(tag))) {
+    return false;
+  }
+  if (state.installed !== 'any' && !!skill.isInstalled !== (state.installed === 'installed')) {
+    return false;
+  }
+  return !state.updatesOnly || !!skill.hasUpdate;
+}
+
+/**
+ * Sort skills for display. Skills without a date sort last; ties keep their
+ * current order.
+ */
+export function sortSkills(skills: Skill[], order: SkillSortOrder): Skill[] {
+  const byDate = (date: (skill: Skill) => string | undefined) => (a: Skill, b: Skill) =>
+    (date(b) ?? '').localeCompare(date(a) ?? '');
+
+  switch (order) {
+    case 'name':
+      return [...skills].sort((a, b) => a.name.localeCompare(b.name));
+    case 'repository':
+      return [...skills].sort((a, b) => a.repository.localeCompare(b.repository) || a.name.localeCompare(b.name));
+    case 'updated':
+      return [...skills].sort(byDate(skill => skill.updatedAt));
+    case 'installed':
+      return [...skills].sort(byDate(skill => skill.lastInstalledAt));
+    default:
+      return skills;
+  }
+}
+
+/**
+ * Search, filter and sort the catalog
+ */
+export function applyFilters(index: SkillSearchIndex, state: SkillFilterState): FilterResult {
+  const results = index.search(state.query).filter(result => matchesFacets(result.skill, state));
+
+  return {
+    skills: sortSkills(results.map(result => result.skill), state.sort),
+    highlights: [...new Set(results.flatMap(result => result.matches))]
+  };
+}
+
+/**
+ * Collect the facet values of a catalog with their counts
+ */
+export function getFacets(skills: Skill[]): SkillFacets {
+  const count = (values: (skill: Skill) => (string | undefined)[]) => {
+    const counts = new Map<string, number>();
+    for (const skill of skills) {
+      for (const value of new Set(values(skill))) {
+        if (value) {
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+      }
+    }
+    return [...counts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  };
+
+  return {
+    categories: count(skill => [skill.category || UNCATEGORIZED]),
+    repositories: count(skill => [skill.repository]),
+    authors: count(skill => [skill.author]),
+    tags: count(skill => skill.tags ?? [])
+  };
+}
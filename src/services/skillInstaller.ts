@@ -2,15 +2,81 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
-import { Skill, InstalledSkill, InstallResult } from '../models/skill';
+import { Skill, InstalledSkill, InstallResult, InstallMetadata, InstallScope, SkillUpdate, FailedFile, FileResolution, MergeInputs } from '../models/skill';
+import { RepositoryTree, TreeNode } from '../models/repository';
+import { RiskReport, RiskSeverity } from '../models/security';
+import { InstallPlanStep } from '../models/dependency';
+import { PublishFile } from '../models/publish';
 import { GitHubService } from './githubService';
 import { SkillParser } from './skillParser';
+import { computeFileShas } from './contentHash';
+import { StagingError, createStagingDir, verifyBlob, commitStaged, recoverStaging } from './staging';
+import { SEVERITIES, scanSkillFiles, isAtLeast, formatFinding } from './skillScanner';
+import { getSkillFolderName, getAlternateFolderNames, isSameSkill, isSafeRelativePath } from './installLayout';
+import { LocalMergePlan, diffFileShas, listChangedFiles, planLocalMerge } from './localChanges';
+
+/**
+ * Folder inside a scope root that disabled skills are moved to. The agent
+ * only loads skill folders directly below the root, so it skips them.
+ */
+export const DISABLED_FOLDER = '.disabled';
+
+/**
+ * Options for installing skills
+ */
+export interface InstallOptions {
+  /** Scope to install into (defaults to the global scope) */
+  scope?: InstallScope;
+  /** Record the skill as installed only to satisfy another skill's dependencies */
+  asDependency?: boolean;
+  /** Decide what to do when the skill's folder is used by another skill (defaults to rename) */
+  onConflict?: (conflict: InstallConflict) => Promise<ConflictResolution>;
+}
+
+/**
+ * A skill whose folder is already used by a different skill
+ */
+export interface InstallConflict {
+  skill: Skill;
+  scope: InstallScope;
+  /** Folder the skill would normally be installed into */
+  localPath: string;
+  /** Skill installed in that folder, if it holds a valid skill */
+  occupant?: InstalledSkill;
+  /** Free folder to install into instead */
+  renamedPath: string;
+}
+
+/**
+ * How to resolve an install conflict: install into the free folder,
+ * replace the other skill or leave everything as it is
+ */
+export type ConflictResolution = 'rename' | 'replace' | 'skip';
+
+/**
+ * Where a skill is installed, and the skill it replaces if any
+ */
+interface InstallTarget {
+  localPath: string;
+  replaces?: InstalledSkill;
+}
+
+/**
+ * A downloaded and verified file of a skill
+ */
+interface DownloadedFile {
+  node: TreeNode;
+  /** Path relative to the skill folder */
+  relativePath: string;
+  content: Buffer;
+}
 
 /**
  * Handles installing and managing skills in the local Antigravity directory
  */
 export class SkillInstaller {
   private readonly defaultInstallPath: string;
+  private recoveredScopes: Set<string> = new Set();
   
   constructor(
     private githubService: GitHubService,
@@ -21,21 +87,45 @@ export class SkillInstaller {
   }
 
   /**
-   * Get the install path from configuration or use default
+   * Get the global scope, using the configured install path or the default
    */
-  private getInstallPath(): string {
+  public getGlobalScope(): InstallScope {
     const config = vscode.workspace.getConfiguration('skillManager');
     const customPath = config.get<string>('installPath', '');
-    return customPath || this.defaultInstallPath;
+    return {
+      type: 'global',
+      label: 'Global',
+      root: customPath || this.defaultInstallPath
+    };
+  }
+
+  /**
+   * Get the workspace scope for a workspace folder
+   */
+  public getWorkspaceScope(folder: vscode.WorkspaceFolder): InstallScope {
+    const config = vscode.workspace.getConfiguration('skillManager', folder.uri);
+    const relativePath = config.get<string>('workspaceInstallPath', '.agent/skills');
+    return {
+      type: 'workspace',
+      label: `Workspace (${folder.name})`,
+      root: path.resolve(folder.uri.fsPath, relativePath)
+    };
+  }
+
+  /**
+   * Get all available install scopes: global first, then one per workspace folder
+   */
+  public getScopes(): InstallScope[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return [this.getGlobalScope(), ...folders.map(folder => this.getWorkspaceScope(folder))];
   }
 
   /**
-   * Ensure the skills directory exists
+   * Ensure the skills directory of a scope exists
    */
-  private async ensureInstallDirectory(): Promise<void> {
-    const installPath = this.getInstallPath();
+  private async ensureInstallDirectory(scope: InstallScope): Promise<void> {
     try {
-      await fs.mkdir(installPath, { recursive: true });
+      await fs.mkdir(scope.root, { recursive: true });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
         throw error;
@@ -44,156 +134,355 @@ export class SkillInstaller {
   }
 
   /**
-   * Get the local path for a skill
+   * Find the installed copy of a skill in a scope, enabled or disabled, by
+   * the identity recorded in its install metadata rather than its folder
    */
-  private getSkillLocalPath(skill: Skill): string {
-    const installPath = this.getInstallPath();
-    const skillName = skill.name.toLowerCase().replace(/\s+/g, '-');
-    return path.join(installPath, skillName);
+  public async findInstalledCopy(skill: Skill, scope: InstallScope): Promise<InstalledSkill | undefined> {
+    const installed = await this.listInstalled(scope, true);
+    return installed.find(s => isSameSkill(s, skill));
   }
 
   /**
-   * Check if a skill is already installed
+   * Check if a skill is already installed in a scope
    */
-  public async isInstalled(skill: Skill): Promise<boolean> {
-    const localPath = this.getSkillLocalPath(skill);
-    try {
-      const stat = await fs.stat(localPath);
-      return stat.isDirectory();
-    } catch {
-      return false;
+  public async isInstalled(skill: Skill, scope: InstallScope = this.getGlobalScope()): Promise<boolean> {
+    return (await this.findInstalledCopy(skill, scope)) !== undefined;
+  }
+
+  /**
+   * Whether a folder name is unused in a scope, counting disabled skills
+   */
+  private async isFolderFree(scope: InstallScope, folder: string): Promise<boolean> {
+    const taken = await Promise.all([scope.root, path.join(scope.root, DISABLED_FOLDER)].map(dir =>
+      fs.access(path.join(dir, folder)).then(() => true, () => false)
+    ));
+    return !taken.includes(true);
+  }
+
+  /**
+   * Choose the folder to install a skill into. When the folder named after
+   * the skill is used by another skill, the conflict is resolved by the
+   * callback. Resolves to undefined if the skill should be skipped.
+   */
+  private async resolveInstallTarget(
+    skill: Skill,
+    scope: InstallScope,
+    onConflict?: InstallOptions['onConflict']
+  ): Promise<InstallTarget | undefined> {
+    const folder = getSkillFolderName(skill);
+    const localPath = path.join(scope.root, folder);
+    if (await this.isFolderFree(scope, folder)) {
+      return { localPath };
+    }
+    
+    let renamedPath = localPath;
+    for (const alternate of getAlternateFolderNames(skill)) {
+      if (await this.isFolderFree(scope, alternate)) {
+        renamedPath = path.join(scope.root, alternate);
+        break;
+      }
+    }
+    
+    const installed = await this.listInstalled(scope, true);
+    const occupant = installed.find(s => path.basename(s.localPath) === folder);
+    const resolution = onConflict
+      ? await onConflict({ skill, scope, localPath, occupant, renamedPath })
+      : 'rename';
+    
+    switch (resolution) {
+      case 'rename':
+        return { localPath: renamedPath };
+      case 'replace':
+        return { localPath, replaces: occupant };
+      default:
+        return undefined;
     }
   }
 
   /**
-   * Install a single skill from a repository
+   * Install a single skill from a repository. Files are downloaded into a
+   * staging folder and verified before the skill is moved into place, so a
+   * failed install leaves nothing behind.
    */
   public async install(
     skill: Skill,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string) => void,
+    options: InstallOptions = {}
   ): Promise<InstallResult> {
+    const scope = options.scope ?? this.getGlobalScope();
+    
     try {
-      await this.ensureInstallDirectory();
-      const localPath = this.getSkillLocalPath(skill);
+      await this.ensureInstallDirectory(scope);
+      await this.recoverInterruptedInstalls(scope);
       
       // Check if already installed
-      if (await this.isInstalled(skill)) {
+      const existing = await this.findInstalledCopy(skill, scope);
+      if (existing) {
         return {
           success: false,
           skill,
-          localPath,
+          localPath: existing.localPath,
           error: 'Skill is already installed'
         };
       }
       
-      // Create skill directory
-      onProgress?.(`Creating directory for ${skill.name}...`);
-      await fs.mkdir(localPath, { recursive: true });
-      
-      // Download all files
-      const filesToDownload = skill.files.filter(f => f.type === 'file');
-      let downloaded = 0;
-      
-      for (const file of filesToDownload) {
-        onProgress?.(`Downloading ${file.name} (${++downloaded}/${filesToDownload.length})...`);
-        
-        try {
-          const content = await this.githubService.downloadFile(skill.repository, file.path);
-          const filePath = path.join(localPath, file.name);
-          await fs.writeFile(filePath, content);
-        } catch (error) {
-          console.error(`Failed to download ${file.name}:`, error);
-          // Continue with other files
-        }
-      }
-      
-      // Handle subdirectories (download recursively)
-      const subdirs = skill.files.filter(f => f.type === 'directory');
-      for (const dir of subdirs) {
-        await this.downloadDirectory(skill.repository, dir.path, path.join(localPath, dir.name), onProgress);
-      }
-      
-      // Verify SKILL.md exists
-      const skillMdPath = path.join(localPath, 'SKILL.md');
-      try {
-        await fs.access(skillMdPath);
-      } catch {
-        // Clean up if SKILL.md is missing
-        await fs.rm(localPath, { recursive: true, force: true });
+      const target = await this.resolveInstallTarget(skill, scope, options.onConflict);
+      if (!target) {
         return {
           success: false,
           skill,
-          error: 'SKILL.md not found in skill directory'
+          error: `Skipped: the folder ${getSkillFolderName(skill)} is used by another skill`
         };
       }
       
-      // Save installation metadata
-      await this.saveInstallMetadata(skill, localPath);
+      await this.stageAndCommit(skill, scope, target.localPath, options.asDependency, onProgress);
+      // A replaced skill that was disabled lives in another folder
+      if (target.replaces && path.resolve(target.replaces.localPath) !== path.resolve(target.localPath)) {
+        await fs.rm(target.replaces.localPath, { recursive: true, force: true });
+      }
       onProgress?.(`Successfully installed ${skill.name}`);
       
       return {
         success: true,
         skill,
-        localPath
+        localPath: target.localPath
       };
       
     } catch (error) {
+      return this.toFailedResult(skill, error);
+    }
+  }
+
+  /**
+   * Replace an installed skill with another version of it, in place. The
+   * installed copy is only removed once the new one is complete.
+   */
+  public async reinstall(
+    installed: InstalledSkill,
+    skill: Skill,
+    onProgress?: (message: string) => void,
+    beforeCommit?: (stagingPath: string) => Promise<void>
+  ): Promise<InstallResult> {
+    try {
+      await this.recoverInterruptedInstalls(installed.scope);
+      await this.stageAndCommit(skill, installed.scope, installed.localPath, installed.installedAsDependency, onProgress, beforeCommit);
+      onProgress?.(`Successfully installed ${skill.name}`);
+      
       return {
-        success: false,
+        success: true,
         skill,
-        error: error instanceof Error ? error.message : String(error)
+        localPath: installed.localPath
       };
+    } catch (error) {
+      return this.toFailedResult(skill, error);
     }
   }
 
   /**
-   * Download a directory recursively
+   * Convert an install error to a failed result
    */
-  private async downloadDirectory(
-    repo: string,
-    remotePath: string,
+  private toFailedResult(skill: Skill, error: unknown): InstallResult {
+    return {
+      success: false,
+      skill,
+      error: error instanceof Error ? error.message : String(error),
+      failedFiles: error instanceof StagingError && error.failedFiles.length > 0 ? error.failedFiles : undefined
+    };
+  }
+
+  /**
+   * Finish or roll back installs into a scope that were interrupted in an
+   * earlier session or a window that has since closed. Runs once per scope,
+   * before its first install.
+   */
+  private async recoverInterruptedInstalls(scope: InstallScope): Promise<void> {
+    if (this.recoveredScopes.has(scope.root)) {
+      return;
+    }
+    this.recoveredScopes.add(scope.root);
+    
+    const restored = await recoverStaging(scope.root);
+    for (const folder of restored) {
+      console.warn(`Restored ${folder} after an interrupted update`);
+    }
+  }
+
+  /**
+   * Download a skill into a staging folder, verify it and move it to its
+   * final path, replacing any existing copy. The staged files can be
+   * adjusted before they are committed.
+   */
+  private async stageAndCommit(
+    skill: Skill,
+    scope: InstallScope,
     localPath: string,
-    onProgress?: (message: string) => void
+    asDependency: boolean | undefined,
+    onProgress?: (message: string) => void,
+    beforeCommit?: (stagingPath: string) => Promise<void>
   ): Promise<void> {
-    await fs.mkdir(localPath, { recursive: true });
+    const stagingPath = await createStagingDir(scope.root, path.relative(scope.root, localPath).split(path.sep).join('/'));
     
-    // Fetch directory contents from GitHub
-    const tree = await this.githubService.fetchRepositoryTree(repo);
-    const prefix = `${remotePath}/`;
+    try {
+      const fileShas = await this.downloadSkillFiles(skill, stagingPath, onProgress);
+      await beforeCommit?.(stagingPath);
+      await this.saveInstallMetadata(skill, stagingPath, fileShas, asDependency);
+      await commitStaged(stagingPath, localPath);
+    } finally {
+      // Gone already if the commit succeeded
+      await fs.rm(stagingPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download every file of a skill, verifying each against the size and
+   * blob SHA in the repository tree. Throws a StagingError listing every
+   * file that failed.
+   */
+  private async fetchSkillFiles(
+    skill: Skill,
+    onProgress?: (message: string) => void
+  ): Promise<DownloadedFile[]> {
+    // Download from the resolved commit so every file comes from the same snapshot
+    const tree = await this.githubService.fetchRepositoryTree(skill.repository, skill.commit ?? skill.ref);
+    const ref = tree.commit ?? skill.commit ?? skill.ref ?? 'HEAD';
+    const prefix = skill.path ? `${skill.path}/` : '';
+    const blobs = tree.tree.filter(node => node.type === 'blob' && node.path.startsWith(prefix));
     
-    for (const node of tree.tree) {
-      if (node.path.startsWith(prefix)) {
-        const relativePath = node.path.slice(prefix.length);
-        
-        // Skip nested directories (handle them recursively)
-        if (relativePath.includes('/')) {
-          continue;
+    if (!blobs.some(node => node.path === `${prefix}SKILL.md`)) {
+      throw new StagingError('SKILL.md not found in skill directory');
+    }
+    
+    if (tree.commit) {
+      // Fetch the whole repository at once; files are then read from the blob cache
+      onProgress?.('Downloading repository archive...');
+      await this.githubService.ensureSnapshot(skill.repository, tree.commit).catch(error => {
+        console.error(`Failed to download archive of ${skill.repository}, downloading files one by one:`, error);
+      });
+    }
+    
+    const files: DownloadedFile[] = [];
+    const failedFiles: FailedFile[] = [];
+    
+    for (let i = 0; i < blobs.length; i++) {
+      const node = blobs[i];
+      const relativePath = node.path.slice(prefix.length);
+      onProgress?.(`Downloading ${relativePath} (${i + 1}/${blobs.length})...`);
+      
+      try {
+        if (!isSafeRelativePath(relativePath)) {
+          throw new Error('path leaves the skill folder');
         }
-        
-        const itemLocalPath = path.join(localPath, relativePath);
-        
-        if (node.type === 'blob') {
-          onProgress?.(`Downloading ${relativePath}...`);
-          const content = await this.githubService.downloadFile(repo, node.path);
-          await fs.writeFile(itemLocalPath, content);
-        } else if (node.type === 'tree') {
-          await this.downloadDirectory(repo, node.path, itemLocalPath, onProgress);
+        const content = await this.githubService.downloadFile(skill.repository, node.path, ref, node.sha);
+        const mismatch = verifyBlob(content, node);
+        if (mismatch) {
+          throw new Error(mismatch);
         }
+        files.push({ node, relativePath, content });
+      } catch (error) {
+        failedFiles.push({
+          path: relativePath,
+          error: error instanceof Error ? error.message : String(error)
+        });
       }
     }
+    
+    if (failedFiles.length > 0) {
+      throw new StagingError(
+        `${failedFiles.length} of ${blobs.length} file(s) failed: ${failedFiles.map(f => `${f.path} (${f.error})`).join(', ')}`,
+        failedFiles
+      );
+    }
+    
+    return files;
+  }
+
+  /**
+   * Scan downloaded files for risks
+   */
+  private scanFiles(files: DownloadedFile[]): RiskReport {
+    return scanSkillFiles(files.map(file => ({ path: file.relativePath, content: file.content, mode: file.node.mode })));
+  }
+
+  /**
+   * Download a skill and scan its files for risks without installing it
+   */
+  public async scan(skill: Skill, onProgress?: (message: string) => void): Promise<RiskReport> {
+    return this.scanFiles(await this.fetchSkillFiles(skill, onProgress));
+  }
+
+  /**
+   * Download the files of a skill without installing it, e.g. to start a
+   * new skill from a copy of it
+   */
+  public async download(skill: Skill, onProgress?: (message: string) => void): Promise<PublishFile[]> {
+    const files = await this.fetchSkillFiles(skill, onProgress);
+    return files.map(file => ({
+      path: file.relativePath,
+      content: file.content,
+      executable: file.node.mode === '100755' || undefined
+    }));
+  }
+
+  /**
+   * Lowest severity that blocks installs, or undefined if nothing is blocked
+   */
+  public getBlockSeverity(): RiskSeverity | undefined {
+    const setting = vscode.workspace.getConfiguration('skillManager').get<string>('security.blockSeverity', 'off');
+    return SEVERITIES.find(severity => severity === setting);
+  }
+
+  /**
+   * Download every file of a skill into a local directory. Skills with
+   * findings at or above the blocking severity are refused before anything
+   * is written. Returns the blob SHAs of the files written.
+   */
+  private async downloadSkillFiles(
+    skill: Skill,
+    localPath: string,
+    onProgress?: (message: string) => void
+  ): Promise<Record<string, string>> {
+    const files = await this.fetchSkillFiles(skill, onProgress);
+    
+    const threshold = this.getBlockSeverity();
+    if (threshold) {
+      const blocking = this.scanFiles(files).findings.filter(finding => isAtLeast(finding.severity, threshold));
+      if (blocking.length > 0) {
+        throw new StagingError(`Blocked by security policy: ${blocking.map(formatFinding).join('; ')}`);
+      }
+    }
+    
+    const fileShas: Record<string, string> = {};
+    for (const file of files) {
+      const filePath = path.join(localPath, ...file.relativePath.split('/'));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.content);
+      fileShas[file.relativePath] = file.node.sha;
+    }
+    
+    return fileShas;
   }
 
   /**
    * Save installation metadata
    */
-  private async saveInstallMetadata(skill: Skill, localPath: string): Promise<void> {
-    const metadata = {
+  private async saveInstallMetadata(
+    skill: Skill,
+    localPath: string,
+    fileShas: Record<string, string>,
+    asDependency?: boolean
+  ): Promise<void> {
+    const metadata: InstallMetadata = {
       id: skill.id,
       name: skill.name,
       repository: skill.repository,
       path: skill.path,
       installedAt: new Date().toISOString(),
-      version: skill.version
+      version: skill.version,
+      sourceVersion: skill.sourceVersion,
+      ref: skill.ref,
+      commit: skill.commit,
+      files: fileShas,
+      installedAsDependency: asDependency || undefined
     };
     
     const metadataPath = path.join(localPath, '.skill-manager.json');
@@ -201,12 +490,13 @@ export class SkillInstaller {
   }
 
   /**
-   * Uninstall a skill
+   * Uninstall a skill. Installed skills are removed from the scope they
+   * live in; other skills from the given scope.
    */
-  public async uninstall(skill: Skill): Promise<void> {
-    const localPath = this.getSkillLocalPath(skill);
+  public async uninstall(skill: Skill | InstalledSkill, scope: InstallScope = this.getGlobalScope()): Promise<void> {
+    const localPath = 'localPath' in skill ? skill.localPath : (await this.findInstalledCopy(skill, scope))?.localPath;
     
-    if (!(await this.isInstalled(skill))) {
+    if (!localPath || !await fs.access(localPath).then(() => true, () => false)) {
       throw new Error(`Skill ${skill.name} is not installed`);
     }
     
@@ -214,10 +504,66 @@ export class SkillInstaller {
   }
 
   /**
-   * List all installed skills
+   * Move an installed skill to another scope
    */
-  public async listInstalled(): Promise<InstalledSkill[]> {
-    const installPath = this.getInstallPath();
+  public async move(skill: InstalledSkill, target: InstallScope): Promise<string> {
+    const targetPath = path.join(target.root, path.basename(skill.localPath));
+    
+    if (path.resolve(targetPath) === path.resolve(skill.localPath)) {
+      return targetPath;
+    }
+    
+    const exists = await fs.access(targetPath).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`${skill.name} is already installed in ${target.label}`);
+    }
+    
+    await this.ensureInstallDirectory(target);
+    await this.moveSkillFolder(skill, targetPath);
+    
+    return targetPath;
+  }
+
+  /**
+   * Move a skill folder, falling back to copy and delete across devices
+   */
+  private async moveSkillFolder(skill: InstalledSkill, targetPath: string): Promise<void> {
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    
+    try {
+      await fs.rename(skill.localPath, targetPath);
+    } catch (error) {
+      // Scopes may live on different devices, where rename is not possible
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.cp(skill.localPath, targetPath, { recursive: true });
+      await fs.rm(skill.localPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * List installed skills in a scope, or in every scope when none is given.
+   * Disabled skills are only included when asked for.
+   */
+  public async listInstalled(scope?: InstallScope, includeDisabled = false): Promise<InstalledSkill[]> {
+    if (!scope) {
+      const perScope = await Promise.all(this.getScopes().map(s => this.listInstalled(s, includeDisabled)));
+      return perScope.flat();
+    }
+    
+    const installedSkills = await this.readSkillsIn(scope.root, scope, false);
+    if (includeDisabled) {
+      installedSkills.push(...await this.readSkillsIn(path.join(scope.root, DISABLED_FOLDER), scope, true));
+    }
+    
+    return installedSkills;
+  }
+
+  /**
+   * Read the skills installed directly below a directory
+   */
+  private async readSkillsIn(installPath: string, scope: InstallScope, disabled: boolean): Promise<InstalledSkill[]> {
     const installedSkills: InstalledSkill[] = [];
     
     try {
@@ -241,7 +587,7 @@ export class SkillInstaller {
           const metadata = this.skillParser.parseSkillMd(skillMdContent);
           
           // Try to read installation metadata
-          let installMetadata: Record<string, unknown> = {};
+          let installMetadata: Partial<InstallMetadata> = {};
           try {
             const metadataContent = await fs.readFile(metadataPath, 'utf-8');
             installMetadata = JSON.parse(metadataContent);
@@ -250,21 +596,29 @@ export class SkillInstaller {
           }
           
           installedSkills.push({
-            id: (installMetadata.id as string) || entry.name,
+            id: installMetadata.id || entry.name,
             name: metadata.name,
             description: metadata.description,
             category: metadata.category,
-            repository: (installMetadata.repository as string) || 'local',
-            path: (installMetadata.path as string) || '',
+            repository: installMetadata.repository || 'local',
+            path: installMetadata.path || '',
             files: [],
             localPath: skillPath,
+            scope,
             installedAt: installMetadata.installedAt 
-              ? new Date(installMetadata.installedAt as string) 
+              ? new Date(installMetadata.installedAt) 
               : new Date(),
             isInstalled: true,
             tags: metadata.tags,
             author: metadata.author,
-            version: metadata.version
+            version: metadata.version,
+            dependencies: metadata.dependencies,
+            installedAsDependency: installMetadata.installedAsDependency,
+            sourceVersion: installMetadata.sourceVersion,
+            ref: installMetadata.ref,
+            commit: installMetadata.commit,
+            fileShas: installMetadata.files,
+            disabled: disabled || undefined
           });
           
         } catch {
@@ -281,12 +635,61 @@ export class SkillInstaller {
     return installedSkills;
   }
 
+  /**
+   * Move an installed skill aside so the agent no longer loads it
+   */
+  public async disable(skill: InstalledSkill): Promise<string> {
+    const targetPath = path.join(skill.scope.root, DISABLED_FOLDER, path.basename(skill.localPath));
+    
+    const exists = await fs.access(targetPath).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`A disabled copy of ${skill.name} already exists in ${skill.scope.label}`);
+    }
+    
+    await this.moveSkillFolder(skill, targetPath);
+    return targetPath;
+  }
+
+  /**
+   * Move a disabled skill back into its scope root
+   */
+  public async enable(skill: InstalledSkill): Promise<string> {
+    const targetPath = path.join(skill.scope.root, path.basename(skill.localPath));
+    
+    const exists = await fs.access(targetPath).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`${skill.name} is already installed in ${skill.scope.label}`);
+    }
+    
+    await this.moveSkillFolder(skill, targetPath);
+    return targetPath;
+  }
+
+  /**
+   * Files of an installed skill that differ from what was installed: added,
+   * removed or edited locally. Every file is hashed, so this is left out of
+   * `listInstalled`. Undefined if no file SHAs were recorded or the folder
+   * could not be read.
+   */
+  public async findModifiedFiles(skill: InstalledSkill): Promise<string[] | undefined> {
+    if (!skill.fileShas) {
+      return undefined;
+    }
+    try {
+      return listChangedFiles(skill.fileShas, await computeFileShas(skill.localPath));
+    } catch {
+      // Folder changed while hashing
+      return undefined;
+    }
+  }
+
   /**
    * Install multiple skills in batch
    */
   public async installBatch(
     skills: Skill[],
-    onProgress?: (current: number, total: number, skill: Skill, status: string) => void
+    onProgress?: (current: number, total: number, skill: Skill, status: string) => void,
+    options: InstallOptions = {}
   ): Promise<InstallResult[]> {
     const results: InstallResult[] = [];
     
@@ -296,7 +699,7 @@ export class SkillInstaller {
       
       const result = await this.install(skill, (msg) => {
         onProgress?.(i + 1, skills.length, skill, msg);
-      });
+      }, options);
       
       results.push(result);
       
@@ -308,4 +711,164 @@ export class SkillInstaller {
     
     return results;
   }
+
+  /**
+   * Compare installed skills against their upstream repository trees.
+   * The ref pinned in configuration wins over the ref recorded at install
+   * time. Skills installed without file SHAs (older installs or local
+   * skills) cannot be compared and are skipped.
+   */
+  public async checkForUpdates(installed?: InstalledSkill[]): Promise<SkillUpdate[]> {
+    const skills = (installed ?? await this.listInstalled())
+      .filter(s => s.repository !== 'local' && s.fileShas);
+    const updates: SkillUpdate[] = [];
+    const trees = new Map<string, RepositoryTree>();
+    
+    for (const skill of skills) {
+      try {
+        // Revalidate each repository ref once per check
+        const ref = this.githubService.getConfiguredRef(skill.repository) ?? skill.ref;
+        const treeKey = `${skill.repository}@${ref ?? ''}`;
+        let tree = trees.get(treeKey);
+        if (!tree) {
+          tree = await this.githubService.fetchRepositoryTree(skill.repository, ref, true);
+          trees.set(treeKey, tree);
+        }
+        const upstreamShas = this.githubService.getSkillFileShas(tree, skill.path);
+        const diff = diffFileShas(skill.fileShas!, upstreamShas);
+        
+        if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+          continue;
+        }
+        
+        updates.push({
+          installed: skill,
+          latest: {
+            id: skill.id,
+            name: skill.name,
+            description: skill.description,
+            category: skill.category,
+            repository: skill.repository,
+            path: skill.path,
+            files: this.githubService.getSkillFiles(tree, skill.path),
+            sourceVersion: tree.sha,
+            ref: tree.ref,
+            commit: tree.commit
+          },
+          ...diff,
+          upstreamShas
+        });
+      } catch (error) {
+        console.error(`Failed to check ${skill.name} for updates:`, error);
+      }
+    }
+    
+    return updates;
+  }
+
+  /**
+   * Work out which local edits an update keeps and which conflict with
+   * upstream changes. Skills installed without file SHAs have no base to
+   * compare with, so their local edits are not detected.
+   */
+  public async planUpdate(update: SkillUpdate): Promise<LocalMergePlan> {
+    const base = update.installed.fileShas;
+    if (!base) {
+      return { keepLocal: [], conflicts: [] };
+    }
+    return planLocalMerge(base, await computeFileShas(update.installed.localPath), update.upstreamShas);
+  }
+
+  /**
+   * Read the installed, local and upstream versions of a file of a skill
+   * being updated
+   */
+  public async getMergeInputs(update: SkillUpdate, relativePath: string): Promise<MergeInputs> {
+    const { installed, latest } = update;
+    const repositoryPath = installed.path ? `${installed.path}/${relativePath}` : relativePath;
+    const baseSha = installed.fileShas?.[relativePath];
+    const upstreamSha = update.upstreamShas[relativePath];
+    
+    const [base, local, upstream] = await Promise.all([
+      baseSha
+        ? this.githubService.downloadFile(installed.repository, repositoryPath, installed.commit ?? installed.ref ?? 'HEAD', baseSha)
+        : undefined,
+      fs.readFile(path.join(installed.localPath, ...relativePath.split('/'))).catch(() => undefined),
+      upstreamSha
+        ? this.githubService.downloadFile(latest.repository, repositoryPath, latest.commit ?? latest.ref ?? 'HEAD', upstreamSha)
+        : undefined
+    ]);
+    return { base, local, upstream };
+  }
+
+  /**
+   * Replace an installed skill with its latest upstream version. Files
+   * edited only locally are kept; files changed on both sides follow the
+   * given resolutions and take the upstream version when there is none.
+   */
+  public async update(
+    update: SkillUpdate,
+    onProgress?: (message: string) => void,
+    resolutions: Record<string, FileResolution> = {}
+  ): Promise<InstallResult> {
+    onProgress?.(`Updating ${update.installed.name}...`);
+    const plan = await this.planUpdate(update);
+    const keepLocal = [
+      ...plan.keepLocal,
+      ...plan.conflicts.filter(filePath => resolutions[filePath]?.type === 'local')
+    ];
+    
+    return this.reinstall(update.installed, update.latest, onProgress, async stagingPath => {
+      const writeStaged = async (relativePath: string, content: Buffer | undefined) => {
+        const stagedFile = path.join(stagingPath, ...relativePath.split('/'));
+        if (content) {
+          await fs.mkdir(path.dirname(stagedFile), { recursive: true });
+          await fs.writeFile(stagedFile, content);
+        } else {
+          await fs.rm(stagedFile, { force: true });
+        }
+      };
+      
+      for (const relativePath of keepLocal) {
+        // Missing content means the file was deleted locally
+        const localFile = path.join(update.installed.localPath, ...relativePath.split('/'));
+        await writeStaged(relativePath, await fs.readFile(localFile).catch(() => undefined));
+      }
+      for (const [relativePath, resolution] of Object.entries(resolutions)) {
+        if (resolution.type === 'merged' && plan.conflicts.includes(relativePath)) {
+          await writeStaged(relativePath, resolution.content);
+        }
+      }
+    });
+  }
+
+  /**
+   * Install the steps of a dependency plan in order. The last step is the
+   * requested skill; every other skill is recorded as a dependency, even
+   * when the requested skill itself is already installed. Stops at the
+   * first failure so a skill is never installed without its dependencies.
+   */
+  public async installPlan(
+    steps: InstallPlanStep[],
+    onProgress?: (message: string) => void,
+    options: InstallOptions = {}
+  ): Promise<InstallResult[]> {
+    const results: InstallResult[] = [];
+    const requested = steps[steps.length - 1]?.skill;
+    const pending = steps.filter(step => !step.alreadyInstalled);
+    
+    for (const step of pending) {
+      const result = await this.install(step.skill, onProgress, {
+        ...options,
+        asDependency: !requested || !isSameSkill(step.skill, requested)
+      });
+      results.push(result);
+      
+      if (!result.success) {
+        break;
+      }
+    }
+    
+    return results;
+  }
 }
@@ -0,0 +1,200 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { LintProblem } from '../models/skill';
+import { SkillParser } from './skillParser';
+
+/**
+ * Markdown links and images: [text](target) / ![alt](target "title")
+ */
+const MARKDOWN_LINK_REGEX = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+/**
+ * Inline code that looks like a path to a file shipped with the skill
+ */
+const CODE_PATH_REGEX = /`((?:\.\/)?(?:scripts|examples|resources|templates)\/[^`\s]+)`/g;
+
+/**
+ * Lints SKILL.md files: frontmatter structure, metadata rules and links
+ * to files that should ship alongside the skill
+ */
+export class SkillLinter {
+  constructor(private skillParser: SkillParser) {}
+
+  /**
+   * Lint SKILL.md content. Relative links are checked against skillDir
+   * when given.
+   */
+  public async lint(content: string, skillDir?: string): Promise<LintProblem[]> {
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+    const problems: LintProblem[] = [];
+    const result = this.skillParser.parse(content);
+    const frontmatterEnd = this.findFrontmatterEnd(lines);
+
+    const lineRange = (line: number, column = 0) => ({
+      line,
+      column,
+      endLine: line,
+      endColumn: Math.max(lines[line]?.length ?? 0, column + 1)
+    });
+
+    if (!result.hasFrontmatter) {
+      problems.push({
+        message: 'SKILL.md must start with YAML frontmatter (---) declaring at least a name and description',
+        severity: 'error',
+        code: 'missing-frontmatter',
+        ...lineRange(0)
+      });
+    } else if (frontmatterEnd !== undefined && lines.slice(1, frontmatterEnd).every(line => !line.trim() || line.trim().startsWith('#'))) {
+      problems.push({
+        message: 'Frontmatter is empty',
+        severity: 'error',
+        code: 'empty-frontmatter',
+        ...lineRange(0)
+      });
+    }
+
+    for (const problem of result.problems) {
+      // Reported above with a more specific message
+      if (!result.hasFrontmatter && problem.line === 0 && !problem.key) {
+        continue;
+      }
+      problems.push({
+        message: problem.message,
+        severity: problem.severity,
+        code: problem.key ? 'invalid-field' : 'invalid-yaml',
+        ...lineRange(problem.line, problem.column)
+      });
+    }
+
+    // Metadata rules are meaningless while the YAML itself does not parse
+    const yamlBroken = result.problems.some(p => !p.key && p.severity === 'error');
+    if (result.hasFrontmatter && !yamlBroken) {
+      for (const issue of this.skillParser.validateFields(result.metadata)) {
+        const line = issue.key ? this.findKeyLine(lines, issue.key, frontmatterEnd) : undefined;
+        problems.push({
+          message: issue.message,
+          severity: issue.severity,
+          code: issue.key && result.metadata.extra && issue.key in result.metadata.extra ? 'unknown-key' : 'invalid-metadata',
+          ...lineRange(line ?? 0)
+        });
+      }
+    }
+
+    if (skillDir) {
+      problems.push(...await this.checkLinks(lines, frontmatterEnd ?? -1, skillDir));
+    }
+
+    return problems;
+  }
+
+  /**
+   * Find the line of the closing frontmatter delimiter
+   */
+  private findFrontmatterEnd(lines: string[]): number | undefined {
+    if (lines[0]?.trim() !== '---') {
+      return undefined;
+    }
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim() === '---') {
+        return i;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the line a top-level frontmatter key is declared on
+   */
+  private findKeyLine(lines: string[], key: string, frontmatterEnd?: number): number | undefined {
+    const end = frontmatterEnd ?? lines.length;
+    for (let i = 1; i < end; i++) {
+      if (lines[i].startsWith(`${key}:`) || lines[i].startsWith(`"${key}":`) || lines[i].startsWith(`'${key}':`)) {
+        return i;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check that relative links in the body point at files that exist
+   */
+  private async checkLinks(lines: string[], bodyStart: number, skillDir: string): Promise<LintProblem[]> {
+    const problems: LintProblem[] = [];
+    let inCodeBlock = false;
+
+    for (let i = bodyStart + 1; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.trim().startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock) {
+        continue;
+      }
+
+      const targets: { target: string; column: number }[] = [];
+      for (const match of line.matchAll(MARKDOWN_LINK_REGEX)) {
+        targets.push({ target: match[1], column: match.index! + match[0].indexOf(match[1]) });
+      }
+      for (const match of line.matchAll(CODE_PATH_REGEX)) {
+        targets.push({ target: match[1], column: match.index! + 1 });
+      }
+
+      for (const { target, column } of targets) {
+        if (!this.isRelativeTarget(target)) {
+          continue;
+        }
+
+        const filePath = this.decodeTarget(target.split('#')[0].split('?')[0]);
+        const resolved = path.resolve(skillDir, filePath);
+
+        if (!resolved.startsWith(path.resolve(skillDir) + path.sep)) {
+          problems.push({
+            message: `Link "${target}" points outside the skill folder`,
+            severity: 'warning',
+            code: 'external-link',
+            line: i,
+            column,
+            endLine: i,
+            endColumn: column + target.length
+          });
+          continue;
+        }
+
+        try {
+          await fs.access(resolved);
+        } catch {
+          problems.push({
+            message: `Linked file "${filePath}" does not exist in the skill folder`,
+            severity: 'error',
+            code: 'broken-link',
+            line: i,
+            column,
+            endLine: i,
+            endColumn: column + target.length
+          });
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Decode percent-escapes in a link target, leaving malformed ones as-is
+   */
+  private decodeTarget(target: string): string {
+    try {
+      return decodeURI(target);
+    } catch {
+      return target;
+    }
+  }
+
+  /**
+   * Whether a link target refers to a file relative to the skill
+   */
+  private isRelativeTarget(target: string): boolean {
+    return !/^[a-z][a-z0-9+.-]*:/i.test(target) && !target.startsWith('#') && !target.startsWith('/');
+  }
+}
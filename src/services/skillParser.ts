@@ -1,4 +1,49 @@
-import { SkillMetadata, ValidationResult } from '../models/skill';
+import matter from 'gray-matter';
+import { SkillMetadata, SkillParseResult, ParseProblem, ValidationResult, ValidationIssue } from '../models/skill';
+
+/**
+ * Value types supported by the SKILL.md frontmatter schema
+ */
+type FieldType = 'string' | 'string[]';
+
+/**
+ * Typed schema for the known SKILL.md frontmatter fields
+ */
+const METADATA_SCHEMA: { [K in Exclude<keyof SkillMetadata, 'extra'>]: FieldType } = {
+  name: 'string',
+  description: 'string',
+  category: 'string',
+  tags: 'string[]',
+  author: 'string',
+  version: 'string',
+  triggers: 'string[]',
+  dependencies: 'string[]'
+};
+
+/** Maximum recommended length of a skill name */
+export const MAX_NAME_LENGTH = 64;
+
+/** Maximum recommended length of a skill description */
+export const MAX_DESCRIPTION_LENGTH = 1024;
+
+/**
+ * Fallback split of frontmatter and body, used when the YAML is invalid
+ */
+const FRONTMATTER_REGEX = /^---[ \t]*(?:\w+[ \t]*)?\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+/** Frontmatter languages SKILL.md files may declare after the opening fence */
+const YAML_LANGUAGES = ['yaml', 'yml'];
+
+/**
+ * Refuses frontmatter in another language. gray-matter's built-in
+ * javascript engine evals the frontmatter, so it must never run on skill
+ * files from a repository.
+ */
+const rejectLanguage = {
+  parse: (): never => {
+    throw new Error('Only YAML frontmatter is supported');
+  }
+};
 
 /**
  * Parse YAML frontmatter from SKILL.md content
@@ -6,75 +51,105 @@ import { SkillMetadata, ValidationResult } from '../models/skill';
 export class SkillParser {
   
   /**
-   * Extract YAML frontmatter from markdown content
+   * Locate a top-level key in the raw frontmatter. The raw frontmatter
+   * starts on the line of the opening delimiter, so its line numbers are
+   * file line numbers.
    */
-  private extractFrontmatter(content: string): { frontmatter: string; body: string } | null {
-    const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
-    const match = content.match(frontmatterRegex);
+  private locateKey(rawLines: string[], key: string): { line: number; valueColumn: number } {
+    const keyRegex = new RegExp(`^(["']?)${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\1\\s*:\\s*`);
     
-    if (!match) {
-      return null;
+    for (let i = 0; i < rawLines.length; i++) {
+      const match = rawLines[i].match(keyRegex);
+      if (match) {
+        return { line: i, valueColumn: match[0].length };
+      }
     }
     
-    return {
-      frontmatter: match[1],
-      body: match[2]
-    };
+    return { line: 0, valueColumn: 0 };
   }
 
   /**
-   * Parse simple YAML (handles basic key: value pairs)
+   * Coerce a frontmatter value to a schema type, recording problems
    */
-  private parseSimpleYaml(yaml: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    const lines = yaml.split('\n');
-    let currentKey = '';
-    let currentArray: string[] | null = null;
+  private coerceField(
+    key: string,
+    value: unknown,
+    type: FieldType,
+    report: (message: string, severity: 'error' | 'warning') => void
+  ): string | string[] | undefined {
+    if (value === null || value === undefined) {
+      report(`"${key}" is empty`, 'warning');
+      return undefined;
+    }
     
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Skip empty lines and comments
-      if (!trimmed || trimmed.startsWith('#')) {
-        continue;
+    if (type === 'string') {
+      if (typeof value === 'string') {
+        return value.trim();
       }
-      
-      // Check for array item
-      if (trimmed.startsWith('- ')) {
-        if (currentArray) {
-          currentArray.push(trimmed.slice(2).trim());
-        }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        report(`"${key}" was read as a ${typeof value}; quote it to keep it as text`, 'warning');
+        return String(value);
+      }
+      if (value instanceof Date) {
+        report(`"${key}" was read as a date; quote it to keep it as text`, 'warning');
+        return value.toISOString().slice(0, 10);
+      }
+      report(`"${key}" must be a string`, 'error');
+      return undefined;
+    }
+    
+    if (typeof value === 'string') {
+      report(`"${key}" should be a list (e.g. ${key}: [a, b]); splitting on commas`, 'warning');
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(value)) {
+      report(`"${key}" must be a list of strings`, 'error');
+      return undefined;
+    }
+    
+    const items: string[] = [];
+    for (const item of value) {
+      if (typeof item === 'string') {
+        items.push(item.trim());
+      } else if (typeof item === 'number' || typeof item === 'boolean') {
+        items.push(String(item));
+      } else {
+        report(`"${key}" must be a list of strings; ignoring ${JSON.stringify(item)}`, 'error');
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Map parsed frontmatter data onto SkillMetadata through the schema
+   */
+  private mapToMetadata(
+    data: Record<string, unknown>,
+    rawLines: string[],
+    problems: ParseProblem[]
+  ): Partial<SkillMetadata> {
+    const metadata: Partial<SkillMetadata> = {};
+    const extra: Record<string, unknown> = {};
+    const fields = metadata as Record<string, string | string[] | undefined>;
+    
+    for (const [key, value] of Object.entries(data)) {
+      const type = (METADATA_SCHEMA as Record<string, FieldType>)[key];
+      if (!type) {
+        extra[key] = value;
         continue;
       }
       
-      // Check for key: value pair
-      const colonIndex = trimmed.indexOf(':');
-      if (colonIndex > 0) {
-        // Save previous array if exists
-        if (currentArray && currentKey) {
-          result[currentKey] = currentArray;
-          currentArray = null;
-        }
-        
-        currentKey = trimmed.slice(0, colonIndex).trim();
-        const value = trimmed.slice(colonIndex + 1).trim();
-        
-        if (value === '') {
-          // Might be an array starting on next line
-          currentArray = [];
-        } else {
-          // Remove quotes if present
-          result[currentKey] = value.replace(/^["']|["']$/g, '');
-        }
-      }
+      const position = this.locateKey(rawLines, key);
+      fields[key] = this.coerceField(key, value, type, (message, severity) => {
+        problems.push({ message, severity, line: position.line, column: position.valueColumn, key });
+      });
     }
     
-    // Don't forget the last array
-    if (currentArray && currentKey) {
-      result[currentKey] = currentArray;
+    if (Object.keys(extra).length > 0) {
+      metadata.extra = extra;
     }
     
-    return result;
+    return metadata;
   }
 
   /**
@@ -113,55 +188,124 @@ export class SkillParser {
   }
 
   /**
-   * Parse SKILL.md content and extract metadata
+   * Parse SKILL.md content into metadata, body and any problems found
    */
-  public parseSkillMd(content: string): SkillMetadata {
-    const extracted = this.extractFrontmatter(content);
+  public parse(content: string): SkillParseResult {
+    const problems: ParseProblem[] = [];
+    let parsed: matter.GrayMatterFile<string>;
     
-    if (!extracted) {
-      // No frontmatter, try to extract from body
+    try {
+      // Passing options disables gray-matter's unbounded module-level cache
+      parsed = matter(content, { engines: { javascript: rejectLanguage, json: rejectLanguage } });
+      if (!YAML_LANGUAGES.includes(parsed.language.toLowerCase())) {
+        throw new Error(`"${parsed.language}" frontmatter is not supported, use YAML`);
+      }
+    } catch (error) {
+      const mark = (error as { mark?: { line: number; column: number } }).mark;
+      const reason = (error as { reason?: string }).reason ?? (error instanceof Error ? error.message : String(error));
+      problems.push({
+        message: `Invalid YAML frontmatter: ${reason}`,
+        severity: 'error',
+        line: mark?.line ?? 0,
+        column: mark?.column ?? 0
+      });
+      
+      const body = content.match(FRONTMATTER_REGEX)?.[1] ?? content;
       return {
-        name: 'Unknown Skill',
-        description: this.extractDescription(content)
+        metadata: { name: 'Unknown Skill', description: this.extractDescription(body) },
+        body,
+        hasFrontmatter: true,
+        problems
       };
     }
     
-    const yaml = this.parseSimpleYaml(extracted.frontmatter);
-    const description = (yaml.description as string) || this.extractDescription(extracted.body);
+    const hasFrontmatter = parsed.matter !== undefined && content.trimStart().startsWith('---');
+    if (!hasFrontmatter) {
+      problems.push({ message: 'SKILL.md has no YAML frontmatter', severity: 'warning', line: 0, column: 0 });
+    }
+    
+    let data: Record<string, unknown> = {};
+    if (parsed.data && typeof parsed.data === 'object' && !Array.isArray(parsed.data)) {
+      data = parsed.data;
+    } else if (parsed.data) {
+      problems.push({ message: 'Frontmatter must be a mapping of key: value pairs', severity: 'error', line: 1, column: 0 });
+    }
+    
+    const rawLines = (parsed.matter ?? '').split('\n').map(line => line.replace(/\r$/, ''));
+    const fields = this.mapToMetadata(data, rawLines, problems);
     
     return {
-      name: (yaml.name as string) || 'Unknown Skill',
-      description,
-      category: yaml.category as string | undefined,
-      tags: yaml.tags as string[] | undefined,
-      author: yaml.author as string | undefined,
-      version: yaml.version as string | undefined,
-      triggers: yaml.triggers as string[] | undefined,
-      dependencies: yaml.dependencies as string[] | undefined
+      metadata: {
+        ...fields,
+        name: fields.name || 'Unknown Skill',
+        description: fields.description || this.extractDescription(parsed.content)
+      },
+      body: parsed.content,
+      hasFrontmatter,
+      problems
     };
   }
 
   /**
-   * Validate skill metadata
+   * Parse SKILL.md content and extract metadata
    */
-  public validateSkill(metadata: SkillMetadata): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+  public parseSkillMd(content: string): SkillMetadata {
+    return this.parse(content).metadata;
+  }
+
+  /**
+   * Check skill metadata against the validation rules
+   */
+  public validateFields(metadata: SkillMetadata): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
     
     // Required fields
     if (!metadata.name || metadata.name === 'Unknown Skill') {
-      errors.push('Skill name is required in SKILL.md frontmatter');
+      issues.push({ message: 'Skill name is required in SKILL.md frontmatter', severity: 'error', key: 'name' });
     }
     
     if (!metadata.description) {
-      warnings.push('Skill description is recommended');
+      issues.push({ message: 'Skill description is recommended', severity: 'warning', key: 'description' });
+    } else if (metadata.description.length > MAX_DESCRIPTION_LENGTH) {
+      issues.push({
+        message: `Skill description is ${metadata.description.length} characters; keep it under ${MAX_DESCRIPTION_LENGTH}`,
+        severity: 'warning',
+        key: 'description'
+      });
     }
     
     // Validate name format
     if (metadata.name && !/^[\w\s-]+$/.test(metadata.name)) {
-      warnings.push('Skill name should only contain letters, numbers, spaces, and hyphens');
+      issues.push({
+        message: 'Skill name should only contain letters, numbers, spaces, and hyphens',
+        severity: 'warning',
+        key: 'name'
+      });
+    }
+    
+    if (metadata.name && metadata.name.length > MAX_NAME_LENGTH) {
+      issues.push({
+        message: `Skill name should be at most ${MAX_NAME_LENGTH} characters`,
+        severity: 'warning',
+        key: 'name'
+      });
     }
     
+    for (const key of Object.keys(metadata.extra ?? {})) {
+      issues.push({ message: `Unknown frontmatter key "${key}"`, severity: 'warning', key });
+    }
+    
+    return issues;
+  }
+
+  /**
+   * Validate skill metadata
+   */
+  public validateSkill(metadata: SkillMetadata): ValidationResult {
+    const issues = this.validateFields(metadata);
+    const errors = issues.filter(i => i.severity === 'error').map(i => i.message);
+    const warnings = issues.filter(i => i.severity === 'warning').map(i => i.message);
+    
     return {
       isValid: errors.length === 0,
       errors,
@@ -0,0 +1,60 @@
+import { InstalledSkill } from '../models/skill';
+
+/**
+ * Named sets of skill ids to keep enabled, e.g. "frontend work" or
+ * "security review"
+ */
+export type SkillProfiles = Record<string, string[]>;
+
+/**
+ * What switching to a profile changes
+ */
+export interface ProfilePlan {
+  /** Disabled skills in the profile */
+  enable: InstalledSkill[];
+  /** Enabled skills not in the profile */
+  disable: InstalledSkill[];
+  /** Skill ids in the profile that are not installed in any scope */
+  missing: string[];
+}
+
+/**
+ * Read profiles from configuration, dropping entries that are not lists
+ * of skill ids
+ */
+export function normalizeProfiles(value: unknown): SkillProfiles {
+  const profiles: SkillProfiles = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return profiles;
+  }
+
+  for (const [name, ids] of Object.entries(value as Record<string, unknown>)) {
+    if (name.trim() && Array.isArray(ids)) {
+      profiles[name] = [...new Set(ids.filter((id): id is string => typeof id === 'string'))];
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Work out which installed skills to enable and disable so that exactly
+ * the skills of a profile are enabled, in every scope
+ */
+export function planProfile(installed: InstalledSkill[], skillIds: string[]): ProfilePlan {
+  const wanted = new Set(skillIds);
+  const installedIds = new Set(installed.map(s => s.id));
+
+  return {
+    enable: installed.filter(s => s.disabled && wanted.has(s.id)),
+    disable: installed.filter(s => !s.disabled && !wanted.has(s.id)),
+    missing: skillIds.filter(id => !installedIds.has(id))
+  };
+}
+
+/**
+ * Whether switching to a profile would change nothing
+ */
+export function isProfileActive(installed: InstalledSkill[], skillIds: string[]): boolean {
+  const plan = planProfile(installed, skillIds);
+  return plan.enable.length === 0 && plan.disable.length === 0;
+}
@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SkillMetadata } from '../models/skill';
+import { PublishFile } from '../models/publish';
+import { sanitizeFolderName } from './installLayout';
+
+/** Entries never published: install metadata, VCS folders and OS clutter */
+const IGNORED_ENTRIES = /^(\.skill-manager.*|\.git|\.DS_Store|Thumbs\.db)$/;
+
+/**
+ * Read every file of a skill folder to publish, with forward-slash paths
+ * relative to it
+ */
+export async function readSkillFolder(dir: string): Promise<PublishFile[]> {
+  const files: PublishFile[] = [];
+
+  const walk = async (current: string, relative: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (IGNORED_ENTRIES.test(entry.name)) {
+        continue;
+      }
+      const entryPath = path.join(current, entry.name);
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(entryPath, entryRelative);
+      } else if (entry.isFile()) {
+        const stat = await fs.stat(entryPath);
+        files.push({
+          path: entryRelative,
+          content: await fs.readFile(entryPath),
+          executable: (stat.mode & 0o111) !== 0 || undefined
+        });
+      }
+    }
+  };
+
+  await walk(dir, '');
+  return files;
+}
+
+/**
+ * Suggest where to put a skill in a repository: next to its existing
+ * skills (in the folder most of them share), or at the top level
+ */
+export function getDefaultTargetPath(skillDirs: string[], name: string): string {
+  const counts = new Map<string, number>();
+  for (const dir of skillDirs) {
+    const parent = dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '';
+    counts.set(parent, (counts.get(parent) ?? 0) + 1);
+  }
+  const [parent] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? [''];
+  const folder = sanitizeFolderName(name);
+  return parent ? `${parent}/${folder}` : folder;
+}
+
+/**
+ * Name of the branch a skill is published on, unique per publish
+ */
+export function getPublishBranch(name: string, now = new Date()): string {
+  const stamp = now.toISOString().replace(/\D/g, '').slice(0, 14);
+  return `skill-manager/${sanitizeFolderName(name)}-${stamp}`;
+}
+
+/**
+ * Title, description and commit message of the pull request publishing a
+ * skill, generated from its frontmatter
+ */
+export function describePullRequest(
+  metadata: SkillMetadata,
+  files: PublishFile[],
+  targetPath: string,
+  updating: boolean
+): { title: string; body: string; message: string } {
+  const title = `${updating ? 'Update' : 'Add'} skill: ${metadata.name}`;
+  const rows: [string, string | undefined][] = [
+    ['Path', `\`${targetPath || '/'}\``],
+    ['Version', metadata.version],
+    ['Author', metadata.author],
+    ['Category', metadata.category],
+    ['Tags', metadata.tags?.join(', ')],
+    ['Triggers', metadata.triggers?.join(', ')],
+    ['Dependencies', metadata.dependencies?.join(', ')]
+  ];
+
+  const body = [
+    `## ${metadata.name}`,
+    '',
+    metadata.description,
+    '',
+    '| | |',
+    '|---|---|',
+    ...rows.filter(([, value]) => value).map(([label, value]) => `| ${label} | ${value!.replace(/\|/g, '\\|')} |`),
+    '',
+    `### Files (${files.length})`,
+    '',
+    ...files.map(file => `- \`${file.path}\`${file.executable ? ' (executable)' : ''}`),
+    '',
+    '_Published with Skill Manager._'
+  ].join('\n');
+
+  return { title, body, message: `${title}\n\n${metadata.description}` };
+}
@@ -0,0 +1,202 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import matter from 'gray-matter';
+import { SkillMetadata } from '../models/skill';
+import { PublishFile } from '../models/publish';
+
+/** Optional subfolders a new skill can be created with */
+export const SKILL_FOLDERS = ['scripts', 'examples', 'resources'] as const;
+
+/**
+ * One of the optional subfolders of a skill
+ */
+export type SkillFolder = typeof SKILL_FOLDERS[number];
+
+/**
+ * A built-in starting point for a new skill
+ */
+export interface BuiltinTemplate {
+  id: string;
+  label: string;
+  description: string;
+  /** Subfolders the template includes by default */
+  folders: SkillFolder[];
+}
+
+/**
+ * A skill folder to start a new skill from: its files and SKILL.md body
+ */
+export interface TemplateSource {
+  files: PublishFile[];
+  body: string;
+}
+
+/** Templates shipped with the extension */
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  { id: 'basic', label: 'Basic', description: 'Instructions in SKILL.md only', folders: [] },
+  { id: 'script', label: 'Script', description: 'Instructions that run a helper script', folders: ['scripts'] },
+  { id: 'reference', label: 'Reference', description: 'Instructions backed by examples and reference material', folders: ['examples', 'resources'] },
+  { id: 'complete', label: 'Complete', description: 'Scripts, examples and resources', folders: ['scripts', 'examples', 'resources'] }
+];
+
+/** Frontmatter keys in the order they are written */
+const FRONTMATTER_KEYS: (keyof SkillMetadata)[] = [
+  'name', 'description', 'category', 'tags', 'triggers', 'author', 'version', 'dependencies'
+];
+
+/**
+ * Split a comma-separated list typed by the user, dropping blanks and
+ * duplicates
+ */
+export function parseList(input: string): string[] {
+  return [...new Set(input.split(',').map(item => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Which optional subfolders a set of skill files has
+ */
+export function getTemplateFolders(files: PublishFile[]): SkillFolder[] {
+  return SKILL_FOLDERS.filter(folder => files.some(file => file.path.startsWith(`${folder}/`)));
+}
+
+/**
+ * Starter files of an optional subfolder
+ */
+function getFolderFiles(folder: SkillFolder, metadata: SkillMetadata): PublishFile[] {
+  switch (folder) {
+    case 'scripts':
+      return [{
+        path: 'scripts/run.sh',
+        content: Buffer.from([
+          '#!/usr/bin/env bash',
+          `# Helper script for the ${metadata.name} skill`,
+          'set -euo pipefail',
+          '',
+          'echo "Usage: scripts/run.sh <args>"',
+          ''
+        ].join('\n')),
+        executable: true
+      }];
+    case 'examples':
+      return [{
+        path: 'examples/example.md',
+        content: Buffer.from([
+          '# Example',
+          '',
+          '## Request',
+          '',
+          'What the user asks for.',
+          '',
+          '## Response',
+          '',
+          `What the agent produces with the ${metadata.name} skill.`,
+          ''
+        ].join('\n'))
+      }];
+    case 'resources':
+      return [{
+        path: 'resources/README.md',
+        content: Buffer.from([
+          '# Resources',
+          '',
+          `Reference material for the ${metadata.name} skill: checklists, style guides, schemas or API notes the instructions point to.`,
+          ''
+        ].join('\n'))
+      }];
+  }
+}
+
+/**
+ * Markdown body of a new skill's SKILL.md, with a section for each
+ * optional subfolder
+ */
+export function renderSkillBody(metadata: SkillMetadata, folders: SkillFolder[]): string {
+  const sections: Record<SkillFolder, string[]> = {
+    scripts: ['## Scripts', '', 'Run `scripts/run.sh` from the skill folder and use its output in your answer.'],
+    examples: ['## Examples', '', 'Follow the requests and responses in `examples/`.'],
+    resources: ['## Resources', '', 'Consult the reference material in `resources/` before answering.']
+  };
+
+  return [
+    `# ${metadata.name}`,
+    '',
+    metadata.description,
+    '',
+    '## When to Use',
+    '',
+    ...(metadata.triggers?.length ? metadata.triggers.map(trigger => `- ${trigger}`) : ['- Describe the requests this skill handles']),
+    '',
+    '## Instructions',
+    '',
+    '1. Describe the first step',
+    '2. Describe the next step',
+    '',
+    ...SKILL_FOLDERS.filter(folder => folders.includes(folder)).flatMap(folder => [...sections[folder], ''])
+  ].join('\n');
+}
+
+/**
+ * SKILL.md content with the metadata as YAML frontmatter; empty fields
+ * are left out
+ */
+export function renderSkillMd(metadata: SkillMetadata, body: string): string {
+  const data: Record<string, string | string[]> = {};
+  for (const key of FRONTMATTER_KEYS) {
+    const value = metadata[key] as string | string[] | undefined;
+    if (Array.isArray(value) ? value.length > 0 : value) {
+      data[key] = value!;
+    }
+  }
+  return matter.stringify(`\n${body.trimStart()}`, data);
+}
+
+/**
+ * Files of a new skill: the template's files (or the built-in starter
+ * files) limited to the chosen subfolders, and a SKILL.md generated from
+ * the metadata that keeps the template's instructions
+ */
+export function scaffoldSkill(metadata: SkillMetadata, folders: SkillFolder[], template?: TemplateSource): PublishFile[] {
+  const isExcluded = (filePath: string) =>
+    SKILL_FOLDERS.some(folder => !folders.includes(folder) && filePath.startsWith(`${folder}/`));
+  const templateFiles = (template?.files ?? []).filter(file => file.path !== 'SKILL.md' && !isExcluded(file.path));
+  const templateFolders = getTemplateFolders(templateFiles);
+  const starterFiles = folders
+    .filter(folder => !templateFolders.includes(folder))
+    .flatMap(folder => getFolderFiles(folder, metadata));
+
+  return [
+    { path: 'SKILL.md', content: Buffer.from(renderSkillMd(metadata, template?.body ?? renderSkillBody(metadata, folders))) },
+    ...[...templateFiles, ...starterFiles].sort((a, b) => a.path.localeCompare(b.path))
+  ];
+}
+
+/**
+ * List the template folders in a directory, or nothing if it does not exist
+ */
+export async function listTemplateFolders(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => path.join(dir, entry.name))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write the files of a new skill into a folder that must not exist yet
+ */
+export async function writeSkillFolder(dir: string, files: PublishFile[]): Promise<void> {
+  await fs.mkdir(path.dirname(dir), { recursive: true });
+  await fs.mkdir(dir);
+  for (const file of files) {
+    const filePath = path.join(dir, ...file.path.split('/'));
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content, { mode: file.executable ? 0o755 : 0o644 });
+  }
+}
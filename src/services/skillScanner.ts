@@ -0,0 +1,226 @@
+import * as path from 'path';
+import { RiskFinding, RiskReport, RiskSeverity, ScannedFile } from '../models/security';
+
+/**
+ * Severities from least to most severe
+ */
+export const SEVERITIES: RiskSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * A pattern to look for in text files
+ */
+interface TextRule {
+  rule: string;
+  severity: RiskSeverity;
+  pattern: RegExp;
+  message: string;
+}
+
+const TEXT_RULES: TextRule[] = [
+  {
+    rule: 'pipe-to-shell',
+    severity: 'critical',
+    pattern: /\b(?:curl|wget|iwr|Invoke-WebRequest|irm|Invoke-RestMethod)\b[^\n|]*\|\s*(?:sudo\s+)?(?:(?:ba|z|da|k)?sh|python3?|node|perl|ruby|iex|Invoke-Expression)\b/i,
+    message: 'Downloads a script and runs it'
+  },
+  {
+    rule: 'decode-and-run',
+    severity: 'critical',
+    pattern: /\bbase64\s+(?:-d|-D|--decode)\b[^\n]*\|\s*(?:sudo\s+)?(?:(?:ba|z|da)?sh|python3?|node|perl)\b|\b(?:exec|eval)\s*\(\s*(?:base64\.b64decode|atob|Buffer\.from)\(/i,
+    message: 'Decodes hidden content and runs it'
+  },
+  {
+    rule: 'reverse-shell',
+    severity: 'critical',
+    pattern: /\/dev\/tcp\/|\bnc(?:at)?\b[^\n]*\s(?:-e|-c|--exec|--sh-exec)\s|\bsocat\b[^\n]*\bexec:/i,
+    message: 'Opens a shell over the network'
+  },
+  {
+    rule: 'destructive-command',
+    severity: 'high',
+    pattern: /\brm\s+(?:-[a-z]*r[a-z]*f[a-z]*|-[a-z]*f[a-z]*r[a-z]*|-r\s+-f|-f\s+-r|--recursive\s+--force|--force\s+--recursive)\b|\bmkfs(?:\.\w+)?\s|\bdd\s+[^\n]*\bof=\/dev\/|\bRemove-Item\b[^\n]*-Recurse[^\n]*-Force/i,
+    message: 'Deletes files recursively or overwrites a disk'
+  },
+  {
+    rule: 'credential-access',
+    severity: 'high',
+    pattern: /~\/\.ssh\b|\bid_(?:rsa|dsa|ecdsa|ed25519)\b|\.aws\/credentials|\.netrc\b|\.git-credentials\b|\.npmrc\b|\.pypirc\b|\.docker\/config\.json|\.kube\/config|\bsecurity\s+find-(?:generic|internet)-password\b|Login Data|\bgh\s+auth\s+token\b/i,
+    message: 'Reads stored credentials or keys'
+  },
+  {
+    rule: 'embedded-secret',
+    severity: 'high',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36}\b|\bgithub_pat_\w{22,}|\bxox[abprs]-[A-Za-z0-9-]{10,}|\bsk-[A-Za-z0-9]{32,}/,
+    message: 'Contains what looks like a private key or access token'
+  },
+  {
+    rule: 'privilege-escalation',
+    severity: 'medium',
+    pattern: /\bsudo\s+\S|\bchmod\s+(?:-R\s+)?(?:0?777|[ugoa]*\+s)\b|\bStart-Process\b[^\n]*-Verb\s+RunAs/i,
+    message: 'Runs commands as an administrator or loosens file permissions'
+  },
+  {
+    rule: 'secret-env',
+    severity: 'medium',
+    pattern: /(?:\$\{?|%|process\.env\.|process\.env\[["']|os\.environ(?:\.get)?\(?\[?["']|getenv\(["']|ENV\[["']|\$env:)[A-Za-z0-9_]*(?:TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)\b/i,
+    message: 'Reads secrets from environment variables'
+  },
+  {
+    rule: 'encoded-blob',
+    severity: 'medium',
+    pattern: /[A-Za-z0-9+/]{200,}={0,2}/,
+    message: 'Contains a long base64-encoded blob'
+  }
+];
+
+/** Extensions of files an agent can run directly or through an interpreter */
+const SCRIPT_EXTENSIONS = new Set([
+  '.sh', '.bash', '.zsh', '.fish', '.ps1', '.psm1', '.bat', '.cmd',
+  '.py', '.js', '.mjs', '.cjs', '.ts', '.rb', '.pl', '.php', '.lua'
+]);
+
+/** Extensions of native executables and libraries */
+const NATIVE_EXTENSIONS = new Set(['.exe', '.dll', '.so', '.dylib', '.bin', '.msi', '.app']);
+
+/** Magic numbers of ELF, PE and Mach-O executables */
+const NATIVE_MAGIC = ['7f454c46', '4d5a', 'feedface', 'feedfacf', 'cefaedfe', 'cffaedfe', 'cafebabe'];
+
+/** Binary files larger than this are reported */
+export const MAX_BINARY_BYTES = 1024 * 1024;
+
+/** Hosts that do not count as network endpoints */
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '0.0.0.0', '[::1]', 'example.com', 'example.org']);
+
+/**
+ * Order two severities, least severe first
+ */
+export function compareSeverity(a: RiskSeverity, b: RiskSeverity): number {
+  return SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b);
+}
+
+/**
+ * Whether a severity is at or above a threshold
+ */
+export function isAtLeast(severity: RiskSeverity | undefined, threshold: RiskSeverity): boolean {
+  return severity !== undefined && compareSeverity(severity, threshold) >= 0;
+}
+
+/**
+ * One-line description of a finding
+ */
+export function formatFinding(finding: RiskFinding): string {
+  const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+  return `[${finding.severity.toUpperCase()}] ${location}: ${finding.message}`;
+}
+
+/**
+ * Whether content looks binary (has a NUL byte near the start)
+ */
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * One-based line number of an offset in text
+ */
+function lineAt(text: string, index: number): number {
+  let line = 1;
+  for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+/**
+ * Check how a file could be run: native binaries, executable files and
+ * scripts
+ */
+function scanFileType(file: ScannedFile, binary: boolean): RiskFinding[] {
+  const extension = path.extname(file.path).toLowerCase();
+  const magic = file.content.subarray(0, 4).toString('hex');
+
+  if (NATIVE_EXTENSIONS.has(extension) || (binary && NATIVE_MAGIC.some(prefix => magic.startsWith(prefix)))) {
+    return [{ severity: 'high', rule: 'native-binary', message: 'Native executable or library', file: file.path }];
+  }
+
+  const findings: RiskFinding[] = [];
+  if (binary && file.content.length > MAX_BINARY_BYTES) {
+    findings.push({
+      severity: 'medium',
+      rule: 'large-binary',
+      message: `Binary file of ${(file.content.length / (1024 * 1024)).toFixed(1)} MB`,
+      file: file.path
+    });
+  }
+
+  const shebang = !binary && file.content.subarray(0, 2).toString() === '#!';
+  if (file.mode === '100755') {
+    findings.push({ severity: 'medium', rule: 'executable-script', message: 'Executable file', file: file.path });
+  } else if (SCRIPT_EXTENSIONS.has(extension) || shebang) {
+    findings.push({ severity: 'low', rule: 'executable-script', message: 'Script the agent may run', file: file.path });
+  }
+  return findings;
+}
+
+/**
+ * Look for risky commands, credentials and network endpoints in a text file
+ */
+function scanText(file: ScannedFile): RiskFinding[] {
+  const text = file.content.toString('utf-8');
+  const findings: RiskFinding[] = [];
+
+  for (const { rule, severity, pattern, message } of TEXT_RULES) {
+    const match = pattern.exec(text);
+    if (match) {
+      findings.push({ severity, rule, message, file: file.path, line: lineAt(text, match.index) });
+    }
+  }
+
+  const hosts = new Map<string, number>();
+  for (const match of text.matchAll(/\b(?:https?|wss?|ftp):\/\/([^\s/:"'`<>()[\]{}]+)/gi)) {
+    const host = match[1].toLowerCase();
+    if (!LOCAL_HOSTS.has(host) && !hosts.has(host)) {
+      hosts.set(host, match.index ?? 0);
+    }
+  }
+  if (hosts.size > 0) {
+    const names = [...hosts.keys()];
+    const byAddress = names.filter(host => /^\d{1,3}(\.\d{1,3}){3}$/.test(host));
+    const listed = names.slice(0, 5).join(', ') + (names.length > 5 ? `, and ${names.length - 5} more` : '');
+    findings.push({
+      // Scripts contact these directly; in documents they are usually links
+      severity: byAddress.length > 0 ? 'medium' : SCRIPT_EXTENSIONS.has(path.extname(file.path).toLowerCase()) ? 'low' : 'info',
+      rule: 'network-endpoint',
+      message: byAddress.length > 0
+        ? `Connects to IP address ${byAddress.join(', ')}`
+        : `References ${listed}`,
+      file: file.path,
+      line: lineAt(text, hosts.get(byAddress[0] ?? names[0]) ?? 0)
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Scan every file of a skill for things to review before installing it:
+ * native binaries and executable scripts, risky shell commands, access to
+ * credentials and secret environment variables, network endpoints and
+ * oversized binaries
+ */
+export function scanSkillFiles(files: ScannedFile[]): RiskReport {
+  const findings: RiskFinding[] = [];
+
+  for (const file of files) {
+    const binary = isBinary(file.content);
+    findings.push(...scanFileType(file, binary));
+    if (!binary) {
+      findings.push(...scanText(file));
+    }
+  }
+
+  findings.sort((a, b) =>
+    compareSeverity(b.severity, a.severity) || a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)
+  );
+  return { findings, highestSeverity: findings[0]?.severity, fileCount: files.length };
+}
@@ -0,0 +1,281 @@
+import { Skill } from '../models/skill';
+
+/**
+ * Fields a skill is indexed under, with the weight of a match in each.
+ * A name match outranks anything found only in the description or body.
+ */
+const FIELD_WEIGHTS = {
+  name: 10,
+  tags: 6,
+  category: 4,
+  description: 3,
+  author: 2,
+  body: 1
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * How much of a field's weight a term earns, by how closely it matched
+ */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.75,
+  fuzzy: 0.5
+};
+
+/**
+ * Operators that filter on a skill property instead of matching text
+ */
+const OPERATORS = ['repo', 'tag', 'author', 'category', 'installed'] as const;
+
+export type SearchOperator = typeof OPERATORS[number];
+
+/**
+ * A field filter parsed from a query, e.g. `tag:security` or `-repo:owner`
+ */
+export interface SearchFilter {
+  operator: SearchOperator;
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * A search query split into free-text terms, excluded terms and filters
+ */
+export interface ParsedQuery {
+  terms: string[];
+  excluded: string[];
+  filters: SearchFilter[];
+}
+
+/**
+ * A matching skill with its relevance score and the indexed words that
+ * matched, for highlighting
+ */
+export interface SearchResult {
+  skill: Skill;
+  score: number;
+  matches: string[];
+}
+
+/**
+ * Split text into lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Parse a search query. `operator:value` filters on a skill property,
+ * a leading `-` excludes a term or negates a filter, and quotes keep a
+ * value with spaces together.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], excluded: [], filters: [] };
+
+  for (const match of query.matchAll(/(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g)) {
+    const negated = match[1] === '-';
+    const prefix = match[2]?.toLowerCase();
+    const value = (match[3] ?? match[4] ?? '').trim();
+    const operator = OPERATORS.find(op => op === prefix);
+
+    if (operator) {
+      if (value) {
+        parsed.filters.push({ operator, value: value.toLowerCase(), negated });
+      }
+      continue;
+    }
+
+    // Unknown prefixes are searched as text
+    const words = tokenize(prefix ? `${prefix} ${value}` : value);
+    (negated ? parsed.excluded : parsed.terms).push(...words);
+  }
+
+  return parsed;
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once
+ * it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Number of typos tolerated in a query term of the given length
+ */
+function getMaxTypos(length: number): number {
+  if (length < 4) {
+    return 0;
+  }
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Full-text index over a skill catalog with typo tolerance and field
+ * weighted ranking. Filters read the skills when searching, so install
+ * state changes do not need a rebuild.
+ */
+export class SkillSearchIndex {
+  /** Word -> skill index -> best field weight the word appears in */
+  private postings = new Map<string, Map<number, number>>();
+
+  /**
+   * Index skills. Bodies are SKILL.md contents keyed by skill id.
+   */
+  constructor(private skills: Skill[], bodies: ReadonlyMap<string, string> = new Map()) {
+    skills.forEach((skill, index) => {
+      const fields: Record<SearchField, string> = {
+        name: skill.name,
+        tags: skill.tags?.join(' ') ?? '',
+        category: skill.category ?? '',
+        description: skill.description,
+        author: skill.author ?? '',
+        body: bodies.get(skill.id) ?? ''
+      };
+      for (const field of Object.keys(fields) as SearchField[]) {
+        for (const word of tokenize(fields[field])) {
+          this.addPosting(word, index, FIELD_WEIGHTS[field]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Record that a word appears in a skill, keeping the highest field weight
+   */
+  private addPosting(word: string, index: number, weight: number): void {
+    let entries = this.postings.get(word);
+    if (!entries) {
+      entries = new Map();
+      this.postings.set(word, entries);
+    }
+    entries.set(index, Math.max(entries.get(index) ?? 0, weight));
+  }
+
+  /**
+   * Indexed words that match a query term, with the quality of each match.
+   * Fuzzy matches are only considered when allowed.
+   */
+  private expandTerm(term: string, fuzzy: boolean): Map<string, number> {
+    const words = new Map<string, number>();
+    const maxTypos = fuzzy ? getMaxTypos(term.length) : 0;
+
+    for (const word of this.postings.keys()) {
+      if (word === term) {
+        words.set(word, MATCH_QUALITY.exact);
+      } else if (term.length >= 2 && word.startsWith(term)) {
+        words.set(word, MATCH_QUALITY.prefix);
+      } else if (maxTypos > 0 && editDistance(term, word, maxTypos) <= maxTypos) {
+        words.set(word, MATCH_QUALITY.fuzzy);
+      }
+    }
+    return words;
+  }
+
+  /**
+   * Search the catalog. Every term must match; results are ordered by
+   * relevance. An empty query returns all skills that pass the filters in
+   * catalog order.
+   */
+  public search(query: string): SearchResult[] {
+    const parsed = parseSearchQuery(query);
+    const scores = new Map<number, number>();
+    const matches = new Map<number, Set<string>>();
+
+    let candidates = this.skills
+      .map((skill, index) => index)
+      .filter(index => parsed.filters.every(filter => this.matchesFilter(this.skills[index], filter)));
+
+    for (const term of parsed.terms) {
+      const best = new Map<number, number>();
+      for (const [word, quality] of this.expandTerm(term, true)) {
+        for (const [index, weight] of this.postings.get(word) ?? []) {
+          best.set(index, Math.max(best.get(index) ?? 0, weight * quality));
+          matches.set(index, (matches.get(index) ?? new Set()).add(word));
+        }
+      }
+      candidates = candidates.filter(index => best.has(index));
+      for (const index of candidates) {
+        scores.set(index, (scores.get(index) ?? 0) + (best.get(index) ?? 0));
+      }
+    }
+
+    for (const term of parsed.excluded) {
+      const excluded = new Set<number>();
+      for (const word of this.expandTerm(term, false).keys()) {
+        for (const index of this.postings.get(word)?.keys() ?? []) {
+          excluded.add(index);
+        }
+      }
+      candidates = candidates.filter(index => !excluded.has(index));
+    }
+
+    const phrase = parsed.terms.join(' ');
+    const results = candidates.map(index => {
+      const skill = this.skills[index];
+      let score = scores.get(index) ?? 0;
+      // Typing the whole name should put that skill first
+      if (phrase && tokenize(skill.name).join(' ') === phrase) {
+        score += FIELD_WEIGHTS.name * parsed.terms.length;
+      }
+      return { skill, score, matches: [...(matches.get(index) ?? [])] };
+    });
+
+    if (parsed.terms.length > 0) {
+      results.sort((a, b) => b.score - a.score || a.skill.name.localeCompare(b.skill.name));
+    }
+    return results;
+  }
+
+  /**
+   * Check a skill against an operator filter
+   */
+  private matchesFilter(skill: Skill, filter: SearchFilter): boolean {
+    let matches: boolean;
+    switch (filter.operator) {
+      case 'repo':
+        matches = skill.repository.toLowerCase().includes(filter.value);
+        break;
+      case 'tag':
+        matches = skill.tags?.some(tag => tag.toLowerCase() === filter.value) ?? false;
+        break;
+      case 'author':
+        matches = skill.author?.toLowerCase().includes(filter.value) ?? false;
+        break;
+      case 'category':
+        matches = skill.category?.toLowerCase() === filter.value;
+        break;
+      case 'installed':
+        matches = !!skill.isInstalled === ['true', 'yes', '1'].includes(filter.value);
+        break;
+    }
+    return matches !== filter.negated;
+  }
+}
@@ -0,0 +1,109 @@
+import { Repository, RepositoryTree, ResolvedRef, TreeNode } from '../models/repository';
+import { PullRequestDraft, PullRequestResult } from '../models/publish';
+
+/**
+ * A source that skills can be fetched from. Repositories are addressed by
+ * their owner/name path on API hosts and by their URL otherwise.
+ */
+export interface SourceProvider {
+  /** Host name as used in repository ids */
+  readonly host: string;
+
+  /** Whether file contents are kept locally, so they need no blob cache */
+  readonly storesContent?: boolean;
+
+  /**
+   * Fetch repository information
+   */
+  fetchRepository(slug: string): Promise<Repository>;
+
+  /**
+   * Resolve a branch, tag or commit to a commit SHA.
+   * Falls back to the repository's default branch when no ref is given.
+   */
+  resolveRef(slug: string, ref?: string, revalidate?: boolean): Promise<ResolvedRef>;
+
+  /**
+   * Fetch the full recursive tree of a repository at a ref.
+   * Revalidating re-resolves the ref, so branches pick up new commits.
+   */
+  fetchRepositoryTree(slug: string, ref?: string, revalidate?: boolean): Promise<RepositoryTree>;
+
+  /**
+   * Fetch a single tree object by SHA, with paths relative to it. Used to
+   * fill in listings the host truncated.
+   */
+  fetchSubtree?(slug: string, treeSha: string, recursive: boolean): Promise<RepositoryTree>;
+
+  /**
+   * Fetch the text content of a file
+   */
+  fetchFileContent(slug: string, path: string, ref?: string): Promise<string>;
+
+  /**
+   * Fetch the text content of many files at a ref in as few requests as
+   * the host allows. Files it could not fetch are left out of the result.
+   */
+  fetchFileContents?(slug: string, paths: string[], ref: string): Promise<Map<string, string>>;
+
+  /**
+   * Download the raw content of a file at a ref
+   */
+  downloadFile(slug: string, path: string, ref: string): Promise<Buffer>;
+
+  /**
+   * Download a gzipped tarball of the repository at a commit
+   */
+  downloadArchive?(slug: string, commit: string): Promise<Buffer>;
+
+  /**
+   * Build the web URL for a file
+   */
+  getFileUrl(slug: string, path: string, ref?: string): string;
+
+  /**
+   * Commit files to a new branch and open a pull request from it
+   */
+  createPullRequest?(slug: string, draft: PullRequestDraft): Promise<PullRequestResult>;
+}
+
+/**
+ * Supplies the access token for a host at request time, so tokens can
+ * change without recreating providers
+ */
+export type TokenSource = () => Promise<string | undefined>;
+
+/**
+ * Encode each segment of a repository file path for use in a URL
+ */
+export function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * List a tree through separate subtree requests: each subtree in one
+ * recursive request if the host does not truncate it, otherwise one level
+ * at a time. Paths are prefixed with the subtree's own path.
+ */
+export async function walkSubtrees(
+  fetchSubtree: (treeSha: string, recursive: boolean) => Promise<RepositoryTree>,
+  treeSha: string,
+  prefix = '',
+  tryRecursive = true
+): Promise<TreeNode[]> {
+  const withPrefix = (node: TreeNode) => ({ ...node, path: `${prefix}${node.path}` });
+
+  if (tryRecursive) {
+    const whole = await fetchSubtree(treeSha, true);
+    if (!whole.truncated) {
+      return whole.tree.map(withPrefix);
+    }
+  }
+
+  const level = await fetchSubtree(treeSha, false);
+  const children = await Promise.all(level.tree.map(node => node.type === 'tree'
+    ? walkSubtrees(fetchSubtree, node.sha, `${prefix}${node.path}/`)
+    : Promise.resolve([])
+  ));
+  return level.tree.flatMap((node, i) => [withPrefix(node), ...children[i]]);
+}
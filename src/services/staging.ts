@@ -0,0 +1,180 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { FailedFile } from '../models/skill';
+import { TreeNode } from '../models/repository';
+import { gitBlobSha } from './contentHash';
+import { isSafeRelativePath } from './installLayout';
+
+/**
+ * Folder inside a scope root that installs are staged in. It sits on the
+ * same device as the installed skills, so moving a staged skill into place
+ * is a single atomic rename.
+ */
+export const STAGING_FOLDER = '.skill-manager-staging';
+
+/** Suffix of the previous copy of a skill while it is being replaced */
+const BACKUP_SUFFIX = '.old';
+
+/**
+ * Age after which a staging entry is recovered even though its owner
+ * seems to be running, as the PID may have been reused
+ */
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * The process that created a staging entry, and when. The global scope is
+ * shared by every VS Code window, so recovery must leave the entries of
+ * installs still running elsewhere alone.
+ */
+export interface StagingOwner {
+  pid: number;
+  createdAt: number;
+}
+
+/**
+ * An install that failed before anything was moved into place
+ */
+export class StagingError extends Error {
+  constructor(message: string, public readonly failedFiles: FailedFile[] = []) {
+    super(message);
+    this.name = 'StagingError';
+  }
+}
+
+/**
+ * Split a staging folder name, "<encoded path>.<pid>.<created>.<random>",
+ * into the path relative to the scope root and the owner. The path is
+ * undefined if it does not decode to a safe path; folders staged before
+ * owners were recorded have none.
+ */
+function parseStagingName(name: string): { relativePath?: string; owner?: StagingOwner } {
+  const match = name.match(/^(.*)\.(\d+)\.(\d+)\.[0-9a-f]+$/) ?? name.match(/^(.*)\.[0-9a-f]+$/);
+  const owner = match?.[3] ? { pid: Number(match[2]), createdAt: Number(match[3]) } : undefined;
+  try {
+    const relativePath = decodeURIComponent(match?.[1] ?? name);
+    return { relativePath: isSafeRelativePath(relativePath) ? relativePath : undefined, owner };
+  } catch {
+    return { owner };
+  }
+}
+
+/**
+ * Whether the install that created a staging entry may still be running:
+ * its process exists and the entry is not stale
+ */
+export function isOwnerActive(owner: StagingOwner, now = Date.now()): boolean {
+  if (now - owner.createdAt > STALE_AFTER_MS) {
+    return false;
+  }
+  try {
+    process.kill(owner.pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Create a fresh, uniquely named staging folder for a skill installed at a
+ * path relative to the scope root (e.g. `my-skill` or `.disabled/my-skill`).
+ * The path is encoded in the folder name so an interrupted update can put
+ * the previous copy back where it was, along with the owning process.
+ */
+export async function createStagingDir(scopeRoot: string, relativePath: string): Promise<string> {
+  const stagingPath = path.join(
+    scopeRoot,
+    STAGING_FOLDER,
+    `${encodeURIComponent(relativePath)}.${process.pid}.${Date.now()}.${crypto.randomBytes(4).toString('hex')}`
+  );
+  await fs.mkdir(stagingPath, { recursive: true });
+  return stagingPath;
+}
+
+/**
+ * Check downloaded content against the tree entry it was downloaded for.
+ * Returns a description of the mismatch, or undefined if it matches.
+ */
+export function verifyBlob(content: Buffer, node: Pick<TreeNode, 'sha' | 'size'>): string | undefined {
+  if (node.size !== undefined && content.length !== node.size) {
+    return `size mismatch (expected ${node.size} bytes, got ${content.length})`;
+  }
+  if (gitBlobSha(content) !== node.sha) {
+    return `content does not match blob ${node.sha.slice(0, 7)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Move a staged skill to its final path. An existing copy is moved aside
+ * first and only deleted once the new one is in place; if the move fails
+ * it is put back.
+ */
+export async function commitStaged(stagingPath: string, targetPath: string): Promise<void> {
+  const backupPath = `${stagingPath}${BACKUP_SUFFIX}`;
+  const replacing = await fs.access(targetPath).then(() => true, () => false);
+
+  if (replacing) {
+    await fs.rename(targetPath, backupPath);
+  }
+
+  try {
+    await fs.rename(stagingPath, targetPath);
+  } catch (error) {
+    if (replacing) {
+      await fs.rename(backupPath, targetPath);
+    }
+    throw error;
+  }
+
+  if (replacing) {
+    await fs.rm(backupPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Clean up after installs that were interrupted: put back skills that were
+ * moved aside but never replaced, and delete everything else left in the
+ * staging folder. Entries of installs that may still be running, in this
+ * or another window, are left alone.
+ */
+export async function recoverStaging(
+  scopeRoot: string,
+  isActive: (owner: StagingOwner) => boolean = isOwnerActive
+): Promise<string[]> {
+  const stagingRoot = path.join(scopeRoot, STAGING_FOLDER);
+  const restored: string[] = [];
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(stagingRoot);
+  } catch {
+    return restored;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(stagingRoot, entry);
+    const isBackup = entry.endsWith(BACKUP_SUFFIX);
+    const { relativePath, owner } = parseStagingName(isBackup ? entry.slice(0, -BACKUP_SUFFIX.length) : entry);
+    if (owner && isActive(owner)) {
+      continue;
+    }
+
+    if (isBackup) {
+      // "<staging folder>.old" is the previous copy of the skill at <path>
+      const originalPath = relativePath && path.join(scopeRoot, ...relativePath.split('/'));
+      const originalExists = !originalPath || await fs.access(originalPath).then(() => true, () => false);
+      if (relativePath && originalPath && !originalExists) {
+        await fs.mkdir(path.dirname(originalPath), { recursive: true });
+        await fs.rename(entryPath, originalPath);
+        restored.push(relativePath);
+        continue;
+      }
+    }
+
+    await fs.rm(entryPath, { recursive: true, force: true });
+  }
+
+  return restored;
+}
@@ -0,0 +1,122 @@
+import * as zlib from 'zlib';
+
+/** Size of tar headers and the unit file contents are padded to */
+const BLOCK_SIZE = 512;
+
+/** Largest archive accepted once decompressed */
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024;
+
+/**
+ * A file or folder read from a repository archive
+ */
+export interface ArchiveEntry {
+  /** Path relative to the repository root */
+  path: string;
+  type: 'file' | 'directory';
+  /** Unix file mode */
+  mode: number;
+  /** Contents of files */
+  content?: Buffer;
+}
+
+/**
+ * Read a NUL-terminated string field of a tar header
+ */
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * Read an octal number field of a tar header
+ */
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Parse pax extended header records ("<length> <key>=<value>\n")
+ */
+function readPaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.subarray(offset, space).toString('ascii'), 10);
+    if (space === -1 || !length) {
+      break;
+    }
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  
+  return records;
+}
+
+/**
+ * Extract a gzipped repository archive (as served by GitHub's tarball and
+ * Gitea's archive endpoints) into memory. The single top-level folder the
+ * hosts wrap the repository in is stripped; links and special files are
+ * skipped, as are paths that would escape the repository root.
+ */
+export function readTarball(archive: Buffer): ArchiveEntry[] {
+  const tar = zlib.gunzipSync(archive, { maxOutputLength: MAX_ARCHIVE_BYTES });
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let pax: Record<string, string> = {};
+  
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    
+    const type = String.fromCharCode(header[156] || 0x30);
+    const size = pax.size ? parseInt(pax.size, 10) : readOctal(header, 124, 12);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    
+    if (type === 'x') {
+      pax = readPaxRecords(data);
+      continue;
+    }
+    if (type === 'g') {
+      continue;
+    }
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const fullPath = pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+    const mode = readOctal(header, 100, 8);
+    longName = undefined;
+    pax = {};
+    
+    // Strip the top-level folder and reject anything that climbs out of it
+    const segments = fullPath.split('/').filter(Boolean).slice(1);
+    if (segments.length === 0 || segments.some(segment => segment === '..' || segment === '.')) {
+      continue;
+    }
+    const relativePath = segments.join('/');
+    
+    if (type === '0' || type === '7') {
+      entries.push({ path: relativePath, type: 'file', mode, content: Buffer.from(data) });
+    } else if (type === '5') {
+      entries.push({ path: relativePath, type: 'directory', mode });
+    }
+  }
+  
+  return entries;
+}
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { CatalogStore } from '../../services/catalogStore';
+import { gitBlobSha } from '../../services/contentHash';
+import { Skill } from '../../models/skill';
+
+suite('Catalog Store Test Suite', () => {
+  let dir: string;
+  let store: CatalogStore;
+
+  setup(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-catalog-'));
+    store = new CatalogStore(path.join(dir, 'storage'));
+  });
+
+  teardown(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('Start empty when nothing was persisted', async () => {
+    assert.deepStrictEqual(await store.loadHttpCache(), {});
+    assert.strictEqual(await store.loadCatalog(), undefined);
+  });
+
+  test('Persist and clear API responses', async () => {
+    const entries = { 'repo:owner/repo': { data: { default_branch: 'main' }, expiresAt: 1, etag: '"abc"' } };
+    await store.saveHttpCache(entries);
+
+    assert.deepStrictEqual(await new CatalogStore(path.join(dir, 'storage')).loadHttpCache(), entries);
+
+    await store.clearHttpCache();
+    assert.deepStrictEqual(await store.loadHttpCache(), {});
+  });
+
+  test('Save catalog snapshots without per-user install state', async () => {
+    const skill: Skill = {
+      id: 'owner/repo/skills/one',
+      name: 'one',
+      description: 'First skill',
+      repository: 'owner/repo',
+      path: 'skills/one',
+      files: [],
+      isInstalled: true,
+      installedScopes: ['Global'],
+      hasUpdate: true
+    };
+    await store.saveCatalog([skill], ['owner/repo']);
+    const snapshot = await store.loadCatalog();
+
+    assert.ok(snapshot);
+    assert.deepStrictEqual(snapshot.repositories, ['owner/repo']);
+    assert.strictEqual(snapshot.skills[0].description, 'First skill');
+    assert.strictEqual(snapshot.skills[0].isInstalled, undefined);
+    assert.strictEqual(snapshot.skills[0].installedScopes, undefined);
+    assert.ok(!isNaN(Date.parse(snapshot.syncedAt)));
+  });
+
+  test('Date skills when their files change between syncs', async () => {
+    const skill = (name: string, sha: string): Skill => ({
+      id: `owner/repo/skills/${name}`,
+      name,
+      description: '',
+      repository: 'owner/repo',
+      path: `skills/${name}`,
+      files: [{ name: 'SKILL.md', path: `skills/${name}/SKILL.md`, type: 'file', sha }]
+    });
+    const first = await store.saveCatalog([skill('one', 'a'), skill('two', 'a')], ['owner/repo']);
+    assert.strictEqual(first.skills[0].updatedAt, undefined);
+
+    const second = await store.saveCatalog([skill('one', 'a'), skill('two', 'b'), skill('three', 'a')], ['owner/repo']);
+
+    assert.strictEqual(second.skills[0].updatedAt, undefined);
+    assert.strictEqual(second.skills[1].updatedAt, second.syncedAt);
+    assert.strictEqual(second.skills[2].updatedAt, second.syncedAt);
+  });
+
+  test('Keep one archive snapshot per repository', async () => {
+    const tree = (commit: string) => ({ sha: commit, url: '', tree: [], truncated: false, commit });
+    await store.saveSnapshot('owner/repo', 'a'.repeat(40), tree('a'.repeat(40)));
+    await store.saveSnapshot('owner/other', 'c'.repeat(40), tree('c'.repeat(40)));
+    await store.saveSnapshot('owner/repo', 'b'.repeat(40), tree('b'.repeat(40)));
+
+    assert.strictEqual(await store.loadSnapshot('owner/repo', 'a'.repeat(40)), undefined);
+    assert.strictEqual((await store.loadSnapshot('owner/repo', 'b'.repeat(40)))?.commit, 'b'.repeat(40));
+    assert.strictEqual((await store.loadSnapshot('owner/other', 'c'.repeat(40)))?.commit, 'c'.repeat(40));
+  });
+
+  test('Store blobs only under their own SHA', async () => {
+    const sha = 'ce013625030ba8dba906f756967f9e9ca394464a';
+
+    assert.strictEqual(await store.writeBlob(sha, Buffer.from('tampered\n')), false);
+    assert.strictEqual(await store.readBlob(sha), undefined);
+
+    assert.strictEqual(await store.writeBlob(sha, Buffer.from('hello\n')), true);
+    assert.strictEqual((await store.readBlob(sha))?.toString(), 'hello\n');
+  });
+
+  test('Discard blobs corrupted on disk', async () => {
+    const sha = 'ce013625030ba8dba906f756967f9e9ca394464a';
+    await store.writeBlob(sha, Buffer.from('hello\n'));
+    await fs.writeFile(path.join(dir, 'storage', 'blobs', 'ce', sha), 'corrupted');
+
+    assert.strictEqual(await store.readBlob(sha), undefined);
+  });
+
+  test('Prune the least recently used blobs', async () => {
+    const blobs = ['one\n', 'two\n', 'three\n'].map(text => Buffer.from(text));
+    const shas = blobs.map(content => gitBlobSha(content));
+    for (const [i, content] of blobs.entries()) {
+      await store.writeBlob(shas[i], content);
+      const usedAt = new Date(Date.UTC(2026, 0, i + 1));
+      await fs.utimes(path.join(dir, 'storage', 'blobs', shas[i].slice(0, 2), shas[i]), usedAt, usedAt);
+    }
+    await store.readBlob(shas[0]);
+
+    assert.strictEqual(await store.pruneBlobs(blobs[0].length + blobs[2].length), 1);
+    assert.ok(await store.readBlob(shas[0]));
+    assert.strictEqual(await store.readBlob(shas[1]), undefined);
+    assert.ok(await store.readBlob(shas[2]));
+    assert.strictEqual(await store.pruneBlobs(), 0);
+  });
+
+  test('Save from several windows at once without leaving temporary files', async () => {
+    const entries = (id: number) => ({ [`repo:owner/repo${id}`]: { data: id, expiresAt: 1 } });
+
+    await Promise.all([1, 2, 3].map(id => store.saveHttpCache(entries(id))));
+
+    assert.deepStrictEqual(await fs.readdir(path.join(dir, 'storage')), ['http-cache.json']);
+    const saved = await store.loadHttpCache();
+    assert.ok([1, 2, 3].some(id => JSON.stringify(saved) === JSON.stringify(entries(id))));
+  });
+});
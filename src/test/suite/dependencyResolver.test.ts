@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import {
+  DependencyResolver,
+  parseDependency,
+  satisfiesConstraint,
+  findDependents,
+  findOrphanedDependencies
+} from '../../services/dependencyResolver';
+import { Skill, InstalledSkill, InstallScope } from '../../models/skill';
+
+const globalScope: InstallScope = { type: 'global', label: 'Global', root: '/skills' };
+
+function skill(name: string, dependencies: string[] = [], overrides: Partial<Skill> = {}): Skill {
+  return {
+    id: `owner/repo/skills/${name}`,
+    name,
+    description: '',
+    repository: 'owner/repo',
+    path: `skills/${name}`,
+    files: [],
+    version: '1.0.0',
+    dependencies,
+    ...overrides
+  };
+}
+
+function installed(name: string, overrides: Partial<InstalledSkill> = {}): InstalledSkill {
+  return {
+    ...skill(name),
+    localPath: `/skills/${name}`,
+    installedAt: new Date(),
+    scope: globalScope,
+    ...overrides
+  };
+}
+
+suite('Dependency Resolver Test Suite', () => {
+  const resolver = new DependencyResolver(async () => undefined);
+
+  test('Parse dependency declarations', () => {
+    assert.deepStrictEqual(parseDependency('git-helper'), { name: 'git-helper', raw: 'git-helper' });
+    assert.strictEqual(parseDependency('git-helper@^1.2.0').constraint, '^1.2.0');
+    assert.strictEqual(parseDependency('git-helper >=1.0 <2.0').constraint, '>=1.0 <2.0');
+    assert.strictEqual(parseDependency('owner/repo/skills/git-helper').name, 'owner/repo/skills/git-helper');
+  });
+
+  test('Check versions against constraints', () => {
+    assert.ok(satisfiesConstraint('1.4.2', '^1.2.0'));
+    assert.ok(!satisfiesConstraint('2.0.0', '^1.2.0'));
+    assert.ok(!satisfiesConstraint('0.3.0', '^0.2.0'));
+    assert.ok(satisfiesConstraint('1.2.9', '~1.2.0'));
+    assert.ok(!satisfiesConstraint('1.3.0', '~1.2.0'));
+    assert.ok(satisfiesConstraint('1.5.0', '>=1.0 <2.0'));
+    assert.ok(satisfiesConstraint(undefined, '*'));
+    assert.ok(!satisfiesConstraint(undefined, '1.0.0'));
+  });
+
+  test('Order dependencies before the skills that need them', async () => {
+    const catalog = [skill('app', ['lib', 'util']), skill('lib', ['util']), skill('util')];
+    const plan = await resolver.resolve(catalog[0], async () => catalog, []);
+
+    assert.deepStrictEqual(plan.problems, []);
+    assert.deepStrictEqual(plan.steps.map(s => s.skill.name), ['util', 'lib', 'app']);
+    assert.deepStrictEqual(plan.steps[0].requiredBy, ['lib', 'app']);
+  });
+
+  test('Load metadata for skills that were not enriched', async () => {
+    const catalog = [skill('app', ['lib']), skill('lib', undefined, { version: undefined, dependencies: undefined })];
+    const loading = new DependencyResolver(async s => s.name === 'lib'
+      ? { name: 'lib', description: '', version: '2.0.0', dependencies: [] }
+      : undefined
+    );
+    const plan = await loading.resolve(catalog[0], async () => catalog, []);
+
+    assert.strictEqual(plan.steps[0].skill.version, '2.0.0');
+  });
+
+  test('Report cycles', async () => {
+    const catalog = [skill('a', ['b']), skill('b', ['a'])];
+    const plan = await resolver.resolve(catalog[0], async () => catalog, []);
+
+    assert.deepStrictEqual(plan.problems.map(p => p.type), ['cycle']);
+    assert.ok(plan.problems[0].message.includes('a → b → a'));
+  });
+
+  test('Report missing dependencies', async () => {
+    const root = skill('app', ['nowhere']);
+    const plan = await resolver.resolve(root, async () => [root], []);
+
+    assert.deepStrictEqual(plan.problems.map(p => p.type), ['missing']);
+  });
+
+  test('Report version conflicts', async () => {
+    const catalog = [skill('app', ['lib@^1.0.0', 'other']), skill('other', ['lib@^2.0.0']), skill('lib')];
+    const plan = await resolver.resolve(catalog[0], async () => catalog, []);
+
+    assert.deepStrictEqual(plan.problems.map(p => p.type), ['conflict']);
+  });
+
+  test('Reuse installed dependencies without loading the catalog', async () => {
+    const root = skill('app', ['lib@^1.0.0']);
+    const plan = await resolver.resolve(root, async () => {
+      throw new Error('catalog should not be loaded');
+    }, [installed('lib')]);
+
+    assert.deepStrictEqual(plan.steps.map(s => [s.skill.name, s.alreadyInstalled]), [['lib', true], ['app', false]]);
+  });
+
+  test('Find dependents and orphaned dependencies', () => {
+    const lib = installed('lib', { installedAsDependency: true });
+    const util = installed('util', { installedAsDependency: true });
+    const app = installed('app', { dependencies: ['lib'] });
+
+    assert.deepStrictEqual(findDependents(lib, [lib, util, app]).map(s => s.name), ['app']);
+    assert.deepStrictEqual(findOrphanedDependencies([lib, util, app]).map(s => s.name), ['util']);
+  });
+});
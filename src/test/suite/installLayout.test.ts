@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { sanitizeFolderName, getAlternateFolderNames, isSameSkill, isSafeRelativePath } from '../../services/installLayout';
+
+suite('Install Layout Test Suite', () => {
+  test('Sanitize skill names into folder names', () => {
+    assert.strictEqual(sanitizeFolderName('Code Review'), 'code-review');
+    assert.strictEqual(sanitizeFolderName('../../etc/passwd'), 'etc-passwd');
+    assert.strictEqual(sanitizeFolderName('a..b'), 'a.b');
+    assert.strictEqual(sanitizeFolderName('What? <Now>: "yes" | no*'), 'what-now-yes-no');
+    assert.strictEqual(sanitizeFolderName('tab\there\u0000'), 'tab-here');
+    assert.strictEqual(sanitizeFolderName('CON'), 'con-skill');
+    assert.strictEqual(sanitizeFolderName('lpt1.txt'), 'lpt1.txt-skill');
+    assert.strictEqual(sanitizeFolderName('...'), 'skill');
+    assert.strictEqual(sanitizeFolderName('x'.repeat(200)).length, 80);
+  });
+
+  test('Suggest folder names for a colliding skill', () => {
+    const names = getAlternateFolderNames({ name: 'code-review', repository: 'acme/skills' });
+
+    assert.strictEqual(names.next().value, 'code-review-acme');
+    assert.strictEqual(names.next().value, 'code-review-acme-2');
+    assert.strictEqual(names.next().value, 'code-review-acme-3');
+  });
+
+  test('Match skills by id or by repository and path', () => {
+    const skill = { id: 'acme/skills/review', repository: 'acme/skills', path: 'review' };
+
+    assert.ok(isSameSkill(skill, { ...skill }));
+    assert.ok(isSameSkill({ id: 'review', repository: 'acme/skills', path: 'review' }, skill));
+    assert.ok(!isSameSkill({ id: 'other/skills/review', repository: 'other/skills', path: 'review' }, skill));
+    assert.ok(!isSameSkill(
+      { id: 'one', repository: 'local', path: '' },
+      { id: 'two', repository: 'local', path: '' }
+    ));
+  });
+
+  test('Refuse file paths that leave the skill folder', () => {
+    assert.ok(isSafeRelativePath('SKILL.md'));
+    assert.ok(isSafeRelativePath('scripts/run.sh'));
+    assert.ok(!isSafeRelativePath('../outside.md'));
+    assert.ok(!isSafeRelativePath('scripts/../../outside.md'));
+    assert.ok(!isSafeRelativePath('/etc/passwd'));
+    assert.ok(!isSafeRelativePath('C:/Windows/system.ini'));
+    assert.ok(!isSafeRelativePath('scripts\\..\\run.sh'));
+    assert.ok(!isSafeRelativePath('scripts//run.sh'));
+    assert.ok(!isSafeRelativePath(''));
+  });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { diffFileShas, listChangedFiles, planLocalMerge } from '../../services/localChanges';
+
+suite('Local Changes Test Suite', () => {
+  test('List added, removed and edited files', () => {
+    assert.deepStrictEqual(
+      listChangedFiles({ 'SKILL.md': 'a', 'notes.md': 'b', 'old.md': 'c' }, { 'SKILL.md': 'a', 'notes.md': 'x', 'new.md': 'd' }),
+      ['new.md', 'notes.md', 'old.md']
+    );
+    assert.deepStrictEqual(listChangedFiles({ 'SKILL.md': 'a' }, { 'SKILL.md': 'a' }), []);
+  });
+
+  test('Detect upstream updates per blob SHA', () => {
+    const installed = { 'SKILL.md': 'a', 'scripts/run.sh': 'b', 'old.md': 'c' };
+    const upstream = { 'SKILL.md': 'a', 'scripts/run.sh': 'x', 'examples/new.md': 'd' };
+
+    assert.deepStrictEqual(diffFileShas(installed, upstream), {
+      added: ['examples/new.md'],
+      removed: ['old.md'],
+      changed: ['scripts/run.sh']
+    });
+    assert.deepStrictEqual(diffFileShas(installed, { ...installed }), { added: [], removed: [], changed: [] });
+    assert.deepStrictEqual(diffFileShas({}, { 'SKILL.md': 'a' }), { added: ['SKILL.md'], removed: [], changed: [] });
+  });
+
+  test('Keep edits upstream did not touch and report conflicting ones', () => {
+    const base = { 'SKILL.md': 'base', 'guide.md': 'base', 'run.sh': 'base', 'same.md': 'base', 'gone.md': 'base' };
+    const local = { 'SKILL.md': 'ours', 'guide.md': 'ours', 'run.sh': 'base', 'same.md': 'both', 'team.md': 'ours' };
+    const upstream = { 'SKILL.md': 'base', 'guide.md': 'theirs', 'run.sh': 'theirs', 'same.md': 'both', 'gone.md': 'theirs' };
+
+    assert.deepStrictEqual(planLocalMerge(base, local, upstream), {
+      keepLocal: ['SKILL.md', 'team.md'],
+      conflicts: ['gone.md', 'guide.md']
+    });
+  });
+
+  test('Conflict when both sides add the same file differently', () => {
+    assert.deepStrictEqual(
+      planLocalMerge({}, { 'extra.md': 'ours' }, { 'extra.md': 'theirs' }),
+      { keepLocal: [], conflicts: ['extra.md'] }
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { diffLockfile, validateLockfile, LockfileService } from '../../services/lockfileService';
+import { SkillInstaller } from '../../services/skillInstaller';
+import { GitHubService } from '../../services/githubService';
+import { gitBlobSha, hashFileShas, computeFileShas } from '../../services/contentHash';
+import { LockedSkill, SkillLockfile } from '../../models/lockfile';
+import { InstalledSkill, InstallScope } from '../../models/skill';
+
+const globalScope: InstallScope = { type: 'global', label: 'Global', root: '/skills' };
+
+function locked(id: string, overrides: Partial<LockedSkill> = {}): LockedSkill {
+  return {
+    id,
+    name: id,
+    repository: 'owner/repo',
+    path: id,
+    commit: 'a'.repeat(40),
+    contentHash: `hash-${id}`,
+    scope: 'global',
+    ...overrides
+  };
+}
+
+function installed(id: string, overrides: Partial<InstalledSkill> = {}): InstalledSkill {
+  return {
+    id,
+    name: id,
+    description: '',
+    repository: 'owner/repo',
+    path: id,
+    files: [],
+    localPath: `/skills/${id}`,
+    installedAt: new Date(),
+    scope: globalScope,
+    commit: 'a'.repeat(40),
+    ...overrides
+  };
+}
+
+suite('Lockfile Test Suite', () => {
+  test('Report no drift when installed skills match', () => {
+    const lockfile: SkillLockfile = { lockfileVersion: 1, skills: [locked('one')] };
+    const drift = diffLockfile(lockfile, [{ skill: installed('one'), contentHash: 'hash-one' }]);
+    
+    assert.deepStrictEqual(drift, { missing: [], extra: [], modified: [] });
+  });
+
+  test('Report missing, extra and modified skills', () => {
+    const lockfile: SkillLockfile = {
+      lockfileVersion: 1,
+      skills: [locked('missing'), locked('moved'), locked('edited')]
+    };
+    const drift = diffLockfile(lockfile, [
+      { skill: installed('moved', { commit: 'b'.repeat(40) }), contentHash: 'hash-moved' },
+      { skill: installed('edited'), contentHash: 'something-else' },
+      { skill: installed('extra'), contentHash: 'hash-extra' }
+    ]);
+    
+    assert.deepStrictEqual(drift.missing.map(s => s.id), ['missing']);
+    assert.deepStrictEqual(drift.extra.map(s => s.id), ['extra']);
+    assert.deepStrictEqual(drift.modified.map(m => [m.locked.id, m.reason]), [
+      ['moved', 'commit'],
+      ['edited', 'content']
+    ]);
+  });
+
+  test('Match skills by scope', () => {
+    const lockfile: SkillLockfile = { lockfileVersion: 1, skills: [locked('one', { scope: 'workspace' })] };
+    const drift = diffLockfile(lockfile, [{ skill: installed('one'), contentHash: 'hash-one' }]);
+    
+    assert.strictEqual(drift.missing.length, 1);
+    assert.strictEqual(drift.extra.length, 1);
+  });
+
+  test('Ignore malformed and unsafe lockfile entries', () => {
+    const { lockfile, invalid } = validateLockfile({
+      lockfileVersion: 1,
+      skills: [
+        locked('ok'),
+        locked('root', { path: '' }),
+        locked('remote', { repository: 'https://git.example.com/skills.git', ref: 'main' }),
+        locked('escape', { path: '../../.ssh' }),
+        locked('short', { commit: 'abc123' }),
+        locked('option', { repository: 'https://git.example.com/skills.git', ref: '--upload-pack=touch /tmp/pwned' }),
+        locked('pinned', { repository: 'owner/repo@main' }),
+        locked('odd', { scope: 'system' as LockedSkill['scope'] }),
+        'not an entry'
+      ]
+    });
+
+    assert.deepStrictEqual(lockfile.skills.map(s => s.id), ['ok', 'root', 'remote']);
+    assert.deepStrictEqual(invalid.map(entry => entry.id ?? entry.index), ['escape', 'short', 'option', 'pinned', 'odd', 8]);
+    assert.throws(() => validateLockfile({ lockfileVersion: 2, skills: [] }), /Unsupported/);
+    assert.throws(() => validateLockfile(null), /Unsupported/);
+  });
+
+  test('Remove extras from the workspace scope only', async () => {
+    const workspaceScope: InstallScope = { type: 'workspace', label: 'Workspace (app)', root: '/app/.agent/skills' };
+    const removed: string[] = [];
+    const skillInstaller = {
+      getGlobalScope: () => globalScope,
+      uninstall: async (skill: InstalledSkill) => { removed.push(skill.id); }
+    } as unknown as SkillInstaller;
+    const service = new LockfileService({} as GitHubService, skillInstaller);
+
+    await service.restore(
+      { missing: [], modified: [], extra: [installed('personal'), installed('team', { scope: workspaceScope })] },
+      workspaceScope,
+      { removeExtra: true }
+    );
+
+    assert.deepStrictEqual(removed, ['team']);
+  });
+
+  test('Compute git blob SHAs', () => {
+    assert.strictEqual(gitBlobSha(Buffer.from('')), 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+    assert.strictEqual(gitBlobSha(Buffer.from('hello\n')), 'ce013625030ba8dba906f756967f9e9ca394464a');
+  });
+
+  test('Hash directory contents independently of metadata files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-hash-'));
+    try {
+      await fs.mkdir(path.join(dir, 'scripts'));
+      await fs.writeFile(path.join(dir, 'SKILL.md'), 'hello\n');
+      await fs.writeFile(path.join(dir, 'scripts', 'run.sh'), '');
+      await fs.writeFile(path.join(dir, '.skill-manager.json'), '{}');
+      
+      const fileShas = await computeFileShas(dir);
+      
+      assert.deepStrictEqual(fileShas, {
+        'SKILL.md': 'ce013625030ba8dba906f756967f9e9ca394464a',
+        'scripts/run.sh': 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391'
+      });
+      assert.strictEqual(
+        hashFileShas(fileShas),
+        hashFileShas({ 'scripts/run.sh': fileShas['scripts/run.sh'], 'SKILL.md': fileShas['SKILL.md'] })
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { renderMarkdown } from '../../views/markdown';
+
+suite('Markdown Test Suite', () => {
+  test('Render headings, paragraphs and emphasis', () => {
+    assert.strictEqual(
+      renderMarkdown('# Title\n\nSome **bold** and *italic*\ntext with `a < b`.'),
+      '<h1>Title</h1>\n<p>Some <strong>bold</strong> and <em>italic</em>\ntext with <code>a &lt; b</code>.</p>'
+    );
+  });
+
+  test('Render nested lists, code blocks and tables', () => {
+    assert.strictEqual(
+      renderMarkdown('- one\n  - nested\n- two\n\n1. first'),
+      '<ul><li>one\n<ul><li>nested</li></ul></li><li>two</li></ul>\n<ol><li>first</li></ol>'
+    );
+    assert.strictEqual(
+      renderMarkdown('```js\nif (a && b) {}\n```'),
+      '<pre><code class="language-js">if (a &amp;&amp; b) {}</code></pre>'
+    );
+    assert.strictEqual(
+      renderMarkdown('| a | b |\n|---|---|\n| 1 | 2 |'),
+      '<table><thead><tr><th>a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>'
+    );
+  });
+
+  test('Never pass HTML or script links through', () => {
+    const html = renderMarkdown('<script>alert(1)</script>\n\n[x](javascript:alert(1)) <img src=x onerror=alert(1)>');
+
+    assert.ok(!html.includes('<script'));
+    assert.ok(!html.includes('<img'));
+    assert.ok(!html.includes('href="javascript'));
+  });
+
+  test('Link to web pages and to files of the skill', () => {
+    assert.strictEqual(
+      renderMarkdown('[docs](https://example.com/a_b_c) and [script](./scripts/run_me.py)'),
+      '<p><a href="https://example.com/a_b_c">docs</a> and <a href="#" data-file="scripts/run_me.py">script</a></p>'
+    );
+  });
+});
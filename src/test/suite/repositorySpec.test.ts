@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { parseRepositorySpec, parseSkillSpec, isCommitSha, splitRepositoryId, isUrlSource, isValidGitRef } from '../../services/repositorySpec';
+
+suite('RepositorySpec Test Suite', () => {
+  test('Parse repository without ref', () => {
+    const spec = parseRepositorySpec('rominirani/antigravity-skills');
+    
+    assert.strictEqual(spec.fullName, 'rominirani/antigravity-skills');
+    assert.strictEqual(spec.ref, undefined);
+  });
+
+  test('Parse repository pinned to a tag', () => {
+    const spec = parseRepositorySpec('owner/repo@v2.1.0');
+    
+    assert.strictEqual(spec.fullName, 'owner/repo');
+    assert.strictEqual(spec.ref, 'v2.1.0');
+  });
+
+  test('Parse repository pinned to a branch with slashes', () => {
+    const spec = parseRepositorySpec('owner/repo@release/2.x');
+    
+    assert.strictEqual(spec.fullName, 'owner/repo');
+    assert.strictEqual(spec.ref, 'release/2.x');
+  });
+
+  test('Parse a Quick Install skill with a ref containing slashes', () => {
+    const pinned = parseSkillSpec('owner/repo/skills/review@release/1.2');
+    const legacy = parseSkillSpec('git.example.com/owner/repo@v1/skills/review');
+
+    assert.strictEqual(pinned.spec.fullName, 'owner/repo');
+    assert.strictEqual(pinned.spec.ref, 'release/1.2');
+    assert.strictEqual(pinned.path, 'skills/review');
+    assert.strictEqual(legacy.spec.fullName, 'git.example.com/owner/repo');
+    assert.strictEqual(legacy.spec.ref, 'v1');
+    assert.strictEqual(legacy.path, 'skills/review');
+    assert.strictEqual(parseSkillSpec('owner/repo/review').spec.ref, undefined);
+    assert.throws(() => parseSkillSpec('owner/repo@main'), /Invalid skill/);
+  });
+
+  test('Parse repository pinned to a commit', () => {
+    const sha = '4f2c1e9b0d7a6c5e3f1b2a4d6c8e0f1a3b5c7d9e';
+    const spec = parseRepositorySpec(`owner/repo#${sha}`);
+    
+    assert.strictEqual(spec.fullName, 'owner/repo');
+    assert.strictEqual(spec.ref, sha);
+  });
+
+  test('Parse repository on another host', () => {
+    const spec = parseRepositorySpec('Git.Example.com:8443/team/skills@main');
+    
+    assert.strictEqual(spec.fullName, 'git.example.com:8443/team/skills');
+    assert.strictEqual(spec.host, 'git.example.com:8443');
+    assert.strictEqual(spec.slug, 'team/skills');
+    assert.strictEqual(spec.ref, 'main');
+  });
+
+  test('Keep github.com repository ids unprefixed', () => {
+    const spec = parseRepositorySpec('github.com/owner/repo');
+    
+    assert.strictEqual(spec.fullName, 'owner/repo');
+    assert.strictEqual(spec.host, undefined);
+    assert.deepStrictEqual(splitRepositoryId('owner/repo'), { host: 'github.com', slug: 'owner/repo' });
+    assert.deepStrictEqual(splitRepositoryId('localhost/owner/repo'), { host: 'localhost', slug: 'owner/repo' });
+  });
+
+  test('Parse local folder and git remote sources', () => {
+    const folder = parseRepositorySpec('file:///home/me/skills');
+    const remote = parseRepositorySpec('git+ssh://git@git.example.com/team/skills.git#v1.2.0');
+    
+    assert.strictEqual(folder.fullName, 'file:///home/me/skills');
+    assert.strictEqual(folder.ref, undefined);
+    assert.strictEqual(remote.fullName, 'git+ssh://git@git.example.com/team/skills.git');
+    assert.strictEqual(remote.ref, 'v1.2.0');
+    assert.strictEqual(isUrlSource('git@git.example.com:team/skills.git'), true);
+    assert.strictEqual(isUrlSource('owner/repo'), false);
+    assert.throws(() => parseRepositorySpec('file:///home/me/skills#main'));
+    assert.throws(() => parseRepositorySpec('file://relative/skills'));
+  });
+
+  test('Reject invalid repository entries', () => {
+    assert.throws(() => parseRepositorySpec('not-a-repo'));
+    assert.throws(() => parseRepositorySpec('owner/repo/extra'));
+    assert.throws(() => parseRepositorySpec(''));
+  });
+
+  test('Reject git remote refs that are not branch, tag or commit names', () => {
+    assert.throws(() => parseRepositorySpec('https://git.example.com/team/skills.git#--upload-pack=touch /tmp/pwned'), /not a branch, tag/);
+    assert.throws(() => parseRepositorySpec('https://git.example.com/team/skills.git#main..dev'));
+    assert.strictEqual(parseRepositorySpec('https://git.example.com/team/skills.git#release/v1').ref, 'release/v1');
+    assert.strictEqual(isValidGitRef('4f2c1e9b0d7a6c5e3f1b2a4d6c8e0f1a3b5c7d9e'), true);
+    assert.strictEqual(isValidGitRef('-main'), false);
+    assert.strictEqual(isValidGitRef('feature/.hidden'), false);
+    assert.strictEqual(isValidGitRef('topic.lock'), false);
+    assert.strictEqual(isValidGitRef('a b'), false);
+  });
+
+  test('Detect full commit SHAs', () => {
+    assert.strictEqual(isCommitSha('4f2c1e9b0d7a6c5e3f1b2a4d6c8e0f1a3b5c7d9e'), true);
+    assert.strictEqual(isCommitSha('4f2c1e9'), false);
+    assert.strictEqual(isCommitSha('main'), false);
+  });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import { Response } from 'node-fetch';
+import { RequestScheduler, RateLimitError } from '../../services/requestScheduler';
+
+suite('Request Scheduler Test Suite', () => {
+  let sleeps: number[];
+  const sleep = async (ms: number) => {
+    sleeps.push(ms);
+  };
+
+  setup(() => {
+    sleeps = [];
+  });
+
+  /**
+   * Scheduler whose fetch answers with the given responses in order
+   */
+  function schedulerFor(responses: Response[], options = {}) {
+    const requests: string[] = [];
+    const scheduler = new RequestScheduler(async url => {
+      requests.push(url);
+      return responses.shift() ?? new Response('{}');
+    }, { sleep, random: () => 0.5, ...options });
+    return { scheduler, requests };
+  }
+
+  test('Retry transient server errors with jittered backoff', async () => {
+    const { scheduler, requests } = schedulerFor([
+      new Response('', { status: 502 }),
+      new Response('', { status: 503 }),
+      new Response('ok')
+    ]);
+
+    const response = await scheduler.fetch('https://api.example.com/repos');
+
+    assert.strictEqual(await response.text(), 'ok');
+    assert.strictEqual(requests.length, 3);
+    assert.deepStrictEqual(sleeps, [500, 1000]);
+  });
+
+  test('Give up after the maximum number of retries', async () => {
+    const { scheduler, requests } = schedulerFor(
+      [new Response('', { status: 500 }), new Response('', { status: 500 }), new Response('', { status: 500 })],
+      { maxRetries: 2 }
+    );
+
+    const response = await scheduler.fetch('https://api.example.com/repos');
+
+    assert.strictEqual(response.status, 500);
+    assert.strictEqual(requests.length, 3);
+  });
+
+  test('Do not retry server errors of requests that change state', async () => {
+    const { scheduler, requests } = schedulerFor([
+      new Response('', { status: 502 }),
+      new Response('', { status: 429 }),
+      new Response('created', { status: 201 })
+    ]);
+
+    const failed = await scheduler.fetch('https://api.example.com/repos/o/r/pulls', { method: 'POST', body: '{}' });
+    const created = await scheduler.fetch('https://api.example.com/repos/o/r/pulls', { method: 'POST', body: '{}' });
+
+    assert.strictEqual(failed.status, 502);
+    assert.strictEqual(created.status, 201);
+    assert.strictEqual(requests.length, 3);
+  });
+
+  test('Release the bodies of retried responses', async () => {
+    const first = new Response('error page', { status: 503 });
+    const { scheduler } = schedulerFor([first, new Response('ok')]);
+
+    await scheduler.fetch('https://api.example.com/repos');
+
+    assert.strictEqual(first.bodyUsed, true);
+  });
+
+  test('Wait out retry-after on secondary rate limits', async () => {
+    const { scheduler, requests } = schedulerFor([
+      new Response('', { status: 403, headers: { 'retry-after': '2' } }),
+      new Response('ok')
+    ]);
+
+    const response = await scheduler.fetch('https://api.example.com/repos');
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(requests.length, 2);
+    assert.strictEqual(sleeps.length, 1);
+    assert.ok(sleeps[0] > 1000 && sleeps[0] <= 2000);
+  });
+
+  test('Do not retry permission errors', async () => {
+    const { scheduler, requests } = schedulerFor([new Response('', { status: 403 })]);
+
+    const response = await scheduler.fetch('https://api.example.com/repos');
+
+    assert.strictEqual(response.status, 403);
+    assert.strictEqual(requests.length, 1);
+  });
+
+  test('Stop sending requests once the rate limit is exhausted', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    const { scheduler, requests } = schedulerFor([
+      new Response('{}', { headers: { 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) } })
+    ]);
+
+    await scheduler.fetch('https://api.example.com/repos');
+    await assert.rejects(scheduler.fetch('https://api.example.com/other'), RateLimitError);
+    await scheduler.fetch('https://raw.example.com/file');
+
+    assert.deepStrictEqual(requests, ['https://api.example.com/repos', 'https://raw.example.com/file']);
+    assert.strictEqual(scheduler.getRateLimitInfo('api.example.com')?.remaining, 0);
+  });
+
+  test('Limit requests in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    const scheduler = new RequestScheduler(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return new Response('{}');
+    }, { maxConcurrent: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, (_, i) => scheduler.fetch(`https://api.example.com/${i}`)));
+
+    assert.strictEqual(peak, 2);
+  });
+});
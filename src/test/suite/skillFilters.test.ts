@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { DEFAULT_FILTER_STATE, normalizeFilterState, applyFilters, sortSkills, getFacets } from '../../services/skillFilters';
+import { SkillSearchIndex } from '../../services/skillSearch';
+import { Skill } from '../../models/skill';
+
+suite('Skill Filters Test Suite', () => {
+  const skill = (name: string, extra: Partial<Skill> = {}): Skill => ({
+    id: `owner/repo/skills/${name}`,
+    name,
+    description: '',
+    repository: 'owner/repo',
+    path: `skills/${name}`,
+    files: [],
+    ...extra
+  });
+
+  const skills = [
+    skill('pdf-tools', { category: 'documents', tags: ['pdf'], updatedAt: '2026-03-01T00:00:00.000Z' }),
+    skill('commit-writer', { category: 'git', author: 'Jane', isInstalled: true, lastInstalledAt: '2026-01-01T00:00:00.000Z' }),
+    skill('changelog', {
+      category: 'git',
+      repository: 'other/skills',
+      isInstalled: true,
+      hasUpdate: true,
+      lastInstalledAt: '2026-02-01T00:00:00.000Z',
+      updatedAt: '2026-04-01T00:00:00.000Z'
+    }),
+    skill('threat-model', { tags: ['security', 'pdf'] })
+  ];
+  const names = (filters: Partial<typeof DEFAULT_FILTER_STATE>) =>
+    applyFilters(new SkillSearchIndex(skills), { ...DEFAULT_FILTER_STATE, ...filters }).skills.map(s => s.name);
+
+  test('Fall back to defaults for malformed state', () => {
+    assert.deepStrictEqual(normalizeFilterState(undefined), DEFAULT_FILTER_STATE);
+    assert.deepStrictEqual(
+      normalizeFilterState({ query: 1, categories: ['git', 2, 'git'], installed: 'maybe', updatesOnly: 'yes', sort: 'name' }),
+      { ...DEFAULT_FILTER_STATE, categories: ['git'], sort: 'name' }
+    );
+  });
+
+  test('Match any selected value within a facet and every facet', () => {
+    assert.deepStrictEqual(names({ categories: ['git', 'documents'] }), ['pdf-tools', 'commit-writer', 'changelog']);
+    assert.deepStrictEqual(names({ categories: ['uncategorized'] }), ['threat-model']);
+    assert.deepStrictEqual(names({ categories: ['git'], repositories: ['owner/repo'] }), ['commit-writer']);
+    assert.deepStrictEqual(names({ tags: ['pdf'], authors: ['Jane'] }), []);
+  });
+
+  test('Filter by install state and available updates', () => {
+    assert.deepStrictEqual(names({ installed: 'notInstalled' }), ['pdf-tools', 'threat-model']);
+    assert.deepStrictEqual(names({ installed: 'installed' }), ['commit-writer', 'changelog']);
+    assert.deepStrictEqual(names({ updatesOnly: true }), ['changelog']);
+  });
+
+  test('Combine search with filters', () => {
+    const result = applyFilters(new SkillSearchIndex(skills), { ...DEFAULT_FILTER_STATE, query: 'commit', categories: ['git'] });
+
+    assert.deepStrictEqual(result.skills.map(s => s.name), ['commit-writer']);
+    assert.deepStrictEqual(result.highlights, ['commit']);
+  });
+
+  test('Sort by name, repository and dates', () => {
+    assert.deepStrictEqual(sortSkills(skills, 'name').map(s => s.name), ['changelog', 'commit-writer', 'pdf-tools', 'threat-model']);
+    assert.deepStrictEqual(sortSkills(skills, 'repository').map(s => s.name), ['changelog', 'commit-writer', 'pdf-tools', 'threat-model']);
+    assert.deepStrictEqual(sortSkills(skills, 'updated').map(s => s.name), ['changelog', 'pdf-tools', 'commit-writer', 'threat-model']);
+    assert.deepStrictEqual(sortSkills(skills, 'installed').map(s => s.name), ['changelog', 'commit-writer', 'pdf-tools', 'threat-model']);
+    assert.strictEqual(sortSkills(skills, 'relevance'), skills);
+  });
+
+  test('Count facet values', () => {
+    const facets = getFacets(skills);
+
+    assert.deepStrictEqual(facets.categories, [
+      { name: 'git', count: 2 },
+      { name: 'documents', count: 1 },
+      { name: 'uncategorized', count: 1 }
+    ]);
+    assert.deepStrictEqual(facets.tags, [{ name: 'pdf', count: 2 }, { name: 'security', count: 1 }]);
+    assert.deepStrictEqual(facets.authors, [{ name: 'Jane', count: 1 }]);
+  });
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SkillParser } from '../../services/skillParser';
+import { SkillLinter } from '../../services/skillLinter';
+
+suite('SkillLinter Test Suite', () => {
+  let linter: SkillLinter;
+  let skillDir: string;
+
+  setup(async () => {
+    linter = new SkillLinter(new SkillParser());
+    skillDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-lint-'));
+    await fs.mkdir(path.join(skillDir, 'scripts'));
+    await fs.writeFile(path.join(skillDir, 'scripts', 'run.sh'), '#!/bin/sh\n');
+  });
+
+  teardown(async () => {
+    await fs.rm(skillDir, { recursive: true, force: true });
+  });
+
+  test('Accept a valid skill', async () => {
+    const content = `---
+name: valid-skill
+description: Does one thing well
+---
+
+Run [the script](scripts/run.sh) or \`scripts/run.sh\`.
+`;
+
+    const problems = await linter.lint(content, skillDir);
+    
+    assert.deepStrictEqual(problems, []);
+  });
+
+  test('Report missing frontmatter', async () => {
+    const problems = await linter.lint('# Just a heading\n');
+    
+    assert.deepStrictEqual(problems.map(p => p.code), ['missing-frontmatter']);
+  });
+
+  test('Report empty frontmatter', async () => {
+    const problems = await linter.lint('---\n---\n\nBody\n');
+    
+    assert.ok(problems.some(p => p.code === 'empty-frontmatter'));
+  });
+
+  test('Report invalid names, long descriptions and unknown keys on their lines', async () => {
+    const content = `---
+name: bad/name!
+description: ${'x'.repeat(1100)}
+color: blue
+---
+`;
+
+    const problems = await linter.lint(content);
+    
+    const nameProblem = problems.find(p => p.message.includes('letters, numbers'));
+    assert.ok(nameProblem);
+    assert.strictEqual(nameProblem.line, 1);
+    
+    const descriptionProblem = problems.find(p => p.message.includes('keep it under'));
+    assert.ok(descriptionProblem);
+    assert.strictEqual(descriptionProblem.line, 2);
+    
+    const unknownKey = problems.find(p => p.code === 'unknown-key');
+    assert.ok(unknownKey);
+    assert.strictEqual(unknownKey.line, 3);
+  });
+
+  test('Report triggers that are not string lists', async () => {
+    const content = `---
+name: triggers-skill
+description: Has bad triggers
+triggers:
+  key: value
+---
+`;
+
+    const problems = await linter.lint(content);
+    
+    const problem = problems.find(p => p.code === 'invalid-field');
+    assert.ok(problem);
+    assert.strictEqual(problem.severity, 'error');
+    assert.strictEqual(problem.line, 3);
+  });
+
+  test('Report broken relative links with precise ranges', async () => {
+    const content = `---
+name: links-skill
+description: Links to files
+---
+
+See [helper](scripts/missing.py) and [docs](https://example.com).
+Also \`resources/data.json\` and [section](#usage).
+`;
+
+    const problems = await linter.lint(content, skillDir);
+    const broken = problems.filter(p => p.code === 'broken-link');
+    
+    assert.strictEqual(broken.length, 2);
+    assert.strictEqual(broken[0].line, 5);
+    assert.strictEqual(broken[0].column, content.split('\n')[5].indexOf('scripts/missing.py'));
+    assert.strictEqual(broken[0].endColumn - broken[0].column, 'scripts/missing.py'.length);
+    assert.strictEqual(broken[1].line, 6);
+  });
+});
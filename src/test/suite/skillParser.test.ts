@@ -123,4 +123,112 @@ Body
     assert.strictEqual(metadata.name, 'Quoted Skill');
     assert.strictEqual(metadata.description, 'Single quoted desc');
   });
+
+  test('Parse inline arrays and folded descriptions', () => {
+    const content = `---
+name: Inline Skill
+description: >
+  A description that
+  spans two lines
+tags: [security, audit]
+---
+
+Body
+`;
+
+    const metadata = parser.parseSkillMd(content);
+    
+    assert.strictEqual(metadata.description, 'A description that spans two lines');
+    assert.deepStrictEqual(metadata.tags, ['security', 'audit']);
+  });
+
+  test('Parse quoted values containing colons and CRLF line endings', () => {
+    const content = '---\r\nname: "Colon: Skill"\r\nauthor: Jane\r\n---\r\n\r\nBody\r\n';
+
+    const metadata = parser.parseSkillMd(content);
+    
+    assert.strictEqual(metadata.name, 'Colon: Skill');
+    assert.strictEqual(metadata.author, 'Jane');
+  });
+
+  test('Preserve unknown fields in extra', () => {
+    const content = `---
+name: Extra Skill
+license: MIT
+compatibility:
+  antigravity: ">=1.0"
+---
+`;
+
+    const metadata = parser.parseSkillMd(content);
+    
+    assert.deepStrictEqual(metadata.extra, {
+      license: 'MIT',
+      compatibility: { antigravity: '>=1.0' }
+    });
+  });
+
+  test('Report schema problems with positions', () => {
+    const content = `---
+name: Typed Skill
+version: 1.0
+triggers:
+  - review
+  - nested: map
+---
+`;
+
+    const result = parser.parse(content);
+    
+    assert.strictEqual(result.metadata.version, '1');
+    assert.deepStrictEqual(result.metadata.triggers, ['review']);
+    
+    const versionProblem = result.problems.find(p => p.key === 'version');
+    assert.ok(versionProblem);
+    assert.strictEqual(versionProblem.severity, 'warning');
+    assert.strictEqual(versionProblem.line, 2);
+    assert.strictEqual(versionProblem.column, 9);
+    
+    const triggersProblem = result.problems.find(p => p.key === 'triggers');
+    assert.ok(triggersProblem);
+    assert.strictEqual(triggersProblem.severity, 'error');
+    assert.strictEqual(triggersProblem.line, 3);
+  });
+
+  test('Report invalid YAML with its position', () => {
+    const content = `---
+name: Broken
+tags: [a, b
+---
+
+Body text
+`;
+
+    const result = parser.parse(content);
+    
+    assert.strictEqual(result.metadata.name, 'Unknown Skill');
+    assert.strictEqual(result.metadata.description, 'Body text');
+    assert.strictEqual(result.problems.length, 1);
+    assert.strictEqual(result.problems[0].severity, 'error');
+    assert.ok(result.problems[0].message.includes('Invalid YAML'));
+    assert.ok(result.problems[0].line >= 2);
+  });
+
+  test('Reject frontmatter that is not YAML without running it', () => {
+    const scope = globalThis as { skillParserRan?: boolean };
+    for (const language of ['js', 'javascript', 'JS', 'json', 'toml']) {
+      const result = parser.parse(`---${language}
+{ name: (globalThis.skillParserRan = true, "Evil") }
+---
+
+Body text
+`);
+
+      assert.strictEqual(scope.skillParserRan, undefined);
+      assert.strictEqual(result.metadata.name, 'Unknown Skill');
+      assert.strictEqual(result.body, '\nBody text\n');
+      assert.strictEqual(result.problems.length, 1);
+      assert.strictEqual(result.problems[0].severity, 'error');
+    }
+  });
 });
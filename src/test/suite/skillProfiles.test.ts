@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { normalizeProfiles, planProfile, isProfileActive } from '../../services/skillProfiles';
+import { InstalledSkill, InstallScope } from '../../models/skill';
+
+suite('Skill Profiles Test Suite', () => {
+  const global: InstallScope = { type: 'global', label: 'Global', root: '/skills' };
+  const workspace: InstallScope = { type: 'workspace', label: 'Workspace (app)', root: '/app/.agent/skills' };
+  const skill = (id: string, scope: InstallScope, disabled = false): InstalledSkill => ({
+    id,
+    name: id.split('/').pop()!,
+    description: '',
+    repository: 'owner/repo',
+    path: id.split('/').slice(2).join('/'),
+    files: [],
+    localPath: `${scope.root}/${id.split('/').pop()}`,
+    scope,
+    installedAt: new Date(0),
+    isInstalled: true,
+    disabled: disabled || undefined
+  });
+
+  const installed = [
+    skill('owner/repo/react', global),
+    skill('owner/repo/css', global, true),
+    skill('owner/repo/threat-model', global),
+    skill('owner/repo/react', workspace, true)
+  ];
+
+  test('Keep only named lists of skill ids', () => {
+    assert.deepStrictEqual(normalizeProfiles(undefined), {});
+    assert.deepStrictEqual(normalizeProfiles(['frontend']), {});
+    assert.deepStrictEqual(
+      normalizeProfiles({ frontend: ['a', 1, 'a', 'b'], broken: 'a', ' ': ['c'] }),
+      { frontend: ['a', 'b'] }
+    );
+  });
+
+  test('Enable the skills of a profile and disable the rest in every scope', () => {
+    const plan = planProfile(installed, ['owner/repo/react', 'owner/repo/css', 'owner/repo/missing']);
+
+    assert.deepStrictEqual(plan.enable.map(s => `${s.name} ${s.scope.label}`), ['css Global', 'react Workspace (app)']);
+    assert.deepStrictEqual(plan.disable.map(s => `${s.name} ${s.scope.label}`), ['threat-model Global']);
+    assert.deepStrictEqual(plan.missing, ['owner/repo/missing']);
+  });
+
+  test('Recognise the active profile', () => {
+    assert.ok(isProfileActive(installed.filter(s => !s.disabled), ['owner/repo/react', 'owner/repo/threat-model']));
+    assert.ok(!isProfileActive(installed, ['owner/repo/threat-model']));
+  });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../../services/httpClient';
+import { GitHubProvider } from '../../services/githubProvider';
+import { readSkillFolder, getDefaultTargetPath, getPublishBranch, describePullRequest } from '../../services/skillPublisher';
+
+const BASE_COMMIT = '4f2c1e9b0d7a6c5e3f1b2a4d6c8e0f1a3b5c7d9e';
+
+suite('Skill Publisher Test Suite', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let posts: { path: string; body: unknown; authorization?: string }[];
+
+  setup(async () => {
+    posts = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const url = new URL(req.url ?? '/', baseUrl);
+        const reply = (status: number, data: unknown) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(data));
+        };
+
+        if (req.method === 'POST') {
+          posts.push({ path: url.pathname, body: JSON.parse(body), authorization: req.headers.authorization });
+        }
+        switch (`${req.method} ${url.pathname}`) {
+          case 'GET /repos/team/skills/commits/main':
+            return reply(200, { sha: BASE_COMMIT });
+          case `GET /repos/team/skills/git/commits/${BASE_COMMIT}`:
+            return reply(200, { sha: BASE_COMMIT, tree: { sha: 'base-tree' } });
+          case 'POST /repos/team/skills/git/blobs':
+            return reply(201, { sha: `blob-${posts.length}` });
+          case 'POST /repos/team/skills/git/trees':
+            return reply(201, { sha: 'new-tree' });
+          case 'POST /repos/team/skills/git/commits':
+            return reply(201, { sha: 'new-commit' });
+          case 'POST /repos/team/skills/git/refs':
+            return reply(201, { ref: JSON.parse(body).ref });
+          case 'POST /repos/team/skills/pulls':
+            return reply(201, { number: 7, html_url: 'https://github.example.com/team/skills/pull/7' });
+        }
+        reply(404, { message: 'Not Found' });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  teardown(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('Commit files through the Git Data API and open a pull request', async () => {
+    const provider = new GitHubProvider(new HttpClient(undefined, () => 60000), {
+      host: 'github.example.com',
+      type: 'github',
+      apiUrl: baseUrl
+    }, async () => 'secret');
+
+    const pull = await provider.createPullRequest('team/skills', {
+      base: 'main',
+      branch: 'skill-manager/review-20260101000000',
+      title: 'Add skill: review',
+      body: 'Adds review',
+      message: 'Add skill: review',
+      files: [
+        { path: 'skills/review/SKILL.md', content: Buffer.from('# Review') },
+        { path: 'skills/review/run.sh', content: Buffer.from('#!/bin/sh\n'), executable: true }
+      ],
+      deletePaths: ['skills/review/old.md']
+    });
+
+    assert.deepStrictEqual(pull, {
+      number: 7,
+      url: 'https://github.example.com/team/skills/pull/7',
+      branch: 'skill-manager/review-20260101000000',
+      commit: 'new-commit'
+    });
+    assert.deepStrictEqual(posts.map(p => p.path.replace('/repos/team/skills', '')), [
+      '/git/blobs', '/git/blobs', '/git/trees', '/git/commits', '/git/refs', '/pulls'
+    ]);
+    assert.deepStrictEqual(posts[0].body, { content: Buffer.from('# Review').toString('base64'), encoding: 'base64' });
+    assert.deepStrictEqual(posts[2].body, {
+      base_tree: 'base-tree',
+      tree: [
+        { path: 'skills/review/SKILL.md', mode: '100644', type: 'blob', sha: 'blob-1' },
+        { path: 'skills/review/run.sh', mode: '100755', type: 'blob', sha: 'blob-2' },
+        { path: 'skills/review/old.md', mode: '100644', type: 'blob', sha: null }
+      ]
+    });
+    assert.deepStrictEqual(posts[3].body, { message: 'Add skill: review', tree: 'new-tree', parents: [BASE_COMMIT] });
+    assert.deepStrictEqual(posts[4].body, { ref: 'refs/heads/skill-manager/review-20260101000000', sha: 'new-commit' });
+    assert.deepStrictEqual(posts[5].body, {
+      title: 'Add skill: review',
+      head: 'skill-manager/review-20260101000000',
+      base: 'main',
+      body: 'Adds review'
+    });
+    assert.ok(posts.every(p => p.authorization === 'Bearer secret'));
+  });
+
+  test('Read a skill folder without install metadata', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-publish-'));
+    try {
+      await fs.mkdir(path.join(dir, 'scripts'));
+      await fs.mkdir(path.join(dir, '.git'));
+      await fs.writeFile(path.join(dir, 'SKILL.md'), '# Review');
+      await fs.writeFile(path.join(dir, '.skill-manager.json'), '{}');
+      await fs.writeFile(path.join(dir, '.git', 'HEAD'), 'ref');
+      await fs.writeFile(path.join(dir, 'scripts', 'run.sh'), '#!/bin/sh\n', { mode: 0o755 });
+
+      const files = await readSkillFolder(dir);
+
+      assert.deepStrictEqual(files.map(f => f.path), ['scripts/run.sh', 'SKILL.md']);
+      assert.strictEqual(files[0].executable, process.platform === 'win32' ? undefined : true);
+      assert.strictEqual(files[1].executable, undefined);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('Suggest a target folder and a branch name', () => {
+    assert.strictEqual(getDefaultTargetPath(['skills/a', 'skills/b', 'other'], 'Code Review'), 'skills/code-review');
+    assert.strictEqual(getDefaultTargetPath([], 'Code Review'), 'code-review');
+    assert.strictEqual(getPublishBranch('Code Review', new Date('2026-03-04T05:06:07.890Z')), 'skill-manager/code-review-20260304050607');
+  });
+
+  test('Describe the pull request from the frontmatter', () => {
+    const { title, body, message } = describePullRequest(
+      { name: 'review', description: 'Reviews diffs', version: '1.2.0', tags: ['git', 'a|b'] },
+      [{ path: 'SKILL.md', content: Buffer.alloc(0) }, { path: 'run.sh', content: Buffer.alloc(0), executable: true }],
+      'skills/review',
+      true
+    );
+
+    assert.strictEqual(title, 'Update skill: review');
+    assert.strictEqual(message, 'Update skill: review\n\nReviews diffs');
+    assert.ok(body.includes('| Version | 1.2.0 |'));
+    assert.ok(body.includes('| Tags | git, a\\|b |'));
+    assert.ok(body.includes('- `run.sh` (executable)'));
+    assert.ok(!body.includes('| Author |'));
+  });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SkillParser } from '../../services/skillParser';
+import { parseList, scaffoldSkill, writeSkillFolder, listTemplateFolders } from '../../services/skillScaffold';
+
+suite('Skill Scaffold Test Suite', () => {
+  const parser = new SkillParser();
+
+  test('Generate a SKILL.md that passes validation', () => {
+    const metadata = {
+      name: 'Code Review',
+      description: 'Reviews diffs: style, bugs and tests',
+      category: 'engineering',
+      tags: parseList('git, review, , git'),
+      triggers: parseList('review this pull request'),
+      version: '0.1.0'
+    };
+
+    const files = scaffoldSkill(metadata, ['scripts', 'examples']);
+    const result = parser.parse(files[0].content.toString('utf-8'));
+
+    assert.deepStrictEqual(files.map(f => f.path), ['SKILL.md', 'examples/example.md', 'scripts/run.sh']);
+    assert.strictEqual(files[2].executable, true);
+    assert.deepStrictEqual(result.problems, []);
+    assert.deepStrictEqual(result.metadata, metadata);
+    assert.deepStrictEqual(parser.validateSkill(result.metadata), { isValid: true, errors: [], warnings: [] });
+    assert.ok(result.body.includes('- review this pull request'));
+    assert.ok(result.body.includes('`scripts/run.sh`'));
+    assert.ok(!result.body.includes('## Resources'));
+  });
+
+  test('Start from a template, keeping its instructions and chosen folders', () => {
+    const template = {
+      body: '\n# Original\n\nTemplate instructions\n',
+      files: [
+        { path: 'SKILL.md', content: Buffer.from('---\nname: Original\n---\n# Original\n') },
+        { path: 'README.md', content: Buffer.from('readme') },
+        { path: 'scripts/lint.py', content: Buffer.from('print()'), executable: true },
+        { path: 'examples/one.md', content: Buffer.from('one') }
+      ]
+    };
+
+    const files = scaffoldSkill({ name: 'Fork', description: 'A fork', tags: [] }, ['scripts', 'resources'], template);
+    const skillMd = files[0].content.toString('utf-8');
+
+    assert.deepStrictEqual(files.map(f => f.path), ['SKILL.md', 'README.md', 'resources/README.md', 'scripts/lint.py']);
+    assert.strictEqual(skillMd, '---\nname: Fork\ndescription: A fork\n---\n\n# Original\n\nTemplate instructions\n');
+  });
+
+  test('Write the skill folder and list template folders', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-scaffold-'));
+    try {
+      const files = scaffoldSkill({ name: 'tool', description: 'A tool' }, ['scripts']);
+      await writeSkillFolder(path.join(dir, 'templates', 'tool'), files);
+      await fs.mkdir(path.join(dir, 'templates', '.hidden'));
+
+      const stat = await fs.stat(path.join(dir, 'templates', 'tool', 'scripts', 'run.sh'));
+      if (process.platform !== 'win32') {
+        assert.strictEqual(stat.mode & 0o111, 0o111);
+      }
+      assert.deepStrictEqual(await listTemplateFolders(path.join(dir, 'templates')), [path.join(dir, 'templates', 'tool')]);
+      assert.deepStrictEqual(await listTemplateFolders(path.join(dir, 'missing')), []);
+      await assert.rejects(writeSkillFolder(path.join(dir, 'templates', 'tool'), files), { code: 'EEXIST' });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
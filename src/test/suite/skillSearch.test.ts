@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { SkillSearchIndex, parseSearchQuery, editDistance } from '../../services/skillSearch';
+import { Skill } from '../../models/skill';
+
+suite('Skill Search Test Suite', () => {
+  const skill = (name: string, extra: Partial<Skill> = {}): Skill => ({
+    id: `owner/repo/skills/${name}`,
+    name,
+    description: '',
+    repository: 'owner/repo',
+    path: `skills/${name}`,
+    files: [],
+    ...extra
+  });
+
+  const skills = [
+    skill('commit-writer', { description: 'Writes changelog entries', tags: ['git'] }),
+    skill('changelog', { description: 'Keeps a changelog from commit history', author: 'Jane Doe' }),
+    skill('threat-model', {
+      description: 'Reviews designs',
+      tags: ['security'],
+      category: 'security',
+      repository: 'sickn33/skills',
+      isInstalled: true
+    }),
+    skill('pdf-tools', { description: 'Fill and merge PDF forms' })
+  ];
+  const bodies = new Map([[skills[3].id, 'Uses pypdf to extract tables']]);
+  const names = (query: string) => new SkillSearchIndex(skills, bodies).search(query).map(r => r.skill.name);
+
+  test('Parse operators, exclusions and quoted values', () => {
+    assert.deepStrictEqual(parseSearchQuery('Git -draft tag:"Code Review" -repo:owner installed:true foo:bar'), {
+      terms: ['git', 'foo', 'bar'],
+      excluded: ['draft'],
+      filters: [
+        { operator: 'tag', value: 'code review', negated: false },
+        { operator: 'repo', value: 'owner', negated: true },
+        { operator: 'installed', value: 'true', negated: false }
+      ]
+    });
+  });
+
+  test('Count transpositions as a single edit', () => {
+    assert.strictEqual(editDistance('commit', 'comimt', 2), 1);
+    assert.strictEqual(editDistance('commit', 'ocmmti', 2), 2);
+    assert.strictEqual(editDistance('pdf', 'changelog', 2), 3);
+  });
+
+  test('Rank name matches above description matches', () => {
+    assert.deepStrictEqual(names('changelog'), ['changelog', 'commit-writer']);
+    assert.deepStrictEqual(names('commit'), ['commit-writer', 'changelog']);
+  });
+
+  test('Tolerate typos and match prefixes', () => {
+    assert.deepStrictEqual(names('chnagelog'), ['changelog', 'commit-writer']);
+    assert.deepStrictEqual(names('thre'), ['threat-model']);
+    assert.deepStrictEqual(names('xyzzy'), []);
+  });
+
+  test('Search SKILL.md bodies', () => {
+    const [result] = new SkillSearchIndex(skills, bodies).search('pypdf');
+
+    assert.strictEqual(result.skill.name, 'pdf-tools');
+    assert.deepStrictEqual(result.matches, ['pypdf']);
+  });
+
+  test('Filter with operators and exclusions', () => {
+    assert.deepStrictEqual(names('repo:sickn33'), ['threat-model']);
+    assert.deepStrictEqual(names('tag:security'), ['threat-model']);
+    assert.deepStrictEqual(names('author:jane'), ['changelog']);
+    assert.deepStrictEqual(names('installed:true'), ['threat-model']);
+    assert.deepStrictEqual(names('installed:false -pdf'), ['commit-writer', 'changelog']);
+    assert.deepStrictEqual(names('changelog -tag:git'), ['changelog']);
+  });
+});
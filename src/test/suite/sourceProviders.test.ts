@@ -0,0 +1,290 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { execFileSync } from 'child_process';
+import { pathToFileURL } from 'url';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../../services/httpClient';
+import { GitHubProvider } from '../../services/githubProvider';
+import { GiteaProvider } from '../../services/giteaProvider';
+import { walkSubtrees } from '../../services/sourceProvider';
+import { RepositoryTree } from '../../models/repository';
+import { LocalProvider } from '../../services/localProvider';
+import { GitProvider } from '../../services/gitProvider';
+import { gitBlobSha } from '../../services/contentHash';
+
+const COMMIT = '4f2c1e9b0d7a6c5e3f1b2a4d6c8e0f1a3b5c7d9e';
+
+type Route = (req: http.IncomingMessage, url: URL, body: string) => { status?: number; body: unknown; raw?: boolean } | undefined;
+
+suite('Source Providers Test Suite', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let route: Route;
+  let requests: http.IncomingMessage[];
+
+  setup(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const result = route(req, new URL(req.url ?? '/', baseUrl), body);
+        if (!result) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(result.status ?? 200, { 'Content-Type': result.raw ? 'text/plain' : 'application/json' });
+        res.end(result.raw ? String(result.body) : JSON.stringify(result.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  teardown(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('Fetch from GitHub Enterprise through a custom API base', async () => {
+    route = (req, url) => {
+      switch (url.pathname) {
+        case '/api/v3/repos/team/skills':
+          return { body: { owner: { login: 'team' }, name: 'skills', full_name: 'team/skills', description: null, default_branch: 'main' } };
+        case '/api/v3/repos/team/skills/commits/main':
+          return { body: { sha: COMMIT } };
+        case `/api/v3/repos/team/skills/git/trees/${COMMIT}`:
+          return { body: { sha: 'tree', url: '', truncated: false, tree: [{ path: 'one/SKILL.md', mode: '100644', type: 'blob', sha: 'a', url: '' }] } };
+        case '/api/v3/repos/team/skills/contents/one/SKILL.md':
+          return req.headers.accept === 'application/vnd.github.raw' && url.searchParams.get('ref') === COMMIT
+            ? { body: '# One', raw: true }
+            : undefined;
+      }
+      return undefined;
+    };
+    const provider = new GitHubProvider(new HttpClient(undefined, () => 60000), {
+      host: 'github.example.com',
+      type: 'github',
+      apiUrl: `${baseUrl}/api/v3`
+    }, async () => 'secret');
+
+    const tree = await provider.fetchRepositoryTree('team/skills');
+    const content = await provider.downloadFile('team/skills', 'one/SKILL.md', COMMIT);
+
+    assert.strictEqual(tree.commit, COMMIT);
+    assert.deepStrictEqual(tree.tree.map(node => node.path), ['one/SKILL.md']);
+    assert.strictEqual(content.toString(), '# One');
+    assert.ok(requests.every(req => req.headers.authorization === 'Bearer secret'));
+    assert.strictEqual(provider.getFileUrl('team/skills', 'one/SKILL.md', 'main'), `${baseUrl}/team/skills/blob/main/one/SKILL.md`);
+  });
+
+  test('Batch file fetches through GitHub GraphQL', async () => {
+    const queries: { variables: Record<string, string> }[] = [];
+    route = (req, url, body) => {
+      if (url.pathname !== '/api/graphql' || req.method !== 'POST') {
+        return undefined;
+      }
+      const { variables } = JSON.parse(body);
+      queries.push({ variables });
+      const repository: Record<string, unknown> = {};
+      for (const [key, expression] of Object.entries<string>(variables)) {
+        if (key.startsWith('e')) {
+          repository[`f${key.slice(1)}`] = expression.endsWith('missing.md') ? null : { text: `# ${expression}` };
+        }
+      }
+      return { body: { data: { repository } } };
+    };
+    const provider = new GitHubProvider(new HttpClient(undefined, () => 60000), {
+      host: 'github.example.com',
+      type: 'github',
+      apiUrl: `${baseUrl}/api/v3`
+    }, async () => 'secret');
+    const paths = Array.from({ length: 60 }, (_, i) => `skill-${i}/SKILL.md`).concat('missing.md');
+
+    const contents = await provider.fetchFileContents('team/skills', paths, COMMIT);
+
+    assert.strictEqual(queries.length, 2);
+    assert.strictEqual(queries[0].variables.owner, 'team');
+    assert.strictEqual(contents.size, 60);
+    assert.strictEqual(contents.get('skill-7/SKILL.md'), `# ${COMMIT}:skill-7/SKILL.md`);
+    assert.strictEqual(contents.has('missing.md'), false);
+  });
+
+  test('List truncated trees subtree by subtree', async () => {
+    const node = (path: string, type: 'blob' | 'tree', sha = path) => ({ path, mode: type === 'tree' ? '040000' : '100644', type, sha, url: '' });
+    const trees: Record<string, { recursive: RepositoryTree; flat: RepositoryTree }> = {
+      root: {
+        recursive: { sha: 'root', url: '', truncated: true, tree: [] },
+        flat: { sha: 'root', url: '', truncated: false, tree: [node('big', 'tree', 'big'), node('README.md', 'blob')] }
+      },
+      big: {
+        recursive: { sha: 'big', url: '', truncated: true, tree: [] },
+        flat: { sha: 'big', url: '', truncated: false, tree: [node('a', 'tree', 'a'), node('b', 'tree', 'b')] }
+      },
+      a: {
+        recursive: { sha: 'a', url: '', truncated: false, tree: [node('SKILL.md', 'blob'), node('ref', 'tree'), node('ref/notes.md', 'blob')] },
+        flat: { sha: 'a', url: '', truncated: false, tree: [] }
+      },
+      b: {
+        recursive: { sha: 'b', url: '', truncated: false, tree: [node('SKILL.md', 'blob')] },
+        flat: { sha: 'b', url: '', truncated: false, tree: [] }
+      }
+    };
+    const requests: string[] = [];
+
+    const nodes = await walkSubtrees(async (sha, recursive) => {
+      requests.push(`${sha}${recursive ? '' : ':flat'}`);
+      return recursive ? trees[sha].recursive : trees[sha].flat;
+    }, 'root', '', false);
+
+    assert.deepStrictEqual(nodes.map(entry => entry.path), [
+      'big', 'big/a', 'big/a/SKILL.md', 'big/a/ref', 'big/a/ref/notes.md', 'big/b', 'big/b/SKILL.md', 'README.md'
+    ]);
+    assert.deepStrictEqual(requests.sort(), ['a', 'b', 'big', 'big:flat', 'root:flat']);
+  });
+
+  test('Follow paged trees from Gitea', async () => {
+    const node = (path: string) => ({ path, mode: '100644', type: 'blob', sha: path, url: '' });
+    const pages = [[node('one/SKILL.md'), node('one/notes.md')], [node('two/SKILL.md')]];
+    route = (req, url) => {
+      switch (url.pathname) {
+        case '/api/v1/repos/team/skills':
+          return { body: { owner: { login: 'team' }, name: 'skills', full_name: 'team/skills', description: '', default_branch: 'main' } };
+        case '/api/v1/repos/team/skills/commits':
+          return url.searchParams.get('sha') === 'main' ? { body: [{ sha: COMMIT }] } : { body: [] };
+        case `/api/v1/repos/team/skills/git/trees/${COMMIT}`: {
+          const page = Number(url.searchParams.get('page'));
+          return { body: { sha: COMMIT, url: '', tree: pages[page - 1], truncated: page < pages.length, page, total_count: 3 } };
+        }
+        case '/api/v1/repos/team/skills/raw/two/SKILL.md':
+          return { body: '# Two', raw: true };
+      }
+      return undefined;
+    };
+    const provider = new GiteaProvider(new HttpClient(undefined, () => 60000), {
+      host: 'git.example.com',
+      type: 'gitea',
+      apiUrl: `${baseUrl}/api/v1`
+    }, async () => 'secret');
+
+    const tree = await provider.fetchRepositoryTree('team/skills');
+    const content = await provider.downloadFile('team/skills', 'two/SKILL.md', COMMIT);
+
+    assert.strictEqual(tree.commit, COMMIT);
+    assert.strictEqual(tree.truncated, false);
+    assert.deepStrictEqual(tree.tree.map(entry => entry.path), ['one/SKILL.md', 'one/notes.md', 'two/SKILL.md']);
+    assert.strictEqual(content.toString(), '# Two');
+    assert.ok(requests.every(req => req.headers.authorization === 'token secret'));
+    await assert.rejects(provider.resolveRef('team/skills', 'missing'), /Ref not found/);
+  });
+
+  test('Report a Gitea tree cut off at the page limit as truncated', async () => {
+    route = (req, url) => {
+      switch (url.pathname) {
+        case '/api/v1/repos/team/skills/commits':
+          return { body: [{ sha: COMMIT }] };
+        case `/api/v1/repos/team/skills/git/trees/${COMMIT}`: {
+          const page = url.searchParams.get('page');
+          return { body: { sha: COMMIT, url: '', tree: [{ path: `${page}/SKILL.md`, mode: '100644', type: 'blob', sha: 'a', url: '' }], truncated: true } };
+        }
+      }
+      return undefined;
+    };
+    const provider = new GiteaProvider(new HttpClient(undefined, () => 60000), {
+      host: 'git.example.com',
+      type: 'gitea',
+      apiUrl: `${baseUrl}/api/v1`
+    }, async () => undefined);
+
+    const tree = await provider.fetchRepositoryTree('team/skills', 'main');
+
+    assert.strictEqual(tree.truncated, true);
+    assert.strictEqual(tree.tree.length, 100);
+  });
+
+  test('Serve cached responses when the host is unreachable', async () => {
+    route = () => ({ body: { owner: { login: 'team' }, name: 'skills', full_name: 'team/skills', description: '', default_branch: 'main' } });
+    const client = new HttpClient(undefined, () => 0);
+    const provider = new GiteaProvider(client, { host: 'git.example.com', type: 'gitea', apiUrl: `${baseUrl}/api/v1` }, async () => undefined);
+
+    await provider.fetchRepository('team/skills');
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+    const repository = await provider.fetchRepository('team/skills');
+
+    assert.strictEqual(repository.defaultBranch, 'main');
+    assert.strictEqual(client.isOffline(), true);
+  });
+});
+
+suite('Local Source Providers Test Suite', () => {
+  let dir: string;
+  let source: string;
+
+  setup(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-sources-'));
+    source = path.join(dir, 'source');
+    await fs.mkdir(path.join(source, 'skills', 'one'), { recursive: true });
+    await fs.mkdir(path.join(source, 'node_modules', 'dep'), { recursive: true });
+    await fs.writeFile(path.join(source, 'skills', 'one', 'SKILL.md'), '# One\n');
+    await fs.writeFile(path.join(source, 'node_modules', 'dep', 'SKILL.md'), '# Ignored\n');
+  });
+
+  teardown(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('Read skills from a folder on disk', async () => {
+    const provider = new LocalProvider();
+    const url = pathToFileURL(source).href;
+
+    const tree = await provider.fetchRepositoryTree(url);
+    const blob = tree.tree.find(node => node.path === 'skills/one/SKILL.md');
+
+    assert.deepStrictEqual(tree.tree.map(node => node.path), ['skills', 'skills/one', 'skills/one/SKILL.md']);
+    assert.strictEqual(blob?.sha, gitBlobSha(Buffer.from('# One\n')));
+    assert.strictEqual((await provider.downloadFile(url, 'skills/one/SKILL.md')).toString(), '# One\n');
+    await assert.rejects(provider.downloadFile(url, '../outside.md'), /outside/);
+
+    await fs.writeFile(path.join(source, 'skills', 'one', 'SKILL.md'), '# One, edited\n');
+    assert.notStrictEqual((await provider.fetchRepositoryTree(url)).commit, tree.commit);
+  });
+
+  test('Shallow-fetch skills from a git remote', async function () {
+    this.timeout(20000);
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: source }).toString().trim();
+    git('init', '--quiet');
+    git('add', 'skills');
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'Add skills');
+    const commit = git('rev-parse', 'HEAD');
+    const provider = new GitProvider(path.join(dir, 'cache'), () => 60000);
+
+    const tree = await provider.fetchRepositoryTree(source);
+    const content = await provider.downloadFile(source, 'skills/one/SKILL.md', commit);
+
+    assert.strictEqual(tree.commit, commit);
+    assert.deepStrictEqual(tree.tree.map(node => node.path), ['skills', 'skills/one', 'skills/one/SKILL.md']);
+    assert.strictEqual(tree.tree[2].sha, gitBlobSha(Buffer.from('# One\n')));
+    assert.strictEqual(tree.tree[2].size, 6);
+    assert.strictEqual(content.toString(), '# One\n');
+
+    // The last fetched commit is still served once the remote is gone
+    await fs.rm(path.join(source, '.git'), { recursive: true, force: true });
+    const offline = await provider.resolveRef(source, undefined, true);
+    assert.strictEqual(offline.commit, commit);
+    assert.strictEqual(provider.isOffline(), true);
+  });
+
+  test('Never pass a ref to git as an option', async function () {
+    this.timeout(20000);
+    const marker = path.join(dir, 'pwned');
+    const provider = new GitProvider(path.join(dir, 'cache'), () => 60000);
+
+    await assert.rejects(provider.resolveRef(source, `--upload-pack=touch ${marker}; git-upload-pack`), /Invalid git ref/);
+    await assert.rejects(provider.fetchRepositoryTree(source, 'main..dev'), /Invalid git ref/);
+    await assert.rejects(fs.access(marker));
+  });
+});
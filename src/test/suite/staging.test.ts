@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { STAGING_FOLDER, createStagingDir, verifyBlob, commitStaged, recoverStaging, isOwnerActive } from '../../services/staging';
+
+suite('Staging Test Suite', () => {
+  let root: string;
+
+  setup(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-staging-'));
+  });
+
+  teardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('Verify downloaded content against the tree', () => {
+    const node = { sha: 'ce013625030ba8dba906f756967f9e9ca394464a', size: 6 };
+
+    assert.strictEqual(verifyBlob(Buffer.from('hello\n'), node), undefined);
+    assert.match(verifyBlob(Buffer.from('hello'), node) ?? '', /size mismatch/);
+    assert.match(verifyBlob(Buffer.from('HELLO\n'), node) ?? '', /does not match/);
+  });
+
+  test('Move a staged skill into place', async () => {
+    const staging = await createStagingDir(root, 'my-skill');
+    await fs.writeFile(path.join(staging, 'SKILL.md'), 'new');
+
+    await commitStaged(staging, path.join(root, 'my-skill'));
+
+    assert.strictEqual(await fs.readFile(path.join(root, 'my-skill', 'SKILL.md'), 'utf-8'), 'new');
+    assert.deepStrictEqual(await fs.readdir(path.join(root, STAGING_FOLDER)), []);
+  });
+
+  test('Replace an existing skill without leaving the old copy behind', async () => {
+    await fs.mkdir(path.join(root, 'my-skill'));
+    await fs.writeFile(path.join(root, 'my-skill', 'SKILL.md'), 'old');
+    await fs.writeFile(path.join(root, 'my-skill', 'removed.md'), 'old');
+    const staging = await createStagingDir(root, 'my-skill');
+    await fs.writeFile(path.join(staging, 'SKILL.md'), 'new');
+
+    await commitStaged(staging, path.join(root, 'my-skill'));
+
+    assert.deepStrictEqual(await fs.readdir(path.join(root, 'my-skill')), ['SKILL.md']);
+    assert.deepStrictEqual(await fs.readdir(path.join(root, STAGING_FOLDER)), []);
+  });
+
+  test('Restore skills moved aside by an interrupted update', async () => {
+    const staging = await createStagingDir(root, 'my.skill');
+    await fs.mkdir(`${staging}.old`);
+    await fs.writeFile(path.join(`${staging}.old`, 'SKILL.md'), 'old');
+    const leftover = await createStagingDir(root, 'other');
+
+    const restored = await recoverStaging(root, () => false);
+
+    assert.deepStrictEqual(restored, ['my.skill']);
+    assert.strictEqual(await fs.readFile(path.join(root, 'my.skill', 'SKILL.md'), 'utf-8'), 'old');
+    await assert.rejects(fs.access(staging));
+    await assert.rejects(fs.access(leftover));
+  });
+
+  test('Restore a disabled skill to the disabled folder', async () => {
+    const staging = await createStagingDir(root, '.disabled/my-skill');
+    await fs.mkdir(`${staging}.old`);
+    await fs.writeFile(path.join(`${staging}.old`, 'SKILL.md'), 'old');
+
+    const restored = await recoverStaging(root, () => false);
+
+    assert.deepStrictEqual(restored, ['.disabled/my-skill']);
+    assert.strictEqual(await fs.readFile(path.join(root, '.disabled', 'my-skill', 'SKILL.md'), 'utf-8'), 'old');
+    await assert.rejects(fs.access(path.join(root, 'my-skill')));
+  });
+
+  test('Drop the old copy when the update had already completed', async () => {
+    await fs.mkdir(path.join(root, 'my-skill'));
+    await fs.writeFile(path.join(root, 'my-skill', 'SKILL.md'), 'new');
+    const staging = await createStagingDir(root, 'my-skill');
+    await fs.rename(staging, `${staging}.old`);
+
+    assert.deepStrictEqual(await recoverStaging(root, () => false), []);
+    assert.strictEqual(await fs.readFile(path.join(root, 'my-skill', 'SKILL.md'), 'utf-8'), 'new');
+    assert.deepStrictEqual(await fs.readdir(path.join(root, STAGING_FOLDER)), []);
+  });
+
+  test('Leave the entries of a running install alone', async () => {
+    await fs.mkdir(path.join(root, 'my-skill'));
+    const staging = await createStagingDir(root, 'my-skill');
+    await fs.writeFile(path.join(staging, 'SKILL.md'), 'new');
+    await fs.rename(path.join(root, 'my-skill'), `${staging}.old`);
+
+    assert.deepStrictEqual(await recoverStaging(root), []);
+    assert.strictEqual(await fs.readFile(path.join(staging, 'SKILL.md'), 'utf-8'), 'new');
+    await fs.access(`${staging}.old`);
+    await assert.rejects(fs.access(path.join(root, 'my-skill')));
+  });
+
+  test('Treat stale entries and exited processes as interrupted', () => {
+    const now = Date.now();
+
+    assert.strictEqual(isOwnerActive({ pid: process.pid, createdAt: now }, now), true);
+    assert.strictEqual(isOwnerActive({ pid: process.pid, createdAt: now - 2 * 60 * 60 * 1000 }, now), false);
+    assert.strictEqual(isOwnerActive({ pid: 2 ** 22 + 1, createdAt: now }, now), false);
+  });
+});
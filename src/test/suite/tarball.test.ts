@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { execFileSync } from 'child_process';
+import { readTarball } from '../../services/tarball';
+
+suite('Tarball Test Suite', () => {
+  let dir: string;
+
+  setup(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skill-tarball-'));
+    const root = path.join(dir, 'owner-repo-4f2c1e9');
+    const longFolder = `skills/${'nested-folder-name/'.repeat(8)}deep`;
+    await fs.mkdir(path.join(root, longFolder), { recursive: true });
+    await fs.writeFile(path.join(root, 'skills', 'SKILL.md'), '# Root\n');
+    await fs.writeFile(path.join(root, longFolder, 'SKILL.md'), '# Deep\n');
+    await fs.writeFile(path.join(root, 'run.sh'), 'echo hi\n', { mode: 0o755 });
+    await fs.symlink('run.sh', path.join(root, 'link.sh'));
+  });
+
+  teardown(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Archive the fixture with the system tar in the given format
+   */
+  function archive(format: string): Buffer {
+    return execFileSync('tar', [`--format=${format}`, '-czf', '-', '-C', dir, 'owner-repo-4f2c1e9']);
+  }
+
+  for (const format of ['gnu', 'pax']) {
+    test(`Read ${format} archives without the top-level folder`, () => {
+      const entries = readTarball(archive(format));
+      const files = entries.filter(entry => entry.type === 'file');
+      const deep = files.find(entry => entry.path.endsWith('/deep/SKILL.md'));
+
+      assert.ok(entries.some(entry => entry.type === 'directory' && entry.path === 'skills'));
+      assert.strictEqual(files.find(entry => entry.path === 'skills/SKILL.md')?.content?.toString(), '# Root\n');
+      assert.ok(deep && deep.path.length > 100);
+      assert.strictEqual(deep.content?.toString(), '# Deep\n');
+      assert.ok((files.find(entry => entry.path === 'run.sh')?.mode ?? 0) & 0o100);
+      assert.ok(!entries.some(entry => entry.path === 'link.sh'));
+    });
+  }
+});
@@ -0,0 +1,263 @@
+const FENCE_REGEX = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_REGEX = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_REGEX = /^\s{0,3}>\s?/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+/;
+const TABLE_DIVIDER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** Markdown links and images in escaped text: [text](target "title") */
+const LINK_REGEX = /!?\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\s*\)/g;
+
+/** Link targets opened outside the editor */
+const EXTERNAL_LINK_REGEX = /^(https?:|mailto:)/i;
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Render markdown to HTML for the Skill Browser. All text is escaped before
+ * formatting is applied and raw HTML is never passed through, so the result
+ * is safe to insert into the webview. Relative links get a `data-file`
+ * attribute naming the skill file instead of an href.
+ */
+export function renderMarkdown(markdown: string): string {
+  // NUL marks set-aside links while formatting
+  return renderBlocks(markdown.replace(/\u0000/g, '').replace(/\r\n?/g, '\n').split('\n'));
+}
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string): boolean {
+  return FENCE_REGEX.test(line) ||
+    HEADING_REGEX.test(line) ||
+    RULE_REGEX.test(line) ||
+    QUOTE_REGEX.test(line) ||
+    LIST_ITEM_REGEX.test(line);
+}
+
+/**
+ * Render a sequence of lines as blocks
+ */
+function renderBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && QUOTE_REGEX.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE_REGEX, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_REGEX);
+    if (item) {
+      const end = findListEnd(lines, i, item[1].length);
+      html.push(renderList(lines.slice(i, end), item[1].length));
+      i = end;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER_REGEX.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const rows: string[] = [line];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(lines[i]);
+        i++;
+      }
+      html.push(renderTable(rows));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+/**
+ * Index of the first line after a list starting at `start`. The list
+ * continues over items of the same kind at the same indent, indented lines
+ * and single blank lines followed by either.
+ */
+function findListEnd(lines: string[], start: number, indent: number): number {
+  const ordered = isOrderedItem(lines[start]);
+  let i = start + 1;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      const next = lines[i + 1];
+      if (next === undefined || !next.trim() || !continuesList(next, indent, ordered)) {
+        break;
+      }
+    } else if (!continuesList(line, indent, ordered) && startsBlock(line)) {
+      break;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Whether a non-blank line belongs to a list at the given indent
+ */
+function continuesList(line: string, indent: number, ordered: boolean): boolean {
+  const lineIndent = line.length - line.trimStart().length;
+  return lineIndent > indent || (lineIndent === indent && LIST_ITEM_REGEX.test(line) && isOrderedItem(line) === ordered);
+}
+
+/**
+ * Whether a list item line is numbered
+ */
+function isOrderedItem(line: string): boolean {
+  return /^\d/.test(line.trim());
+}
+
+/**
+ * Render the lines of one list. Each item's lines, dedented to its text,
+ * are rendered as blocks so nested lists and code work; single-paragraph
+ * items are unwrapped.
+ */
+function renderList(lines: string[], indent: number): string {
+  const ordered = isOrderedItem(lines[0]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM_REGEX);
+    if (item && item[1].length === indent) {
+      contentIndent = item[0].length;
+      items.push([line.slice(contentIndent)]);
+    } else {
+      items[items.length - 1].push(line.slice(Math.min(contentIndent, line.length - line.trimStart().length)));
+    }
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const rendered = items.map(item => {
+    const content = renderBlocks(item);
+    const single = content.match(/^<p>([\s\S]*?)<\/p>(\n<(?:ul|ol)>[\s\S]*)?$/);
+    return `<li>${single && !single[1].includes('<p>') ? single[1] + (single[2] ?? '') : content}</li>`;
+  });
+  return `<${tag}>${rendered.join('')}</${tag}>`;
+}
+
+/**
+ * Render a table from its header and body rows
+ */
+function renderTable(rows: string[]): string {
+  const cells = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => renderInline(cell.trim()));
+  const [header, ...body] = rows.map(cells);
+
+  return '<table><thead><tr>' + header.map(cell => `<th>${cell}</th>`).join('') + '</tr></thead><tbody>' +
+    body.map(row => '<tr>' + row.map(cell => `<td>${cell}</td>`).join('') + '</tr>').join('') +
+    '</tbody></table>';
+}
+
+/**
+ * Render inline formatting. Code spans are split out first so their
+ * contents are shown literally.
+ */
+function renderInline(text: string): string {
+  return text.split(/(`+[^`]*?`+)/).map((part, index) => {
+    if (index % 2 === 1) {
+      return `<code>${escapeHtml(part.replace(/^`+\s?|\s?`+$/g, ''))}</code>`;
+    }
+    return formatText(escapeHtml(part));
+  }).join('');
+}
+
+/**
+ * Apply links, emphasis and line breaks to escaped text. Links are set
+ * aside while emphasis is applied so their targets stay intact.
+ */
+function formatText(html: string): string {
+  const links: string[] = [];
+  const text = html.replace(LINK_REGEX, (match, label: string, target: string) => {
+    links.push(renderLink(label ? formatEmphasis(label) : target, target));
+    return `\u0000${links.length - 1}\u0000`;
+  });
+
+  return formatEmphasis(text)
+    .replace(/ {2,}\n/g, '<br>\n')
+    .replace(/\u0000(\d+)\u0000/g, (match, index: string) => links[Number(index)]);
+}
+
+/**
+ * Render a link. Web links open outside the editor, relative links point
+ * at a file of the skill and anything else is shown as text.
+ */
+function renderLink(text: string, target: string): string {
+  if (EXTERNAL_LINK_REGEX.test(target)) {
+    return `<a href="${target}">${text}</a>`;
+  }
+  if (target.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(target)) {
+    return text;
+  }
+  return `<a href="#" data-file="${target.replace(/^\.\//, '')}">${text}</a>`;
+}
+
+/**
+ * Apply bold, italic and strikethrough to escaped text
+ */
+function formatEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
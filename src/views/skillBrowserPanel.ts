@@ -2,7 +2,23 @@ import * as vscode from 'vscode';
 import { GitHubService } from '../services/githubService';
 import { SkillParser } from '../services/skillParser';
 import { SkillInstaller } from '../services/skillInstaller';
-import { Skill } from '../models/skill';
+import { DependencyResolver } from '../services/dependencyResolver';
+import { SkillSearchIndex } from '../services/skillSearch';
+import { SkillFilterState, DEFAULT_FILTER_STATE, normalizeFilterState, applyFilters, getFacets } from '../services/skillFilters';
+import { Skill, SkillFile, SkillUpdate, InstalledSkill, InstallScope, InstallResult } from '../models/skill';
+import { confirmAndApplyUpdates } from '../commands/updateSkills';
+import { pickInstallScope } from '../commands/installScope';
+import { resolveInstallPlan } from '../commands/dependencies';
+import { askInstallConflict } from '../commands/installConflict';
+import { setSkillsEnabled } from '../commands/profiles';
+import { isSameSkill } from '../services/installLayout';
+import { renderMarkdown } from './markdown';
+
+/** workspaceState key of the browser's search, filters and sort order */
+const FILTER_STATE_KEY = 'skillManager.browserFilters';
+
+/** Largest file shown in the detail view's preview */
+const MAX_PREVIEW_BYTES = 256 * 1024;
 
 /**
  * Activity log entry
@@ -23,8 +39,15 @@ export class SkillBrowserPanel {
   private readonly panel: vscode.WebviewPanel;
   private disposables: vscode.Disposable[] = [];
   private skills: Skill[] = [];
+  private skillBodies: Map<string, string> = new Map();
+  private searchIndex = new SkillSearchIndex([]);
+  private filterState: SkillFilterState;
+  private updates: Map<string, SkillUpdate> = new Map();
+  private installed: InstalledSkill[] = [];
   private activityLog: ActivityEntry[] = [];
   private currentStatus: 'idle' | 'loading' | 'installing' = 'idle';
+  private showingCatalog = false;
+  private syncedAt: Date | undefined;
 
   private constructor(
     panel: vscode.WebviewPanel,
@@ -32,9 +55,11 @@ export class SkillBrowserPanel {
     private githubService: GitHubService,
     private skillParser: SkillParser,
     private skillInstaller: SkillInstaller,
+    private dependencyResolver: DependencyResolver,
     private outputChannel: vscode.OutputChannel
   ) {
     this.panel = panel;
+    this.filterState = normalizeFilterState(context.workspaceState.get(FILTER_STATE_KEY));
 
     // Set initial HTML content
     this.panel.webview.html = this.getLoadingHtml();
@@ -67,7 +92,7 @@ export class SkillBrowserPanel {
     const command = msg.command;
 
     // Validate command is in allowed list
-    const allowedCommands = ['install', 'installBatch', 'search', 'refresh', 'filterCategory', 'openReadme', 'openSource', 'clearSearch', 'openSettings'];
+    const allowedCommands = ['install', 'installBatch', 'update', 'move', 'toggleEnabled', 'filter', 'clearFilters', 'refresh', 'openDetail', 'previewFile', 'openSource', 'openSettings'];
     if (typeof command !== 'string' || !allowedCommands.includes(command)) {
       return;
     }
@@ -75,36 +100,56 @@ export class SkillBrowserPanel {
     switch (command) {
       case 'install':
         if (typeof msg.skillId === 'string') {
-          await this.handleInstall(msg.skillId);
+          await this.handleInstall(msg.skillId, this.resolveScope(msg.scopeRoot));
         }
         break;
       case 'installBatch':
         if (Array.isArray(msg.skillIds)) {
-          await this.handleBatchInstall(msg.skillIds as string[]);
+          await this.handleBatchInstall(msg.skillIds as string[], this.resolveScope(msg.scopeRoot));
         }
         break;
-      case 'search':
-        if (typeof msg.query === 'string') {
-          await this.handleSearch(msg.query);
+      case 'move':
+        if (typeof msg.skillId === 'string') {
+          await this.handleMove(msg.skillId);
         }
         break;
-      case 'refresh':
-        await this.loadSkills();
+      case 'update':
+        if (typeof msg.skillId === 'string') {
+          await this.handleUpdate(msg.skillId);
+        }
         break;
-      case 'filterCategory':
-        if (typeof msg.category === 'string') {
-          await this.handleCategoryFilter(msg.category);
+      case 'toggleEnabled':
+        if (typeof msg.skillId === 'string') {
+          await this.handleToggleEnabled(msg.skillId);
+        }
+        break;
+      case 'filter':
+        if (msg.filters && typeof msg.filters === 'object') {
+          await this.handleFilter(msg.filters as Record<string, unknown>);
         }
         break;
-      case 'clearSearch':
-        this.sendSkillsToWebview();
+      case 'clearFilters':
+        await this.handleFilter({ ...DEFAULT_FILTER_STATE, sort: this.filterState.sort });
+        break;
+      case 'refresh':
+        await this.loadSkills();
         break;
       case 'openSettings':
         await this.handleOpenSettings();
         break;
-      case 'openReadme':
+      case 'openDetail':
+        if (typeof msg.skillId === 'string') {
+          await this.handleOpenDetail(msg.skillId);
+        }
+        break;
+      case 'previewFile':
+        if (typeof msg.skillId === 'string' && typeof msg.path === 'string') {
+          await this.handlePreviewFile(msg.skillId, msg.path);
+        }
+        break;
+      case 'openSource':
         if (typeof msg.skillId === 'string') {
-          await this.handleOpenReadme(msg.skillId);
+          await this.handleOpenSource(msg.skillId);
         }
         break;
     }
@@ -155,6 +200,7 @@ export class SkillBrowserPanel {
     githubService: GitHubService,
     skillParser: SkillParser,
     skillInstaller: SkillInstaller,
+    dependencyResolver: DependencyResolver,
     outputChannel: vscode.OutputChannel
   ): void {
     const column = vscode.window.activeTextEditor
@@ -187,20 +233,37 @@ export class SkillBrowserPanel {
       githubService,
       skillParser,
       skillInstaller,
+      dependencyResolver,
       outputChannel
     );
   }
 
   /**
-   * Load skills from configured repositories
+   * Load skills from configured repositories. The last saved catalog is
+   * shown right away and replaced once the sync finishes; without network
+   * access it stays on screen, marked as offline.
    */
   private async loadSkills(): Promise<void> {
+    this.currentStatus = 'loading';
+    
+    if (!this.showingCatalog) {
+      const snapshot = await this.githubService.getCatalogSnapshot();
+      if (snapshot && snapshot.skills.length > 0) {
+        this.skills = snapshot.skills;
+        this.searchIndex = new SkillSearchIndex(this.skills, this.skillBodies);
+        this.syncedAt = new Date(snapshot.syncedAt);
+        await this.updateInstallationStatus(false);
+        this.showCatalog();
+      } else {
+        this.panel.webview.html = this.getLoadingHtml();
+      }
+    }
+    this.sendSyncStatus('syncing');
+    
     try {
-      this.currentStatus = 'loading';
-      this.panel.webview.html = this.getLoadingHtml();
       this.logActivity('info', 'Starting to load skills from repositories...');
       
-      this.skills = await this.githubService.fetchAllSkills((current, total, repo) => {
+      const skills = await this.githubService.fetchAllSkills((current, total, repo) => {
         this.panel.webview.postMessage({
           type: 'loadingProgress',
           current,
@@ -209,131 +272,234 @@ export class SkillBrowserPanel {
         });
       });
 
+      for (const repo of this.githubService.getIncompleteSources()) {
+        this.logActivity('warning', `The listing of ${repo} was incomplete; some of its skills may be missing`);
+      }
+
+      // Nothing came back at all: keep what is on screen
+      if (skills.length === 0 && this.showingCatalog && this.githubService.isOffline()) {
+        throw new Error('No skills could be loaded from the configured repositories');
+      }
+
       // Enrich skills with metadata
-      await this.enrichSkillsWithMetadata();
+      await this.enrichSkillsWithMetadata(skills);
+      const previous = new Map(this.skills.map(skill => [skill.id, skill]));
+      this.skills = skills;
+      this.searchIndex = new SkillSearchIndex(this.skills, this.skillBodies);
       
       // Check installation status
       await this.updateInstallationStatus();
 
+      const offline = this.githubService.isOffline();
+      if (offline) {
+        // Saving the catalog dates changes; until then keep the last dates
+        for (const skill of this.skills) {
+          skill.updatedAt = previous.get(skill.id)?.updatedAt;
+        }
+      } else {
+        const snapshot = await this.githubService.saveCatalogSnapshot(this.skills).catch(error => {
+          console.error('Failed to save catalog snapshot:', error);
+          return undefined;
+        });
+        this.syncedAt = snapshot ? new Date(snapshot.syncedAt) : new Date();
+      }
+
       this.currentStatus = 'idle';
-      this.logActivity('success', `Loaded ${this.skills.length} skills from repositories`);
+      this.logActivity(
+        offline ? 'warning' : 'success',
+        offline
+          ? `Offline: loaded ${this.skills.length} skills from cache`
+          : `Loaded ${this.skills.length} skills from repositories`
+      );
 
       // Update UI
-      this.panel.webview.html = this.getMainHtml();
-      this.sendSkillsToWebview();
-      this.sendActivityUpdate();
+      this.showCatalog();
+      this.sendSyncStatus(offline ? 'offline' : 'online');
 
     } catch (error) {
       this.currentStatus = 'idle';
-      this.logActivity('error', `Failed to load skills: ${error instanceof Error ? error.message : String(error)}`);
-      this.panel.webview.html = this.getErrorHtml(
-        error instanceof Error ? error.message : String(error)
-      );
+      const message = error instanceof Error ? error.message : String(error);
+      this.logActivity('error', `Failed to load skills: ${message}`);
+      
+      if (this.showingCatalog) {
+        this.sendSyncStatus('offline');
+      } else {
+        this.panel.webview.html = this.getErrorHtml(message);
+      }
     }
   }
 
   /**
-   * Fetch and parse SKILL.md for each skill
+   * Show the browser with the current skills, keeping the page (and the
+   * user's search and selection) if it is already showing
    */
-  private async enrichSkillsWithMetadata(): Promise<void> {
-    const batchSize = 10;
+  private showCatalog(): void {
+    if (!this.showingCatalog) {
+      this.panel.webview.html = this.getMainHtml();
+      this.showingCatalog = true;
+    }
+    this.sendSkillsToWebview();
+    this.sendActivityUpdate();
+  }
+
+  /**
+   * Tell the webview whether the catalog is current or from the last sync
+   */
+  private sendSyncStatus(state: 'syncing' | 'online' | 'offline'): void {
+    this.panel.webview.postMessage({
+      type: 'syncStatus',
+      state,
+      syncedAt: this.syncedAt?.toLocaleString(),
+      incomplete: this.githubService.getIncompleteSources()
+    });
+  }
+
+  /**
+   * Fetch and parse SKILL.md for each skill, keeping the body for search
+   */
+  private async enrichSkillsWithMetadata(skills: Skill[]): Promise<void> {
+    // One batched fetch per repository snapshot; the service schedules the requests
+    const groups = new Map<string, Skill[]>();
+    for (const skill of skills) {
+      const key = `${skill.repository}@${skill.commit ?? skill.ref ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), skill]);
+    }
     
-    for (let i = 0; i < this.skills.length; i += batchSize) {
-      const batch = this.skills.slice(i, i + batchSize);
+    await Promise.all([...groups.values()].map(async group => {
+      const skillMdPath = (skill: Skill) => skill.path ? `${skill.path}/SKILL.md` : 'SKILL.md';
+      const contents = await this.githubService.fetchFileContents(
+        group[0].repository,
+        group.map(skill => ({
+          path: skillMdPath(skill),
+          sha: skill.files.find(file => file.name === 'SKILL.md')?.sha
+        })),
+        group[0].commit ?? group[0].ref ?? 'HEAD'
+      ).catch(() => new Map<string, string>());
       
-      await Promise.all(batch.map(async (skill) => {
-        try {
-          const skillMdPath = skill.path ? `${skill.path}/SKILL.md` : 'SKILL.md';
-          const content = await this.githubService.fetchFileContent(skill.repository, skillMdPath);
-          const metadata = this.skillParser.parseSkillMd(content);
-          
-          skill.name = metadata.name || skill.name;
-          skill.description = metadata.description || '';
-          skill.category = metadata.category || this.skillParser.inferCategory(skill.name, skill.path);
-          skill.tags = metadata.tags;
-          skill.author = metadata.author;
-          skill.version = metadata.version;
-        } catch {
+      for (const skill of group) {
+        const content = contents.get(skillMdPath(skill));
+        if (content === undefined) {
           // Keep basic info if SKILL.md fetch fails
           skill.category = this.skillParser.inferCategory(skill.name, skill.path);
+          continue;
         }
-      }));
-    }
+        
+        const { metadata, body, problems } = this.skillParser.parse(content);
+        this.skillBodies.set(skill.id, body);
+        skill.name = metadata.name || skill.name;
+        skill.description = metadata.description || '';
+        skill.category = metadata.category || this.skillParser.inferCategory(skill.name, skill.path);
+        skill.tags = metadata.tags;
+        skill.author = metadata.author;
+        skill.version = metadata.version;
+        skill.dependencies = metadata.dependencies ?? [];
+        skill.metadataProblems = problems.map(p =>
+          `SKILL.md line ${p.line + 1}, column ${p.column + 1}: ${p.message}`
+        );
+      }
+    }));
   }
 
   /**
-   * Update installation status for all skills
+   * Update installation status for all skills. Checking for updates needs
+   * the network and can be skipped.
    */
-  private async updateInstallationStatus(): Promise<void> {
-    const installed = await this.skillInstaller.listInstalled();
-    const installedNames = new Set(installed.map(s => s.name.toLowerCase()));
+  private async updateInstallationStatus(checkUpdates = true): Promise<void> {
+    const installed = await this.skillInstaller.listInstalled(undefined, true);
+    this.installed = installed;
+    const updates = checkUpdates ? await this.skillInstaller.checkForUpdates(installed.filter(s => !s.disabled)) : [];
+    this.updates.clear();
     
     for (const skill of this.skills) {
-      skill.isInstalled = installedNames.has(skill.name.toLowerCase());
+      const copies = this.findInstalled(skill);
+      skill.installedScopes = copies.map(s => s.scope.label);
+      skill.isInstalled = copies.length > 0;
+      skill.isDisabled = copies.length > 0 && copies.every(s => s.disabled);
+      skill.lastInstalledAt = copies
+        .filter(s => !isNaN(s.installedAt.getTime()))
+        .map(s => s.installedAt.toISOString())
+        .sort()
+        .pop();
+      const update = updates.find(u => copies.includes(u.installed));
+      if (update) {
+        this.updates.set(skill.id, update);
+      }
+      skill.hasUpdate = update !== undefined;
+    }
+    
+    if (updates.length > 0) {
+      this.logActivity('info', `${updates.length} installed skill(s) have updates available`);
     }
   }
 
   /**
-   * Get categories with counts
+   * Find the installed copies of a catalog skill across all scopes
    */
-  private getCategoriesWithCounts(): { name: string; count: number }[] {
-    const categoryMap = new Map<string, number>();
-    
-    for (const skill of this.skills) {
-      const cat = skill.category || 'uncategorized';
-      categoryMap.set(cat, (categoryMap.get(cat) || 0) + 1);
-    }
+  private findInstalled(skill: Skill): InstalledSkill[] {
+    return this.installed.filter(s => isSameSkill(s, skill));
+  }
 
-    return Array.from(categoryMap.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count);
+  /**
+   * Map a scope root sent by the webview back to a known scope
+   */
+  private resolveScope(root: unknown): InstallScope {
+    const scopes = this.skillInstaller.getScopes();
+    return scopes.find(scope => scope.root === root) ?? scopes[0];
   }
 
   /**
-   * Send skills data to webview
+   * Send the catalog facets and the skills matching the current filters
+   * to the webview
    */
   private sendSkillsToWebview(): void {
-    const categories = this.getCategoriesWithCounts();
-    const installedCount = this.skills.filter(s => s.isInstalled).length;
+    const { skills, highlights } = applyFilters(this.searchIndex, this.filterState);
 
     this.panel.webview.postMessage({
       type: 'skills',
-      skills: this.skills,
-      categories,
-      totalCount: this.skills.length,
-      installedCount
+      skills,
+      highlights,
+      filters: this.filterState,
+      facets: getFacets(this.skills),
+      scopes: this.skillInstaller.getScopes().map(scope => ({ label: scope.label, root: scope.root })),
+      totalCount: this.skills.length
     });
   }
 
   /**
    * Handle skill installation
    */
-  private async handleInstall(skillId: string): Promise<void> {
+  private async handleInstall(skillId: string, scope: InstallScope): Promise<void> {
     const skill = this.skills.find(s => s.id === skillId);
     if (!skill) {
       return;
     }
 
+    const steps = await resolveInstallPlan(this.dependencyResolver, this.skillInstaller, skill, scope, async () => this.skills);
+    if (!steps) {
+      return;
+    }
+
     this.currentStatus = 'installing';
-    this.logActivity('info', `Installing ${skill.name}...`);
+    this.logActivity('info', `Installing ${skill.name} (${scope.label})...`);
 
     this.panel.webview.postMessage({
       type: 'installStart',
       skillId
     });
 
-    const result = await this.skillInstaller.install(skill, (msg) => {
+    const results = await this.skillInstaller.installPlan(steps, (msg) => {
       this.panel.webview.postMessage({
         type: 'installProgress',
         skillId,
         message: msg
       });
-    });
+    }, { scope, onConflict: askInstallConflict });
+    this.markInstalled(results, scope);
 
     this.currentStatus = 'idle';
 
+    const result = results.find(r => !r.success) ?? results[results.length - 1];
     if (result.success) {
-      skill.isInstalled = true;
       this.logActivity('success', `Installed ${skill.name} successfully`);
       this.panel.webview.postMessage({
         type: 'installComplete',
@@ -341,7 +507,10 @@ export class SkillBrowserPanel {
         success: true
       });
     } else {
-      this.logActivity('error', `Failed to install ${skill.name}: ${result.error}`);
+      this.logActivity('error', `Failed to install ${result.skill.name}: ${result.error}`);
+      for (const file of result.failedFiles ?? []) {
+        this.outputChannel.appendLine(`  ${file.path}: ${file.error}`);
+      }
       this.panel.webview.postMessage({
         type: 'installComplete',
         skillId,
@@ -350,17 +519,34 @@ export class SkillBrowserPanel {
       });
     }
 
+    // Dependencies installed alongside the skill change other cards too
+    if (results.length > 1) {
+      this.sendSkillsToWebview();
+    }
     this.sendActivityUpdate();
   }
 
+  /**
+   * Mark the catalog entries of successfully installed skills
+   */
+  private markInstalled(results: InstallResult[], scope: InstallScope): void {
+    for (const result of results.filter(r => r.success)) {
+      const skill = this.skills.find(s => s.id === result.skill.id);
+      if (skill && !skill.installedScopes?.includes(scope.label)) {
+        skill.isInstalled = true;
+        skill.installedScopes = [...(skill.installedScopes ?? []), scope.label];
+      }
+    }
+  }
+
   /**
    * Handle batch installation
    */
-  private async handleBatchInstall(skillIds: string[]): Promise<void> {
+  private async handleBatchInstall(skillIds: string[], scope: InstallScope): Promise<void> {
     const skillsToInstall = this.skills.filter(s => skillIds.includes(s.id) && !s.isInstalled);
     
     this.currentStatus = 'installing';
-    this.logActivity('info', `Starting batch install of ${skillsToInstall.length} skills...`);
+    this.logActivity('info', `Starting batch install of ${skillsToInstall.length} skills (${scope.label})...`);
 
     this.panel.webview.postMessage({
       type: 'batchInstallStart',
@@ -371,7 +557,21 @@ export class SkillBrowserPanel {
     let failed = 0;
 
     for (const skill of skillsToInstall) {
-      const result = await this.skillInstaller.install(skill, (msg) => {
+      // A dependency of an earlier skill in the batch may already be installed
+      if (skill.isInstalled) {
+        completed++;
+        continue;
+      }
+
+      const steps = await resolveInstallPlan(this.dependencyResolver, this.skillInstaller, skill, scope, async () => this.skills);
+      if (!steps) {
+        failed++;
+        completed++;
+        this.logActivity('warning', `Skipped ${skill.name}`);
+        continue;
+      }
+
+      const results = await this.skillInstaller.installPlan(steps, (msg) => {
         this.panel.webview.postMessage({
           type: 'batchInstallProgress',
           current: completed + 1,
@@ -379,10 +579,10 @@ export class SkillBrowserPanel {
           skillName: skill.name,
           message: msg
         });
-      });
+      }, { scope, onConflict: askInstallConflict });
+      this.markInstalled(results, scope);
 
-      if (result.success) {
-        skill.isInstalled = true;
+      if (results.every(r => r.success)) {
         this.logActivity('success', `Installed ${skill.name}`);
       } else {
         failed++;
@@ -405,36 +605,117 @@ export class SkillBrowserPanel {
   }
 
   /**
-   * Handle search
+   * Handle updating an installed skill to its latest upstream version
    */
-  private async handleSearch(query: string): Promise<void> {
-    const lowerQuery = query.toLowerCase();
-    const filtered = this.skills.filter(skill =>
-      skill.name.toLowerCase().includes(lowerQuery) ||
-      skill.description.toLowerCase().includes(lowerQuery) ||
-      skill.category?.toLowerCase().includes(lowerQuery) ||
-      skill.tags?.some(t => t.toLowerCase().includes(lowerQuery))
+  private async handleUpdate(skillId: string): Promise<void> {
+    const skill = this.skills.find(s => s.id === skillId);
+    const update = this.updates.get(skillId);
+    if (!skill || !update) {
+      return;
+    }
+
+    this.currentStatus = 'installing';
+    this.logActivity('info', `Updating ${skill.name}...`);
+
+    const [result] = await confirmAndApplyUpdates(this.skillInstaller, [update]);
+
+    this.currentStatus = 'idle';
+
+    if (!result) {
+      this.logActivity('info', `Update of ${skill.name} cancelled`);
+    } else if (result.success) {
+      skill.hasUpdate = false;
+      this.updates.delete(skillId);
+      this.logActivity('success', `Updated ${skill.name} successfully`);
+      this.sendSkillsToWebview();
+    } else {
+      this.logActivity('error', `Failed to update ${skill.name}: ${result.error}`);
+    }
+
+    this.sendActivityUpdate();
+  }
+
+  /**
+   * Handle moving an installed skill to another scope
+   */
+  private async handleMove(skillId: string): Promise<void> {
+    const skill = this.skills.find(s => s.id === skillId);
+    if (!skill) {
+      return;
+    }
+
+    // Moving a disabled copy would enable it in the target scope
+    const copies = this.findInstalled(skill).filter(copy => !copy.disabled);
+    let source: InstalledSkill | undefined = copies[0];
+    if (copies.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        copies.map(copy => ({ label: copy.scope.label, description: copy.localPath, copy })),
+        { placeHolder: `Which copy of ${skill.name} should be moved?` }
+      );
+      source = picked?.copy;
+    }
+    if (!source) {
+      return;
+    }
+
+    const target = await pickInstallScope(
+      this.skillInstaller,
+      `Move ${skill.name} from ${source.scope.label} to...`,
+      source.scope
     );
+    if (!target) {
+      return;
+    }
 
-    this.panel.webview.postMessage({
-      type: 'searchResults',
-      skills: filtered,
-      query
-    });
+    try {
+      await this.skillInstaller.move(source, target);
+      this.logActivity('success', `Moved ${skill.name} to ${target.label}`);
+    } catch (error) {
+      this.logActivity('error', `Failed to move ${skill.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    await this.updateInstallationStatus();
+    this.sendSkillsToWebview();
   }
 
   /**
-   * Handle category filter
+   * Disable every enabled copy of a skill, or enable its copies if all of
+   * them are disabled
    */
-  private async handleCategoryFilter(category: string): Promise<void> {
-    const filtered = category === 'all' 
-      ? this.skills 
-      : this.skills.filter(skill => skill.category === category);
+  private async handleToggleEnabled(skillId: string): Promise<void> {
+    const skill = this.skills.find(s => s.id === skillId);
+    if (!skill?.isInstalled) {
+      return;
+    }
+
+    const enable = skill.isDisabled === true;
+    const copies = this.findInstalled(skill).filter(copy => copy.disabled === enable);
+    const failed = await setSkillsEnabled(this.skillInstaller, copies, enable);
+    if (failed.length > 0) {
+      this.logActivity('error', `Failed to ${enable ? 'enable' : 'disable'} ${failed.join(', ')}`);
+    } else {
+      this.logActivity('success', `${enable ? 'Enabled' : 'Disabled'} ${skill.name}`);
+    }
 
+    await this.updateInstallationStatus();
+    this.sendSkillsToWebview();
+    this.sendActivityUpdate();
+  }
+
+  /**
+   * Apply a change to the search, filters or sort order, remember it for
+   * this workspace and send the matching skills
+   */
+  private async handleFilter(changes: Record<string, unknown>): Promise<void> {
+    this.filterState = normalizeFilterState({ ...this.filterState, ...changes });
+    await this.context.workspaceState.update(FILTER_STATE_KEY, this.filterState);
+    
+    const { skills, highlights } = applyFilters(this.searchIndex, this.filterState);
     this.panel.webview.postMessage({
       type: 'filterResults',
-      skills: filtered,
-      category
+      skills,
+      highlights,
+      filters: this.filterState
     });
   }
 
@@ -446,9 +727,110 @@ export class SkillBrowserPanel {
   }
 
   /**
-   * Handle opening readme
+   * Show a skill's rendered SKILL.md, metadata and files in the panel
    */
-  private async handleOpenReadme(skillId: string): Promise<void> {
+  private async handleOpenDetail(skillId: string): Promise<void> {
+    const skill = this.skills.find(s => s.id === skillId);
+    if (!skill) {
+      return;
+    }
+
+    try {
+      const files = await this.getSkillTree(skill);
+      const skillMd = files.find(file => file.name === 'SKILL.md');
+      if (!skillMd) {
+        throw new Error('SKILL.md not found');
+      }
+      
+      const content = await this.githubService.downloadFile(skill.repository, skillMd.path, this.getSkillRef(skill), skillMd.sha);
+      const { metadata, body } = this.skillParser.parse(content.toString('utf-8'));
+      this.panel.webview.postMessage({
+        type: 'skillDetail',
+        skill,
+        html: renderMarkdown(body),
+        metadata: {
+          version: metadata.version,
+          author: metadata.author,
+          triggers: metadata.triggers ?? [],
+          dependencies: metadata.dependencies ?? [],
+          license: typeof metadata.extra?.license === 'string' ? metadata.extra.license : undefined
+        },
+        files: files.map(file => ({ path: file.name, type: file.type, size: file.size }))
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logActivity('error', `Failed to load details of ${skill.name}: ${message}`);
+      this.panel.webview.postMessage({ type: 'skillDetail', skill, error: message });
+    }
+  }
+
+  /**
+   * Send the content of one of a skill's files to the detail view. Markdown
+   * is rendered; binary and very large files are not shown.
+   */
+  private async handlePreviewFile(skillId: string, filePath: string): Promise<void> {
+    const skill = this.skills.find(s => s.id === skillId);
+    if (!skill) {
+      return;
+    }
+
+    const preview = { type: 'filePreview', skillId, path: filePath };
+    try {
+      // Only files listed in the skill's tree can be previewed
+      const file = (await this.getSkillTree(skill)).find(f => f.name === filePath && f.type === 'file');
+      if (!file) {
+        throw new Error('File not found in the skill');
+      }
+      if (file.size !== undefined && file.size > MAX_PREVIEW_BYTES) {
+        this.panel.webview.postMessage({ ...preview, error: `Too large to preview (${Math.round(file.size / 1024)} KB)` });
+        return;
+      }
+      
+      const content = await this.githubService.downloadFile(skill.repository, file.path, this.getSkillRef(skill), file.sha);
+      if (content.includes(0)) {
+        this.panel.webview.postMessage({ ...preview, error: 'Binary file' });
+      } else if (filePath.toLowerCase().endsWith('.md')) {
+        this.panel.webview.postMessage({ ...preview, html: renderMarkdown(content.toString('utf-8')) });
+      } else {
+        this.panel.webview.postMessage({ ...preview, text: content.toString('utf-8') });
+      }
+    } catch (error) {
+      this.panel.webview.postMessage({ ...preview, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Branch, tag or commit a catalog skill was read from
+   */
+  private getSkillRef(skill: Skill): string {
+    return skill.commit ?? skill.ref ?? 'HEAD';
+  }
+
+  /**
+   * List every file and directory of a skill, including nested ones, from
+   * the repository tree. Names are relative to the skill folder.
+   */
+  private async getSkillTree(skill: Skill): Promise<SkillFile[]> {
+    const tree = await this.githubService.fetchRepositoryTree(skill.repository, this.getSkillRef(skill));
+    const prefix = skill.path ? `${skill.path}/` : '';
+    
+    return tree.tree
+      .filter(node => node.path.startsWith(prefix))
+      .map(node => ({
+        name: node.path.slice(prefix.length),
+        path: node.path,
+        type: node.type === 'tree' ? 'directory' as const : 'file' as const,
+        sha: node.sha,
+        size: node.size
+      }))
+      // Folder by folder, so "a/b" stays next to "a" and before "a-b"
+      .sort((a, b) => a.name.split('/').join('\0') < b.name.split('/').join('\0') ? -1 : 1);
+  }
+
+  /**
+   * Open a skill's SKILL.md on its host in the browser
+   */
+  private async handleOpenSource(skillId: string): Promise<void> {
     const skill = this.skills.find(s => s.id === skillId);
     if (!skill) {
       return;
@@ -456,7 +838,7 @@ export class SkillBrowserPanel {
 
     try {
       const readmePath = skill.path ? `${skill.path}/SKILL.md` : 'SKILL.md';
-      const url = `https://github.com/${skill.repository}/blob/main/${readmePath}`;
+      const url = this.githubService.getFileUrl(skill.repository, readmePath, skill.commit ?? skill.ref);
       vscode.env.openExternal(vscode.Uri.parse(url));
     } catch (error) {
       this.logActivity('error', `Failed to open readme: ${error instanceof Error ? error.message : String(error)}`);
@@ -569,7 +951,7 @@ export class SkillBrowserPanel {
           <ul>
             <li>Check your internet connection</li>
             <li>Verify GitHub API rate limits haven't been exceeded</li>
-            <li>Add a GitHub token in settings for higher limits</li>
+            <li>Run "Skill Manager: Sign in to GitHub" for higher limits and private repositories</li>
             <li>Check if the configured repositories exist</li>
           </ul>
         </div>
@@ -605,7 +987,7 @@ export class SkillBrowserPanel {
         <header class="hero">
           <div class="hero-content">
             <h1>Skill Browser</h1>
-            <p class="hero-subtitle">Antigravity Toolkit Manager</p>
+            <p class="hero-subtitle">Antigravity Toolkit Manager <span id="syncStatus" class="sync-status"></span></p>
           </div>
           <div class="hero-actions">
             <button class="btn btn-secondary" onclick="refresh()">
@@ -618,38 +1000,52 @@ export class SkillBrowserPanel {
         </header>
 
         <div class="main-layout">
-          <!-- CATEGORIES SIDEBAR -->
+          <!-- FILTERS SIDEBAR -->
           <aside class="sidebar">
-            <h2 class="sidebar-title">Categories</h2>
-            <div id="categoriesList" class="categories-list">
+            <div id="filtersList">
               <!-- Populated by JS -->
             </div>
           </aside>
 
           <!-- MAIN CONTENT -->
           <main class="content">
-            <!-- SEARCH & ACTIONS -->
-            <div class="toolbar">
-              <div class="search-box">
-                <input type="text" id="searchInput" placeholder="Search skills..." />
-                <button id="clearSearch" class="btn-clear hidden" onclick="clearSearch()">✕</button>
+            <div id="catalogView">
+              <!-- SEARCH & ACTIONS -->
+              <div class="toolbar">
+                <div class="search-box">
+                  <input type="text" id="searchInput" placeholder="Search skills... (repo: tag: author: installed:true -exclude)" />
+                  <button id="clearSearch" class="btn-clear hidden" onclick="clearSearch()">✕</button>
+                </div>
+                <select id="sortSelect" class="scope-select" title="Sort order">
+                  <option value="relevance">Sort: Relevance</option>
+                  <option value="name">Sort: Name</option>
+                  <option value="repository">Sort: Repository</option>
+                  <option value="updated">Sort: Recently updated</option>
+                  <option value="installed">Sort: Recently installed</option>
+                </select>
+                <select id="scopeSelect" class="scope-select hidden" title="Install location"></select>
+                <button class="btn btn-primary" id="installSelectedBtn" onclick="installSelected()" disabled>
+                  Install Selected (<span id="selectedCount">0</span>)
+                </button>
               </div>
-              <button class="btn btn-primary" id="installSelectedBtn" onclick="installSelected()" disabled>
-                Install Selected (<span id="selectedCount">0</span>)
-              </button>
-            </div>
 
-            <!-- SKILLS GRID -->
-            <div id="skillsGrid" class="skills-grid">
-              <!-- Populated by JS -->
+              <!-- SKILLS GRID -->
+              <div id="skillsGrid" class="skills-grid">
+                <!-- Populated by JS -->
+              </div>
+
+              <!-- EMPTY STATE -->
+              <div id="emptyState" class="empty-state hidden">
+                <div class="empty-icon">∅</div>
+                <h3>No skills found</h3>
+                <p>Try a different search term or clear filters</p>
+                <button class="btn btn-secondary" onclick="clearFilters()">Clear Filters</button>
+              </div>
             </div>
 
-            <!-- EMPTY STATE -->
-            <div id="emptyState" class="empty-state hidden">
-              <div class="empty-icon">∅</div>
-              <h3>No skills found</h3>
-              <p>Try a different search term or clear filters</p>
-              <button class="btn btn-secondary" onclick="clearSearch()">Clear Search</button>
+            <!-- SKILL DETAIL -->
+            <div id="detailView" class="detail-view hidden">
+              <!-- Populated by JS -->
             </div>
           </main>
         </div>
@@ -759,6 +1155,8 @@ export class SkillBrowserPanel {
         margin-top: 2px;
       }
       .hero-actions { display: flex; gap: 4px; }
+      .sync-status { margin-left: 8px; }
+      .sync-status.offline, .sync-status.incomplete { color: var(--vscode-editorWarning-foreground); }
 
       /* MAIN LAYOUT */
       .main-layout {
@@ -805,6 +1203,9 @@ export class SkillBrowserPanel {
         opacity: 0.5;
         font-size: 10px;
       }
+      .categories-list {
+        margin-bottom: 20px;
+      }
 
       /* CONTENT */
       .content {
@@ -847,6 +1248,13 @@ export class SkillBrowserPanel {
         color: var(--vscode-descriptionForeground);
         cursor: pointer;
       }
+      .scope-select {
+        padding: 5px 8px;
+        border: 1px solid var(--vscode-dropdown-border);
+        background: var(--vscode-dropdown-background);
+        color: var(--vscode-dropdown-foreground);
+        font-size: 12px;
+      }
       .hidden { display: none !important; }
 
       /* SKILLS GRID */
@@ -886,6 +1294,11 @@ export class SkillBrowserPanel {
         margin-bottom: 16px;
         min-height: 36px;
       }
+      .skill-card mark {
+        background: var(--vscode-editor-findMatchHighlightBackground);
+        color: inherit;
+        border-radius: 2px;
+      }
       .skill-tags {
         display: flex;
         gap: 4px;
@@ -898,6 +1311,9 @@ export class SkillBrowserPanel {
         text-transform: uppercase;
         color: var(--vscode-descriptionForeground);
       }
+      .skill-tag.scope {
+        border-style: dashed;
+      }
       .skill-tag.category {
         border-color: var(--vscode-foreground);
         color: var(--vscode-foreground);
@@ -923,12 +1339,115 @@ export class SkillBrowserPanel {
         padding: 4px 10px;
         font-size: 11px;
       }
+      .install-btn.update {
+        background: var(--vscode-button-background);
+        border-color: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+      }
+      .metadata-warning {
+        cursor: help;
+        color: var(--vscode-editorWarning-foreground);
+        font-size: 12px;
+      }
+      .skill-card.disabled { opacity: 0.6; }
+      .disabled-badge {
+        font-size: 9px;
+        text-transform: uppercase;
+        padding: 2px 6px;
+        border: 1px solid var(--vscode-descriptionForeground);
+        color: var(--vscode-descriptionForeground);
+      }
+      .update-badge {
+        font-size: 9px;
+        text-transform: uppercase;
+        padding: 2px 6px;
+        background: var(--vscode-badge-background);
+        color: var(--vscode-badge-foreground);
+      }
       .install-btn.installed {
         background: var(--vscode-descriptionForeground);
         border-color: var(--vscode-descriptionForeground);
         color: var(--vscode-editor-background);
       }
 
+      /* SKILL DETAIL */
+      .detail-header {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-bottom: 12px;
+      }
+      .detail-title { flex: 1; }
+      .detail-title h2 { font-size: 18px; font-weight: 600; }
+      .detail-subtitle {
+        color: var(--vscode-descriptionForeground);
+        font-size: 11px;
+      }
+      .detail-metadata {
+        display: grid;
+        grid-template-columns: max-content 1fr;
+        gap: 4px 16px;
+        font-size: 12px;
+        margin-bottom: 20px;
+      }
+      .detail-metadata dt { color: var(--vscode-descriptionForeground); }
+      .detail-body {
+        display: flex;
+        gap: 20px;
+        align-items: flex-start;
+      }
+      .detail-files {
+        width: 220px;
+        flex-shrink: 0;
+        font-size: 12px;
+        border-right: 1px solid var(--vscode-widget-border);
+        padding-right: 12px;
+      }
+      .file-entry {
+        padding: 3px 6px;
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+      .file-entry.file { cursor: pointer; }
+      .file-entry.file:hover { background: var(--vscode-list-hoverBackground); }
+      .file-entry.active {
+        background: var(--vscode-list-activeSelectionBackground);
+        color: var(--vscode-list-activeSelectionForeground);
+      }
+      .file-entry.directory { color: var(--vscode-descriptionForeground); }
+      .detail-content {
+        flex: 1;
+        min-width: 0;
+        font-size: 13px;
+        line-height: 1.5;
+      }
+      .detail-content h1, .detail-content h2, .detail-content h3 { margin: 16px 0 8px; }
+      .detail-content p, .detail-content ul, .detail-content ol, .detail-content table, .detail-content blockquote { margin-bottom: 10px; }
+      .detail-content ul, .detail-content ol { padding-left: 24px; }
+      .detail-content pre {
+        background: var(--vscode-textCodeBlock-background);
+        padding: 10px;
+        overflow-x: auto;
+        margin-bottom: 10px;
+        font-size: 12px;
+      }
+      .detail-content code { font-family: var(--vscode-editor-font-family); }
+      .detail-content blockquote {
+        border-left: 3px solid var(--vscode-textBlockQuote-border);
+        padding-left: 10px;
+        color: var(--vscode-descriptionForeground);
+      }
+      .detail-content th, .detail-content td {
+        border: 1px solid var(--vscode-widget-border);
+        padding: 4px 8px;
+      }
+      .detail-content a { color: var(--vscode-textLink-foreground); }
+      .detail-error { color: var(--vscode-errorForeground); }
+
       /* ACTIVITY PANEL */
       .activity-panel {
         border-top: 1px solid var(--vscode-widget-border);
@@ -1000,11 +1519,14 @@ export class SkillBrowserPanel {
   private getScript(): string {
     return `
       const vscode = acquireVsCodeApi();
-      let allSkills = [];
       let displayedSkills = [];
-      let categories = [];
+      let facets = { categories: [], repositories: [], authors: [], tags: [] };
+      let filters = null;
+      let totalCount = 0;
       let selectedSkills = new Set();
-      let activeCategory = 'all';
+      let scopes = [];
+      let highlightTerms = [];
+      let detail = null;
 
       // Handle messages from extension
       window.addEventListener('message', event => {
@@ -1012,18 +1534,25 @@ export class SkillBrowserPanel {
         
         switch (message.type) {
           case 'skills':
-            allSkills = message.skills;
-            displayedSkills = allSkills;
-            categories = message.categories;
-            renderCategories();
-            renderSkills(displayedSkills);
-            updateResultCount(displayedSkills.length);
+            if (!filters) {
+              // First load: restore the search box
+              document.getElementById('searchInput').value = message.filters.query;
+              document.getElementById('clearSearch').classList.toggle('hidden', !message.filters.query);
+            }
+            facets = message.facets;
+            totalCount = message.totalCount;
+            scopes = message.scopes;
+            renderScopes();
+            showResults(message);
             break;
-          case 'searchResults':
           case 'filterResults':
-            displayedSkills = message.skills;
-            renderSkills(displayedSkills);
-            updateResultCount(displayedSkills.length);
+            showResults(message);
+            break;
+          case 'skillDetail':
+            if (detail && detail.skillId === message.skill.id) renderDetail(message);
+            break;
+          case 'filePreview':
+            showFilePreview(message);
             break;
           case 'installStart':
             setCardState(message.skillId, 'installing');
@@ -1043,25 +1572,116 @@ export class SkillBrowserPanel {
           case 'activityUpdate':
             updateActivityPanel(message.status, message.log);
             break;
+          case 'syncStatus':
+            updateSyncStatus(message.state, message.syncedAt, message.incomplete);
+            break;
         }
       });
 
-      function renderCategories() {
-        const container = document.getElementById('categoriesList');
-        let html = '<div class="category-item ' + (activeCategory === 'all' ? 'active' : '') + '" data-category="all"><span>All</span><span class="category-count">' + allSkills.length + '</span></div>';
-        
-        for (const cat of categories.slice(0, 20)) {
-          const isActive = activeCategory === cat.name ? 'active' : '';
-          html += '<div class="category-item ' + isActive + '" data-category="' + escapeHtml(cat.name) + '"><span>' + escapeHtml(cat.name) + '</span><span class="category-count">' + cat.count + '</span></div>';
+      function updateSyncStatus(state, syncedAt, incomplete) {
+        const el = document.getElementById('syncStatus');
+        el.className = 'sync-status ' + state;
+        if (state === 'syncing') {
+          el.textContent = '· Syncing...';
+        } else if (state === 'offline') {
+          el.textContent = syncedAt ? '· ⚠ Offline, last synced ' + syncedAt : '· ⚠ Offline';
+        } else {
+          el.textContent = syncedAt ? '· Last synced ' + syncedAt : '';
+        }
+        if (state !== 'syncing' && incomplete && incomplete.length > 0) {
+          el.className += ' incomplete';
+          el.textContent += ' · ⚠ Incomplete listing: ' + incomplete.join(', ');
+          el.title = 'These sources are too large to list in full; some of their skills may be missing';
+        } else {
+          el.title = '';
         }
+      }
+
+      function showResults(message) {
+        displayedSkills = message.skills;
+        highlightTerms = message.highlights || [];
+        filters = message.filters;
+        renderFilters();
+        renderSkills(displayedSkills);
+        updateResultCount(displayedSkills.length);
+      }
+
+      function renderFilters() {
+        const container = document.getElementById('filtersList');
+        const anyFacet = filters.categories.length + filters.repositories.length + filters.authors.length + filters.tags.length > 0;
+        let html = '<h2 class="sidebar-title">Status</h2><div class="categories-list">';
+        html += filterItem('all', '', 'All', totalCount, !anyFacet && filters.installed === 'any' && !filters.updatesOnly);
+        html += filterItem('installed', 'installed', 'Installed', undefined, filters.installed === 'installed');
+        html += filterItem('installed', 'notInstalled', 'Not installed', undefined, filters.installed === 'notInstalled');
+        html += filterItem('updatesOnly', '', 'Update available', undefined, filters.updatesOnly);
+        html += '</div>';
+        html += renderFacet('Categories', 'categories');
+        html += renderFacet('Repositories', 'repositories');
+        html += renderFacet('Authors', 'authors');
+        html += renderFacet('Tags', 'tags');
         container.innerHTML = html;
+        document.getElementById('sortSelect').value = filters.sort;
         
-        // Add click listeners
         container.querySelectorAll('.category-item').forEach(el => {
-          el.onclick = () => filterCategory(el.dataset.category);
+          el.onclick = () => toggleFilter(el.dataset.facet, el.dataset.value);
         });
       }
 
+      function renderFacet(title, facet) {
+        // The most common values, plus any selected value outside them
+        const values = facets[facet].filter((item, i) => i < 20 || filters[facet].includes(item.name));
+        if (values.length === 0) return '';
+        return '<h2 class="sidebar-title">' + title + '</h2><div class="categories-list">' +
+          values.map(item => filterItem(facet, item.name, item.name, item.count, filters[facet].includes(item.name))).join('') +
+          '</div>';
+      }
+
+      function filterItem(facet, value, label, count, active) {
+        return '<div class="category-item ' + (active ? 'active' : '') + '" data-facet="' + facet + '" data-value="' + escapeHtml(value) + '">' +
+          '<span>' + escapeHtml(label) + '</span>' +
+          (count !== undefined ? '<span class="category-count">' + count + '</span>' : '') +
+          '</div>';
+      }
+
+      function toggleFilter(facet, value) {
+        if (facet === 'all') {
+          setFilters({ categories: [], repositories: [], authors: [], tags: [], installed: 'any', updatesOnly: false });
+        } else if (facet === 'installed') {
+          setFilters({ installed: filters.installed === value ? 'any' : value });
+        } else if (facet === 'updatesOnly') {
+          setFilters({ updatesOnly: !filters.updatesOnly });
+        } else {
+          const values = filters[facet].includes(value)
+            ? filters[facet].filter(v => v !== value)
+            : filters[facet].concat(value);
+          setFilters({ [facet]: values });
+        }
+      }
+
+      // Filter state lives in the extension; it sends back the results
+      function setFilters(changes) {
+        if (!filters) return;
+        filters = Object.assign({}, filters, changes);
+        renderFilters();
+        vscode.postMessage({ command: 'filter', filters: changes });
+      }
+
+      function renderScopes() {
+        const select = document.getElementById('scopeSelect');
+        const current = select.value;
+        select.innerHTML = scopes.map(scope =>
+          '<option value="' + escapeHtml(scope.root) + '">Install to: ' + escapeHtml(scope.label) + '</option>'
+        ).join('');
+        if (scopes.some(scope => scope.root === current)) {
+          select.value = current;
+        }
+        select.classList.toggle('hidden', scopes.length <= 1);
+      }
+
+      function selectedScope() {
+        return document.getElementById('scopeSelect').value;
+      }
+
       function renderSkills(skills) {
         const grid = document.getElementById('skillsGrid');
         const empty = document.getElementById('emptyState');
@@ -1080,36 +1700,53 @@ export class SkillBrowserPanel {
           const id = card.dataset.id;
           const installBtn = card.querySelector('.install-btn');
           const readmeBtn = card.querySelector('.readme-btn');
+          const moveBtn = card.querySelector('.move-btn');
+          const toggleBtn = card.querySelector('.toggle-btn');
           const checkbox = card.querySelector('.skill-checkbox');
 
-          if (installBtn) installBtn.onclick = (e) => { e.stopPropagation(); install(id); };
-          if (readmeBtn) readmeBtn.onclick = (e) => { e.stopPropagation(); openReadme(id); };
+          if (installBtn) installBtn.onclick = (e) => {
+            e.stopPropagation();
+            if (installBtn.classList.contains('update')) {
+              update(id);
+            } else {
+              install(id);
+            }
+          };
+          if (readmeBtn) readmeBtn.onclick = (e) => { e.stopPropagation(); openDetail(id); };
+          if (moveBtn) moveBtn.onclick = (e) => { e.stopPropagation(); move(id); };
+          if (toggleBtn) toggleBtn.onclick = (e) => { e.stopPropagation(); toggleEnabled(id); };
           if (checkbox) checkbox.onchange = (e) => { toggleSelect(id); };
         });
       }
 
       function createSkillCard(skill) {
         const isChecked = selectedSkills.has(skill.id) ? 'checked' : '';
-        const installedClass = skill.isInstalled ? 'installed' : '';
-        const btnClass = skill.isInstalled ? 'installed' : '';
-        const btnText = skill.isInstalled ? '✓ Installed' : 'Install';
-        const btnDisabled = skill.isInstalled ? 'disabled' : '';
+        const installedClass = skill.isDisabled ? 'installed disabled' : skill.isInstalled ? 'installed' : '';
+        const btnClass = skill.hasUpdate ? 'update' : skill.isInstalled ? 'installed' : '';
+        const btnText = skill.hasUpdate ? '↑ Update' : skill.isInstalled ? '✓ Installed' : 'Install';
+        const btnDisabled = skill.isInstalled && !skill.hasUpdate ? 'disabled' : '';
         
         return \`
           <div class="skill-card \${installedClass}" data-id="\${escapeHtml(skill.id)}">
             <div class="skill-header">
-              <span class="skill-name">\${escapeHtml(skill.name)}</span>
+              <span class="skill-name">\${highlight(skill.name)}</span>
+              \${skill.hasUpdate ? '<span class="update-badge">Update available</span>' : ''}
+              \${skill.isDisabled ? '<span class="disabled-badge">Disabled</span>' : ''}
+              \${(skill.metadataProblems || []).length > 0 ? \`<span class="metadata-warning" title="\${escapeHtml(skill.metadataProblems.join('\\n'))}">⚠</span>\` : ''}
               <input type="checkbox" class="skill-checkbox" 
                      \${isChecked} \${skill.isInstalled ? 'disabled' : ''} />
             </div>
-            <p class="skill-description">\${escapeHtml(skill.description || 'No description')}</p>
+            <p class="skill-description">\${skill.description ? highlight(skill.description) : 'No description'}</p>
             <div class="skill-tags">
-              \${skill.category ? \`<span class="skill-tag category">\${escapeHtml(skill.category)}</span>\` : ''}
-              \${(skill.tags || []).slice(0, 2).map(t => \`<span class="skill-tag">\${escapeHtml(t)}</span>\`).join('')}
+              \${skill.category ? \`<span class="skill-tag category">\${highlight(skill.category)}</span>\` : ''}
+              \${(skill.tags || []).slice(0, 2).map(t => \`<span class="skill-tag">\${highlight(t)}</span>\`).join('')}
+              \${(skill.installedScopes || []).map(s => \`<span class="skill-tag scope" title="Installed in">\${escapeHtml(s)}</span>\`).join('')}
             </div>
             <div class="skill-footer">
               <div class="skill-actions">
-                <button class="readme-btn" title="View Readme">📖</button>
+                <button class="readme-btn" title="View details">📖</button>
+                \${skill.isInstalled ? \`<button class="toggle-btn" title="\${skill.isDisabled ? 'Enable' : 'Disable'}">\${skill.isDisabled ? '▶' : '⏸'}</button>\` : ''}
+                \${skill.isInstalled && scopes.length > 1 ? '<button class="move-btn" title="Move to another scope">⇄</button>' : ''}
               </div>
               <button class="btn btn-primary install-btn \${btnClass}" \${btnDisabled}>\${btnText}</button>
             </div>
@@ -1117,19 +1754,183 @@ export class SkillBrowserPanel {
         \`;
       }
 
+      // Escape text, marking the words the last search matched. Matched
+      // words are letters and digits only, so they need no regex escaping.
+      function highlight(text) {
+        if (!text || highlightTerms.length === 0) return escapeHtml(text);
+        const pattern = new RegExp('(?<![\\\\p{L}\\\\p{N}])(?:' + highlightTerms.join('|') + ')(?![\\\\p{L}\\\\p{N}])', 'giu');
+        let html = '';
+        let last = 0;
+        for (const match of text.matchAll(pattern)) {
+          html += escapeHtml(text.slice(last, match.index)) + '<mark>' + escapeHtml(match[0]) + '</mark>';
+          last = match.index + match[0].length;
+        }
+        return html + escapeHtml(text.slice(last));
+      }
+
       function escapeHtml(text) {
         if (!text) return '';
         const div = document.createElement('div');
         div.textContent = text;
-        return div.innerHTML;
+        // Quotes too, since the result is also used inside attributes
+        return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#039;');
       }
 
       function install(skillId) {
-        vscode.postMessage({ command: 'install', skillId });
+        vscode.postMessage({ command: 'install', skillId, scopeRoot: selectedScope() });
+      }
+
+      function move(skillId) {
+        vscode.postMessage({ command: 'move', skillId });
+      }
+
+      function update(skillId) {
+        vscode.postMessage({ command: 'update', skillId });
+      }
+
+      function toggleEnabled(skillId) {
+        vscode.postMessage({ command: 'toggleEnabled', skillId });
+      }
+
+      function openDetail(skillId) {
+        detail = { skillId, files: [], html: '', path: 'SKILL.md' };
+        document.getElementById('catalogView').classList.add('hidden');
+        const view = document.getElementById('detailView');
+        view.classList.remove('hidden');
+        view.innerHTML = '<p>Loading...</p>';
+        vscode.postMessage({ command: 'openDetail', skillId });
       }
 
-      function openReadme(skillId) {
-        vscode.postMessage({ command: 'openReadme', skillId });
+      function closeDetail() {
+        detail = null;
+        document.getElementById('detailView').classList.add('hidden');
+        document.getElementById('catalogView').classList.remove('hidden');
+      }
+
+      function renderDetail(message) {
+        const skill = message.skill;
+        const view = document.getElementById('detailView');
+        const btnClass = skill.hasUpdate ? 'update' : skill.isInstalled ? 'installed' : '';
+        const btnText = skill.hasUpdate ? '↑ Update' : skill.isInstalled ? '✓ Installed' : 'Install';
+        const btnDisabled = skill.isInstalled && !skill.hasUpdate ? 'disabled' : '';
+        
+        let html = '<div class="detail-header" data-id="' + escapeHtml(skill.id) + '">' +
+          '<button class="btn btn-secondary" id="detailBack">← Back</button>' +
+          '<div class="detail-title"><h2>' + escapeHtml(skill.name) + '</h2>' +
+          '<span class="detail-subtitle">' + escapeHtml(skill.repository + (skill.path ? '/' + skill.path : '')) + '</span></div>' +
+          '<button class="btn btn-secondary" id="detailSource" title="Open SKILL.md in the browser">Open Source ↗</button>' +
+          '<button class="btn btn-primary install-btn ' + btnClass + '" id="detailInstall" ' + btnDisabled + '>' + btnText + '</button>' +
+          '</div>' +
+          '<p class="skill-description">' + escapeHtml(skill.description || 'No description') + '</p>';
+        
+        if (message.error) {
+          html += '<p class="detail-error">Could not load the skill: ' + escapeHtml(message.error) + '</p>';
+        } else {
+          const metadata = message.metadata;
+          const rows = [
+            ['Version', metadata.version],
+            ['Author', metadata.author],
+            ['License', metadata.license],
+            ['Category', skill.category],
+            ['Tags', (skill.tags || []).join(', ')],
+            ['Triggers', metadata.triggers.join(', ')],
+            ['Dependencies', metadata.dependencies.join(', ')],
+            ['Commit', skill.commit ? skill.commit.slice(0, 7) : skill.ref]
+          ].filter(row => row[1]);
+          html += '<dl class="detail-metadata">' +
+            rows.map(row => '<dt>' + row[0] + '</dt><dd>' + escapeHtml(row[1]) + '</dd>').join('') +
+            '</dl>' +
+            '<div class="detail-body"><nav class="detail-files" id="detailFiles"></nav>' +
+            '<div class="detail-content" id="detailContent"></div></div>';
+        }
+        view.innerHTML = html;
+        
+        document.getElementById('detailBack').onclick = closeDetail;
+        document.getElementById('detailSource').onclick = () => vscode.postMessage({ command: 'openSource', skillId: skill.id });
+        const installBtn = document.getElementById('detailInstall');
+        installBtn.onclick = () => skill.hasUpdate ? update(skill.id) : install(skill.id);
+        
+        if (!message.error) {
+          detail.files = message.files;
+          detail.html = message.html;
+          showDetailFile('SKILL.md');
+        }
+      }
+
+      function renderDetailFiles() {
+        const nav = document.getElementById('detailFiles');
+        nav.innerHTML = detail.files.map(file => {
+          const depth = file.path.split('/').length - 1;
+          const name = file.path.split('/').pop();
+          const active = file.path === detail.path ? ' active' : '';
+          const size = file.type === 'file' && file.size !== undefined ? '<span class="category-count">' + formatSize(file.size) + '</span>' : '';
+          return '<div class="file-entry ' + file.type + active + '" data-path="' + escapeHtml(file.path) + '" style="padding-left: ' + (6 + depth * 14) + 'px">' +
+            '<span>' + (file.type === 'directory' ? '📁 ' + escapeHtml(name) + '/' : escapeHtml(name)) + '</span>' + size + '</div>';
+        }).join('');
+        nav.querySelectorAll('.file-entry.file').forEach(el => {
+          el.onclick = () => showDetailFile(el.dataset.path);
+        });
+      }
+
+      function showDetailFile(path) {
+        detail.path = path;
+        renderDetailFiles();
+        const content = document.getElementById('detailContent');
+        if (path === 'SKILL.md') {
+          showDetailHtml(detail.html);
+        } else {
+          content.innerHTML = '<p>Loading...</p>';
+          vscode.postMessage({ command: 'previewFile', skillId: detail.skillId, path });
+        }
+      }
+
+      function showDetailHtml(html) {
+        const content = document.getElementById('detailContent');
+        content.innerHTML = html;
+        // Links to other files of the skill open in the preview
+        const folder = detail.path.includes('/') ? detail.path.slice(0, detail.path.lastIndexOf('/') + 1) : '';
+        content.querySelectorAll('a[data-file]').forEach(link => {
+          link.onclick = (e) => {
+            e.preventDefault();
+            const target = resolvePath(folder + link.dataset.file.split('#')[0]);
+            if (detail.files.some(file => file.path === target && file.type === 'file')) {
+              showDetailFile(target);
+            }
+          };
+        });
+      }
+
+      function showFilePreview(message) {
+        if (!detail || message.skillId !== detail.skillId || message.path !== detail.path) return;
+        const content = document.getElementById('detailContent');
+        if (message.error) {
+          content.innerHTML = '<p class="detail-error">' + escapeHtml(message.error) + '</p>';
+        } else if (message.html !== undefined) {
+          showDetailHtml(message.html);
+        } else {
+          content.innerHTML = '<pre><code>' + escapeHtml(message.text) + '</code></pre>';
+        }
+      }
+
+      function resolvePath(path) {
+        const parts = [];
+        for (const part of path.split('/')) {
+          if (part === '..') parts.pop();
+          else if (part && part !== '.') parts.push(safeDecode(part));
+        }
+        return parts.join('/');
+      }
+
+      function safeDecode(text) {
+        try {
+          return decodeURIComponent(text);
+        } catch {
+          return text;
+        }
+      }
+
+      function formatSize(bytes) {
+        return bytes < 1024 ? bytes + ' B' : Math.round(bytes / 1024) + ' KB';
       }
 
       function openSettings() {
@@ -1157,7 +1958,7 @@ export class SkillBrowserPanel {
 
       function installSelected() {
         if (selectedSkills.size === 0) return;
-        vscode.postMessage({ command: 'installBatch', skillIds: Array.from(selectedSkills) });
+        vscode.postMessage({ command: 'installBatch', skillIds: Array.from(selectedSkills), scopeRoot: selectedScope() });
         selectedSkills.clear();
         updateSelectedCount();
       }
@@ -1169,19 +1970,21 @@ export class SkillBrowserPanel {
       function clearSearch() {
         document.getElementById('searchInput').value = '';
         document.getElementById('clearSearch').classList.add('hidden');
-        vscode.postMessage({ command: 'clearSearch' });
-        filterCategory('all');
+        setFilters({ query: '' });
       }
 
-      function filterCategory(category) {
-        activeCategory = category;
-        renderCategories();
-        vscode.postMessage({ command: 'filterCategory', category });
+      function clearFilters() {
+        document.getElementById('searchInput').value = '';
+        document.getElementById('clearSearch').classList.add('hidden');
+        vscode.postMessage({ command: 'clearFilters' });
       }
 
       function setCardState(skillId, state) {
-        const card = document.querySelector('[data-id="' + skillId + '"]');
-        if (!card) return;
+        // The skill's card and, if it is open, its detail view
+        document.querySelectorAll('[data-id="' + skillId + '"]').forEach(card => setButtonState(card, state));
+      }
+
+      function setButtonState(card, state) {
         const btn = card.querySelector('.install-btn');
         
         if (state === 'installing') {
@@ -1233,9 +2036,13 @@ export class SkillBrowserPanel {
         const query = e.target.value;
         document.getElementById('clearSearch').classList.toggle('hidden', !query);
         searchTimeout = setTimeout(() => {
-          vscode.postMessage({ command: 'search', query });
+          setFilters({ query });
         }, 250);
       });
+
+      document.getElementById('sortSelect').addEventListener('change', (e) => {
+        setFilters({ sort: e.target.value });
+      });
     `;
   }
 